@@ -0,0 +1,130 @@
+import type { SpriteAnimation, TileData, TileRect, SheetSource } from './types';
+import { createCanvas } from './canvas';
+
+export class AnimationBuilder {
+  fromIndices(name: string, indices: number[], duration: number): SpriteAnimation {
+    return {
+      name,
+      frames: indices.map(index => ({ index, duration }))
+    };
+  }
+
+  fromRow(name: string, rects: TileRect[], row: number, duration: number): SpriteAnimation {
+    const indices = rects
+      .filter(rect => rect.row === row)
+      .sort((a, b) => a.col - b.col)
+      .map(rect => rect.index);
+    return this.fromIndices(name, indices, duration);
+  }
+
+  fromRange(name: string, start: number, end: number, duration: number): SpriteAnimation {
+    const indices: number[] = [];
+    const step = start <= end ? 1 : -1;
+    for (let index = start; index !== end + step; index += step) {
+      indices.push(index);
+    }
+    return this.fromIndices(name, indices, duration);
+  }
+
+  // Drops frames whose tile is no longer in `rects`, and animations left without frames
+  pruneFrames(animations: SpriteAnimation[], rects: TileRect[]): { animations: SpriteAnimation[]; removed: number } {
+    const indices = new Set(rects.map(rect => rect.index));
+    let removed = 0;
+    const pruned = animations.flatMap(animation => {
+      const frames = animation.frames.filter(frame => indices.has(frame.index));
+      removed += animation.frames.length - frames.length;
+      if (frames.length === animation.frames.length) return [animation];
+      return frames.length > 0 ? [{ ...animation, frames }] : [];
+    });
+    return { animations: pruned, removed };
+  }
+
+  // One message per animation whose frames point at tiles the sheet no longer has
+  validate(animations: SpriteAnimation[], tiles: TileData[]): string[] {
+    const indices = new Set(tiles.map(tile => tile.index));
+    return animations.flatMap(animation => {
+      const missing = [...new Set(animation.frames.map(frame => frame.index).filter(index => !indices.has(index)))];
+      return missing.length > 0 ? [`Animation "${animation.name}" references missing tile${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`] : [];
+    });
+  }
+
+  // Renders every frame at the untrimmed tile size so trimmed tiles stay aligned
+  composeFrames(animation: SpriteAnimation, tiles: TileData[]): ImageData[] {
+    const tilesByIndex = new Map(tiles.map(tile => [tile.index, tile]));
+    const frameTiles = animation.frames.map(frame => {
+      const tile = tilesByIndex.get(frame.index);
+      if (!tile) throw new Error(`Animation "${animation.name}" references missing tile ${frame.index}`);
+      return tile;
+    });
+
+    const width = Math.max(1, ...frameTiles.map(tile => tile.sourceRect.width));
+    const height = Math.max(1, ...frameTiles.map(tile => tile.sourceRect.height));
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+    return frameTiles.map(tile => {
+      ctx.clearRect(0, 0, width, height);
+      if (!tile.isEmpty) {
+        const { x, y, width: w, height: h } = tile.trimRect;
+        const inset = tile.inset ?? 0;
+        ctx.drawImage(tile.canvas, inset, inset, w, h, x, y, w, h);
+      }
+      return ctx.getImageData(0, 0, width, height);
+    });
+  }
+}
+
+export class AnimationPlayer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private timer: number | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext('2d')!;
+  }
+
+  play(animation: SpriteAnimation, image: SheetSource, rects: TileRect[]) {
+    this.stop();
+
+    const rectsByIndex = new Map(rects.map(rect => [rect.index, rect]));
+    const frames = animation.frames.filter(frame => rectsByIndex.has(frame.index));
+    if (frames.length === 0) return;
+
+    const frameRects = frames.map(frame => rectsByIndex.get(frame.index)!);
+    const width = Math.max(...frameRects.map(rect => rect.width));
+    const height = Math.max(...frameRects.map(rect => rect.height));
+    const scale = Math.max(1, Math.floor(Math.min(this.canvas.width / width, this.canvas.height / height)));
+
+    let current = 0;
+    const drawFrame = () => {
+      const rect = frameRects[current];
+      const x = Math.floor((this.canvas.width - width * scale) / 2);
+      const y = Math.floor((this.canvas.height - height * scale) / 2);
+
+      this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+      this.ctx.imageSmoothingEnabled = false;
+      this.ctx.drawImage(
+        image,
+        rect.x, rect.y, rect.width, rect.height,
+        x, y, rect.width * scale, rect.height * scale
+      );
+
+      this.timer = window.setTimeout(() => {
+        current = (current + 1) % frames.length;
+        drawFrame();
+      }, frames[current].duration);
+    };
+
+    drawFrame();
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+}
@@ -0,0 +1,103 @@
+import type { Hitbox, Pivot, Rect, SheetSource, TileSettings } from './types';
+
+// Named pivots for the settings and the CLI, as fractions of the tile
+export const PIVOT_ANCHORS: Record<string, Pivot> = {
+  'top-left': { x: 0, y: 0 },
+  'top-center': { x: 0.5, y: 0 },
+  'top-right': { x: 1, y: 0 },
+  'center-left': { x: 0, y: 0.5 },
+  'center': { x: 0.5, y: 0.5 },
+  'center-right': { x: 1, y: 0.5 },
+  'bottom-left': { x: 0, y: 1 },
+  'bottom-center': { x: 0.5, y: 1 },
+  'bottom-right': { x: 1, y: 1 }
+};
+
+const HITBOX_COLORS = ['#e74c3c', '#3498db', '#2ecc71', '#f39c12', '#9b59b6'];
+
+export class TileAnnotator {
+  getDefaultPivot(settings: TileSettings): Pivot {
+    return { x: settings.pivotX, y: settings.pivotY };
+  }
+
+  getAnchorName(pivot: Pivot): string | null {
+    const anchor = Object.entries(PIVOT_ANCHORS).find(([, anchor]) => this.samePivot(anchor, pivot));
+    return anchor ? anchor[0] : null;
+  }
+
+  samePivot(a: Pivot, b: Pivot): boolean {
+    return Math.abs(a.x - b.x) < 1e-6 && Math.abs(a.y - b.y) < 1e-6;
+  }
+
+  // Pivot under a point on the tile, snapped to half pixels so it lands on a pixel's edge or centre
+  pivotAt(x: number, y: number, width: number, height: number): Pivot {
+    const snap = (value: number, size: number) =>
+      Math.round(Math.min(1, Math.max(0, Math.round(value * 2) / 2 / size)) * 10000) / 10000;
+    return { x: snap(x, width), y: snap(y, height) };
+  }
+
+  // Box spanned by a drag, grown to whole pixels and clipped to the tile; null when nothing is left
+  createHitbox(name: string, start: { x: number; y: number }, end: { x: number; y: number }, width: number, height: number): Hitbox | null {
+    const left = Math.max(0, Math.floor(Math.min(start.x, end.x)));
+    const top = Math.max(0, Math.floor(Math.min(start.y, end.y)));
+    const right = Math.min(width, Math.ceil(Math.max(start.x, end.x)));
+    const bottom = Math.min(height, Math.ceil(Math.max(start.y, end.y)));
+    if (right <= left || bottom <= top) return null;
+    return { name, x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  readPivot(value: unknown): Pivot | null {
+    const pivot = value as Partial<Pivot> | null;
+    return typeof pivot?.x === 'number' && typeof pivot?.y === 'number' ? { x: pivot.x, y: pivot.y } : null;
+  }
+
+  // Drops anything in saved JSON that isn't a named box
+  readHitboxes(value: unknown): Hitbox[] {
+    if (!Array.isArray(value)) return [];
+    return value
+      .filter(box => typeof box?.name === 'string'
+        && ['x', 'y', 'width', 'height'].every(key => typeof box[key] === 'number'))
+      .map(box => ({ name: box.name, x: box.x, y: box.y, width: box.width, height: box.height }));
+  }
+
+  // Zoomed view of one tile of the sheet with its boxes and pivot, for placing them by hand
+  drawEditor(canvas: HTMLCanvasElement, image: SheetSource, rect: Rect, zoom: number, pivot: Pivot, hitboxes: Hitbox[]) {
+    canvas.width = rect.width * zoom;
+    canvas.height = rect.height * zoom;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+
+    // Boxes with the same name share a color
+    const names = [...new Set(hitboxes.map(box => box.name))];
+    ctx.lineWidth = 2;
+    ctx.font = '11px sans-serif';
+    ctx.textBaseline = 'top';
+    for (const box of hitboxes) {
+      const color = HITBOX_COLORS[names.indexOf(box.name) % HITBOX_COLORS.length];
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.strokeRect(box.x * zoom + 1, box.y * zoom + 1, box.width * zoom - 2, box.height * zoom - 2);
+      ctx.fillText(box.name, box.x * zoom + 3, box.y * zoom + 3);
+    }
+
+    const x = pivot.x * canvas.width;
+    const y = pivot.y * canvas.height;
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 3;
+    this.drawCross(ctx, x, y);
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 1;
+    this.drawCross(ctx, x, y);
+  }
+
+  private drawCross(ctx: CanvasRenderingContext2D, x: number, y: number) {
+    ctx.beginPath();
+    ctx.moveTo(x - 6, y);
+    ctx.lineTo(x + 6, y);
+    ctx.moveTo(x, y - 6);
+    ctx.lineTo(x, y + 6);
+    ctx.stroke();
+  }
+}
@@ -0,0 +1,78 @@
+import type { AtlasFrame, TileData } from './types';
+import type { PackedPage } from './packer';
+
+export interface AtlasMeta {
+  image: string;
+  width: number;
+  height: number;
+}
+
+export class AtlasBuilder {
+  createFrame(filename: string, tile: TileData, x: number, y: number, rotated: boolean = false): AtlasFrame {
+    const { sourceRect, trimRect } = tile;
+    const trimmed = trimRect.x !== 0 || trimRect.y !== 0
+      || trimRect.width !== sourceRect.width || trimRect.height !== sourceRect.height;
+
+    return {
+      filename,
+      frame: { x, y, w: trimRect.width, h: trimRect.height },
+      rotated,
+      trimmed,
+      spriteSourceSize: { x: trimRect.x, y: trimRect.y, w: trimRect.width, h: trimRect.height },
+      sourceSize: { w: sourceRect.width, h: sourceRect.height },
+      pivot: tile.pivot,
+      ...(tile.hitboxes.length > 0 ? { hitboxes: tile.hitboxes } : {})
+    };
+  }
+
+  // Frames that point straight into the original sprite sheet
+  createSheetFrames(tiles: TileData[], filenames: string[]): AtlasFrame[] {
+    return tiles.map((tile, i) => this.createFrame(
+      filenames[i],
+      tile,
+      tile.sourceRect.x + tile.trimRect.x,
+      tile.sourceRect.y + tile.trimRect.y
+    ));
+  }
+
+  // Frames that point into a page produced by AtlasPacker; a tile's extruded or bled border stays outside its frame
+  createPackedFrames(page: PackedPage, filenames: Map<TileData, string>): AtlasFrame[] {
+    return page.placements.map(placement => this.createFrame(
+      filenames.get(placement.tile)!,
+      placement.tile,
+      placement.x + (placement.tile.inset ?? 0),
+      placement.y + (placement.tile.inset ?? 0),
+      placement.rotated
+    ));
+  }
+
+  toJsonHash(frames: AtlasFrame[], meta: AtlasMeta) {
+    const hash: Record<string, Omit<AtlasFrame, 'filename'>> = {};
+    for (const { filename, ...frame } of frames) {
+      hash[filename] = frame;
+    }
+
+    return {
+      frames: hash,
+      meta: this.createMeta(meta)
+    };
+  }
+
+  toJsonArray(frames: AtlasFrame[], meta: AtlasMeta) {
+    return {
+      frames,
+      meta: this.createMeta(meta)
+    };
+  }
+
+  private createMeta(meta: AtlasMeta) {
+    return {
+      app: 'sprite-slicer',
+      version: '1.0',
+      image: meta.image,
+      format: 'RGBA8888',
+      size: { w: meta.width, h: meta.height },
+      scale: '1'
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import JSZip from 'jszip';
+import type { BatchItem, ExportProgress, ExportSettings, ImportOptions, SheetReport, SheetSource, TileRect, TileSettings } from './types';
+import { ImageLoader } from './imageLoader';
+import { GridCalculator } from './grid';
+import { IslandDetector } from './islands';
+import { ColorKeyer } from './colorKey';
+import { SpriteSlicer } from './slicer';
+import { ZipExporter } from './zipper';
+
+const SUPPORTED_EXTENSIONS = ['png', 'webp', 'gif', 'bmp', 'jpg', 'jpeg', 'aseprite', 'ase'];
+
+export class BatchProcessor {
+  // A separate loader so queued files never clobber the sheet open in the editor
+  private imageLoader = new ImageLoader();
+  private gridCalculator = new GridCalculator();
+  private islandDetector = new IslandDetector();
+  private colorKeyer = new ColorKeyer();
+  private slicer = new SpriteSlicer();
+  private zipExporter = new ZipExporter();
+  private nextId = 0;
+
+  isSupportedFile(file: File): boolean {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return SUPPORTED_EXTENSIONS.includes(extension);
+  }
+
+  async createItem(file: File, path: string, options: ImportOptions): Promise<BatchItem> {
+    const item: BatchItem = {
+      id: this.nextId++,
+      file,
+      path,
+      image: null,
+      metadata: null,
+      animations: [],
+      overrides: {},
+      status: 'loading',
+      errors: []
+    };
+
+    try {
+      item.image = await this.imageLoader.loadImage(file, options);
+      item.metadata = this.imageLoader.getImageMetadata(item.image);
+      item.animations = [...this.imageLoader.getImportedAnimations()];
+      item.status = 'valid';
+    } catch (error) {
+      item.status = 'failed';
+      item.errors = [(error as Error).message];
+    }
+
+    return item;
+  }
+
+  getItemSettings(item: BatchItem, settings: TileSettings): TileSettings {
+    return { ...settings, ...item.overrides };
+  }
+
+  validateItem(item: BatchItem, settings: TileSettings) {
+    if (!item.metadata || item.status === 'loading' || item.status === 'processing') return;
+
+    item.errors = this.gridCalculator.validateSettings(this.getItemSettings(item, settings), item.metadata);
+    item.status = item.errors.length > 0 ? 'invalid' : 'valid';
+  }
+
+  // Every sheet goes into its own folder of a single ZIP; a failing sheet doesn't stop the rest
+  async exportBatch(
+    items: BatchItem[],
+    settings: TileSettings,
+    exportSettings: ExportSettings,
+    onProgress?: (progress: ExportProgress) => void,
+    signal?: AbortSignal
+  ): Promise<{ reports: SheetReport[]; zip: Uint8Array }> {
+    const zip = new JSZip();
+    const reports: SheetReport[] = [];
+    const usedFolders = new Set<string>();
+    const total = items.length;
+    const startTime = Date.now();
+
+    for (let i = 0; i < items.length; i++) {
+      signal?.throwIfAborted();
+
+      const item = items[i];
+      const folder = this.getFolderName(item, usedFolders);
+      const reportSheetProgress = (progress: ExportProgress) => {
+        if (!onProgress) return;
+        const current = i + progress.percentage / 100;
+        const elapsed = Date.now() - startTime;
+
+        onProgress({
+          current: i + 1,
+          total,
+          percentage: (current / total) * 100,
+          eta: elapsed > 0 && current > 0 ? (elapsed / current) * (total - current) : 0
+        });
+      };
+
+      item.status = 'processing';
+      try {
+        const report = await this.writeItem(zip.folder(folder)!, item, settings, exportSettings, reportSheetProgress, signal);
+        reports.push({ ...report, name: item.file.name, folder });
+        item.status = 'done';
+      } catch (error) {
+        if (signal?.aborted) {
+          item.status = 'valid';
+          throw error;
+        }
+        // Drop whatever the sheet wrote before failing, so the ZIP only holds complete sheets
+        zip.remove(folder);
+        reports.push({ name: item.file.name, folder, exportedTiles: 0, errors: [], error: (error as Error).message });
+        item.status = 'failed';
+        item.errors = [(error as Error).message];
+      }
+    }
+
+    return { reports, zip: await this.zipExporter.generateZip(zip, signal) };
+  }
+
+  private async writeItem(
+    folder: JSZip,
+    item: BatchItem,
+    baseSettings: TileSettings,
+    exportSettings: ExportSettings,
+    onProgress: (progress: ExportProgress) => void,
+    signal?: AbortSignal
+  ) {
+    if (!item.image || !item.metadata) throw new Error('Image failed to load');
+
+    const settings = this.getItemSettings(item, baseSettings);
+    const errors = this.gridCalculator.validateSettings(settings, item.metadata);
+    if (errors.length > 0) throw new Error(errors[0]);
+
+    const workingImage: SheetSource = settings.colorKeyEnabled
+      ? this.colorKeyer.applyColorKey(item.image, settings.colorKey, settings.colorKeyTolerance)
+      : item.image;
+    const rects = this.getTileRects(workingImage, settings, item);
+
+    // Slicing and writing each report half of the sheet's progress
+    const tiles = await this.slicer.sliceSprite(
+      workingImage,
+      settings,
+      rects,
+      {},
+      progress => onProgress({ ...progress, percentage: progress.percentage / 2 }),
+      signal
+    );
+    try {
+      const contactSheet = exportSettings.includeContactSheet ? this.slicer.createContactSheet(tiles) : undefined;
+
+      return await this.zipExporter.writeSheet(
+        folder,
+        tiles,
+        settings,
+        exportSettings,
+        item.metadata,
+        workingImage,
+        item.animations,
+        contactSheet,
+        progress => onProgress({ ...progress, percentage: 50 + progress.percentage / 2 }),
+        signal
+      );
+    } finally {
+      this.slicer.releaseTiles(tiles);
+    }
+  }
+
+  private getTileRects(image: SheetSource, settings: TileSettings, item: BatchItem): TileRect[] {
+    if (settings.sliceMode === 'islands') {
+      return this.islandDetector.detectIslands(image, settings);
+    }
+    const gridInfo = this.gridCalculator.calculateGrid(settings, item.metadata!);
+    return this.gridCalculator.getTileRects(settings, gridInfo);
+  }
+
+  private getFolderName(item: BatchItem, usedFolders: Set<string>): string {
+    const baseName = item.file.name.replace(/\.[^.]+$/, '').trim().replace(/[^\w-]+/g, '_') || 'sheet';
+    let folder = baseName;
+    for (let n = 2; usedFolders.has(folder); n++) {
+      folder = `${baseName}_${n}`;
+    }
+    usedFolders.add(folder);
+    return folder;
+  }
+}
@@ -0,0 +1,40 @@
+// Core modules create and encode canvases through a backend so they also run outside the browser
+export interface CanvasBackend {
+  createCanvas(width: number, height: number): HTMLCanvasElement;
+  toPng(canvas: HTMLCanvasElement): Promise<Uint8Array | Blob>;
+}
+
+const browserBackend: CanvasBackend = {
+  createCanvas(width, height) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  },
+
+  toPng(canvas) {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to convert canvas to blob'));
+        }
+      }, 'image/png');
+    });
+  }
+};
+
+let backend = browserBackend;
+
+export function setCanvasBackend(canvasBackend: CanvasBackend) {
+  backend = canvasBackend;
+}
+
+export function createCanvas(width: number, height: number): HTMLCanvasElement {
+  return backend.createCanvas(width, height);
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Uint8Array | Blob> {
+  return backend.toPng(canvas);
+}
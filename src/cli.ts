@@ -0,0 +1,428 @@
+#!/usr/bin/env node
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import JSZip from 'jszip';
+import { glob } from 'tinyglobby';
+import type { ExportSettings, ImageFormat, ImageMetadata, Pivot, SheetSource, TileRect, TileSettings } from './types';
+import { setCanvasBackend } from './canvas';
+import { loadSheet, nodeCanvasBackend } from './nodeCanvas';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TILE_SETTINGS } from './defaults';
+import { pickKnownSettings } from './presets';
+import { GridCalculator } from './grid';
+import { IslandDetector } from './islands';
+import { ColorKeyer } from './colorKey';
+import { SpriteSlicer } from './slicer';
+import { ZipExporter } from './zipper';
+import { FilenameGenerator } from './naming';
+import { TilesetBuilder } from './tileset';
+import { TilemapBuilder } from './tilemap';
+import { TileScaler } from './scaler';
+import { PIVOT_ANCHORS } from './annotations';
+import { getExportTargets } from './targets';
+import { SpriteSheetSlicer } from './library';
+
+const USAGE = `Usage: sprite-slicer [options] <files or globs...>
+
+Options:
+  -c, --config <file>      Settings JSON (an exported presets file or a previous meta.json)
+  -p, --preset <name>      Preset to use from a presets file (default: the first one)
+  -t, --tile <WxH>         Tile size, e.g. 32x32 or 16
+      --margin <px>        Margin around the grid
+      --spacing <px>       Spacing between tiles
+      --offset <x,y>       Grid offset
+      --islands            Detect irregular sprites instead of slicing a grid
+      --trim               Trim transparent edges
+      --padding <px>       Padding kept around trimmed tiles
+      --extrude <px>       Grow tiles by repeating their edge pixels
+      --bleed <px>         Grow tiles with the neighbouring pixels from the sheet
+      --pivot <x,y|name>   Default pivot as fractions of the tile (0.5,1) or a name like bottom-center
+      --skip-empty         Skip fully transparent tiles
+      --color-key <hex>    Treat this background color as transparent
+      --dedupe             Export identical tiles once and map the copies in meta.json
+      --dedupe-transforms  Also match flipped and rotated copies (implies --dedupe)
+      --dedupe-tolerance <n>  Largest per-channel difference still counted as identical (implies --dedupe)
+      --naming <pattern>   row_col, index, custom or template
+      --prefix <text>      Prefix for the custom naming pattern
+      --template <text>    Filename template, e.g. "{basename}_{index:03}"
+      --scale <list>       Tile scales, e.g. 1,2,4 or 0.5,1; several go to tiles/@<n>x/
+      --scale-filter <f>   Upscale filter: nearest, scale2x or hqx
+      --atlas <format>     none, json-hash, json-array or both
+      --contact-sheet      Include a contact sheet
+      --tileset <formats>  Level editor tilesets: tsx, tsj and/or ldtk, comma-separated
+      --map                Level map of unique tiles as CSV, JSON and Tiled .tmx (implies --dedupe)
+      --target <ids>       Engine and web targets: godot, unity and/or css, comma-separated
+  -o, --out <dir|zip>      Output directory, or a .zip file (default: sprites_out.zip)
+  -h, --help               Show this help
+
+Exits with 1 when a sheet fails validation or tiles fail to export, and 2 on usage errors.`;
+
+const SUPPORTED_FORMATS: Record<string, ImageFormat> = {
+  png: 'png',
+  webp: 'webp',
+  gif: 'gif',
+  bmp: 'bmp',
+  jpg: 'jpeg',
+  jpeg: 'jpeg'
+};
+
+class UsageError extends Error {}
+
+interface ConfigFile {
+  name?: string;
+  tile?: Record<string, unknown>;
+  settings?: Record<string, unknown>;
+  export?: Record<string, unknown>;
+  presets?: ConfigFile[];
+}
+
+interface Sheet {
+  path: string;
+  image: SheetSource;
+  metadata: ImageMetadata;
+}
+
+class SpriteSlicerCli {
+  private gridCalculator = new GridCalculator();
+  private islandDetector = new IslandDetector();
+  private colorKeyer = new ColorKeyer();
+  private slicer = new SpriteSlicer();
+  private zipExporter = new ZipExporter();
+  private filenameGenerator = new FilenameGenerator();
+  private tilesetBuilder = new TilesetBuilder();
+  private tilemapBuilder = new TilemapBuilder();
+  private tileScaler = new TileScaler();
+  private library = new SpriteSheetSlicer();
+
+  async run(args: string[]): Promise<number> {
+    try {
+      return await this.slice(args);
+    } catch (error) {
+      console.error(`sprite-slicer: ${(error as Error).message}`);
+      if (error instanceof UsageError) {
+        console.error('Run sprite-slicer --help for usage');
+        return 2;
+      }
+      return 1;
+    }
+  }
+
+  private async slice(args: string[]): Promise<number> {
+    const { values, positionals } = this.parse(args);
+    if (values.help) {
+      console.log(USAGE);
+      return 0;
+    }
+
+    const { settings, exportSettings } = await this.resolveSettings(values);
+    const templateErrors = exportSettings.namingPattern === 'template'
+      ? this.filenameGenerator.validateTemplate(exportSettings.filenameTemplate)
+      : [];
+    if (templateErrors.length > 0) throw new UsageError(templateErrors[0]);
+    if (exportSettings.includeTiledTileset || exportSettings.includeTiledJson || exportSettings.includeLdtkTileset) {
+      const tilesetErrors = this.tilesetBuilder.validate(settings, exportSettings.includeLdtkTileset);
+      if (tilesetErrors.length > 0) throw new UsageError(tilesetErrors[0]);
+    }
+    const scaleErrors = this.tileScaler.validate(exportSettings.scales, exportSettings.scaleFilter);
+    if (scaleErrors.length > 0) throw new UsageError(scaleErrors[0]);
+    if (exportSettings.includeTilemap) {
+      const tilemapErrors = this.tilemapBuilder.validate(settings);
+      if (tilemapErrors.length > 0) throw new UsageError(tilemapErrors[0]);
+    }
+
+    if (positionals.length === 0) throw new UsageError('No input files given');
+    const paths = (await glob(positionals, { onlyFiles: true, expandDirectories: false })).sort();
+    const inputs = paths.filter(path => extname(path).slice(1).toLowerCase() in SUPPORTED_FORMATS);
+    if (inputs.length === 0) throw new UsageError(`No supported images match ${positionals.join(' ')}`);
+
+    // Every sheet is validated before anything is written
+    const sheets: Sheet[] = [];
+    let invalid = 0;
+    for (const path of inputs) {
+      const sheet = await this.loadInput(path);
+      const errors = this.gridCalculator.validateSettings(settings, sheet.metadata);
+      if (errors.length > 0) {
+        errors.forEach(error => console.error(`${path}: ${error}`));
+        invalid++;
+      }
+      sheets.push(sheet);
+    }
+    if (invalid > 0) {
+      console.error(`${invalid} of ${sheets.length} sheets failed validation, nothing was written`);
+      return 1;
+    }
+
+    const zip = new JSZip();
+    const usedFolders = new Set<string>();
+    let failedTiles = 0;
+
+    for (const sheet of sheets) {
+      // A single sheet goes to the root of the output, several get a folder each
+      const folder = sheets.length === 1 ? zip : zip.folder(this.getFolderName(sheet, usedFolders))!;
+      const image = settings.colorKeyEnabled
+        ? this.colorKeyer.applyColorKey(sheet.image, settings.colorKey, settings.colorKeyTolerance)
+        : sheet.image;
+
+      const tiles = await this.slicer.sliceSprite(image, settings, this.getTileRects(image, settings, sheet.metadata));
+      const contactSheet = exportSettings.includeContactSheet ? this.slicer.createContactSheet(tiles) : undefined;
+      const report = await this.zipExporter.writeSheet(
+        folder, tiles, settings, exportSettings, sheet.metadata, image, [], contactSheet
+      );
+
+      report.errors.forEach(error => console.error(`${sheet.path}: tile ${error.index} (row ${error.row}, col ${error.col}) failed to ${error.stage}: ${error.message}`));
+      failedTiles += report.errors.length;
+      console.log(`${sheet.path}: ${report.exportedTiles} tiles`);
+    }
+
+    const out = values.out ?? 'sprites_out.zip';
+    await this.writeOutput(zip, out);
+    console.log(`Wrote ${out}`);
+
+    return failedTiles > 0 ? 1 : 0;
+  }
+
+  private parse(args: string[]) {
+    try {
+      return parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+          config: { type: 'string', short: 'c' },
+          preset: { type: 'string', short: 'p' },
+          tile: { type: 'string', short: 't' },
+          margin: { type: 'string' },
+          spacing: { type: 'string' },
+          offset: { type: 'string' },
+          islands: { type: 'boolean' },
+          trim: { type: 'boolean' },
+          padding: { type: 'string' },
+          extrude: { type: 'string' },
+          bleed: { type: 'string' },
+          pivot: { type: 'string' },
+          'skip-empty': { type: 'boolean' },
+          'color-key': { type: 'string' },
+          dedupe: { type: 'boolean' },
+          'dedupe-transforms': { type: 'boolean' },
+          'dedupe-tolerance': { type: 'string' },
+          naming: { type: 'string' },
+          prefix: { type: 'string' },
+          template: { type: 'string' },
+          scale: { type: 'string' },
+          'scale-filter': { type: 'string' },
+          atlas: { type: 'string' },
+          'contact-sheet': { type: 'boolean' },
+          tileset: { type: 'string' },
+          map: { type: 'boolean' },
+          target: { type: 'string' },
+          out: { type: 'string', short: 'o' },
+          help: { type: 'boolean', short: 'h' }
+        }
+      });
+    } catch (error) {
+      throw new UsageError((error as Error).message);
+    }
+  }
+
+  // Defaults, then the config file, then flags
+  private async resolveSettings(values: ReturnType<SpriteSlicerCli['parse']>['values']) {
+    const settings: TileSettings = { ...DEFAULT_TILE_SETTINGS };
+    const exportSettings: ExportSettings = { ...DEFAULT_EXPORT_SETTINGS, pack: { ...DEFAULT_EXPORT_SETTINGS.pack } };
+
+    if (values.config) {
+      const config = this.selectPreset(await this.readConfig(values.config), values.preset);
+      Object.assign(settings, pickKnownSettings(config.tile ?? config.settings ?? {}, settings));
+      const exportConfig = pickKnownSettings(config.export ?? {}, exportSettings);
+      Object.assign(exportSettings, exportConfig, { pack: { ...exportSettings.pack, ...exportConfig.pack } });
+    }
+
+    if (values.tile) {
+      const match = values.tile.match(/^(\d+)(?:x(\d+))?$/i);
+      if (!match) throw new UsageError(`Invalid tile size "${values.tile}", expected WxH`);
+      settings.tileWidth = parseInt(match[1]);
+      settings.tileHeight = parseInt(match[2] ?? match[1]);
+    }
+    if (values.margin !== undefined) settings.margin = this.parseNumber('margin', values.margin);
+    if (values.spacing !== undefined) settings.spacing = this.parseNumber('spacing', values.spacing);
+    if (values.offset !== undefined) {
+      const [x, y = x] = values.offset.split(',');
+      settings.offsetX = this.parseNumber('offset', x);
+      settings.offsetY = this.parseNumber('offset', y);
+    }
+    if (values.islands) settings.sliceMode = 'islands';
+    if (values.trim) settings.trimTransparent = true;
+    if (values.padding !== undefined) settings.preservePadding = this.parseNumber('padding', values.padding);
+    if (values.extrude !== undefined && values.bleed !== undefined) {
+      throw new UsageError('--extrude and --bleed cannot be combined');
+    }
+    if (values.extrude !== undefined) {
+      settings.edgeMode = 'extrude';
+      settings.edgeSize = this.parseNumber('extrude', values.extrude);
+    }
+    if (values.bleed !== undefined) {
+      settings.edgeMode = 'bleed';
+      settings.edgeSize = this.parseNumber('bleed', values.bleed);
+    }
+    if (values.pivot !== undefined) {
+      const pivot = this.parsePivot(values.pivot);
+      settings.pivotX = pivot.x;
+      settings.pivotY = pivot.y;
+    }
+    if (values['color-key']) {
+      if (!/^#?[0-9a-f]{3}([0-9a-f]{3})?$/i.test(values['color-key'])) {
+        throw new UsageError(`Invalid color "${values['color-key']}"`);
+      }
+      settings.colorKeyEnabled = true;
+      settings.colorKey = values['color-key'].startsWith('#') ? values['color-key'] : `#${values['color-key']}`;
+    }
+
+    if (values.dedupe || values.map) settings.dedupe = true;
+    if (values['dedupe-transforms']) {
+      settings.dedupe = true;
+      settings.dedupeTransforms = true;
+    }
+    if (values['dedupe-tolerance'] !== undefined) {
+      settings.dedupe = true;
+      settings.dedupeTolerance = this.parseNumber('dedupe-tolerance', values['dedupe-tolerance']);
+    }
+
+    if (values['skip-empty']) exportSettings.skipTransparent = true;
+    if (values['contact-sheet']) exportSettings.includeContactSheet = true;
+    if (values.map) exportSettings.includeTilemap = true;
+    if (values.prefix !== undefined) {
+      exportSettings.customPrefix = values.prefix;
+      exportSettings.namingPattern = 'custom';
+    }
+    if (values.template !== undefined) {
+      exportSettings.filenameTemplate = values.template;
+      exportSettings.namingPattern = 'template';
+    }
+    if (values.naming !== undefined) {
+      exportSettings.namingPattern = this.parseChoice('naming', values.naming, ['row_col', 'index', 'custom', 'template']);
+    }
+    if (values.scale !== undefined) {
+      exportSettings.scales = [...new Set(values.scale.split(',').map(scale => this.parseScale(scale.trim())))];
+    }
+    if (values['scale-filter'] !== undefined) {
+      exportSettings.scaleFilter = this.parseChoice('scale-filter', values['scale-filter'], ['nearest', 'scale2x', 'hqx']);
+    }
+    if (values.atlas !== undefined) {
+      exportSettings.atlasFormat = this.parseChoice('atlas', values.atlas, ['none', 'json-hash', 'json-array', 'both']);
+    }
+    if (values.tileset !== undefined) {
+      const formats = values.tileset.split(',').map(format => this.parseChoice('tileset', format.trim(), ['tsx', 'tsj', 'ldtk']));
+      exportSettings.includeTiledTileset = formats.includes('tsx');
+      exportSettings.includeTiledJson = formats.includes('tsj');
+      exportSettings.includeLdtkTileset = formats.includes('ldtk');
+    }
+    if (values.target !== undefined) {
+      const ids = getExportTargets().map(target => target.id);
+      exportSettings.targets = [...new Set(values.target.split(',').map(id => this.parseChoice('target', id.trim(), ids)))];
+    }
+
+    return { settings, exportSettings };
+  }
+
+  private async readConfig(path: string): Promise<ConfigFile> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch (error) {
+      throw new UsageError(`Could not read config ${path}: ${(error as Error).message}`);
+    }
+  }
+
+  // Presets files hold a list; meta.json and single presets are used as they are
+  private selectPreset(config: ConfigFile, name?: string): ConfigFile {
+    if (!Array.isArray(config.presets)) {
+      if (name) throw new UsageError('--preset needs a presets file');
+      return config;
+    }
+
+    const preset = name ? config.presets.find(preset => preset.name === name) : config.presets[0];
+    if (!preset) {
+      throw new UsageError(name ? `No preset named "${name}"` : 'Presets file is empty');
+    }
+    return preset;
+  }
+
+  private parseNumber(name: string, value: string): number {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      throw new UsageError(`--${name} must be a whole number, got "${value}"`);
+    }
+    return number;
+  }
+
+  // Accepts 2, 2x and @2x
+  private parseScale(value: string): number {
+    const scale = Number(value.replace(/^@/, '').replace(/x$/i, ''));
+    if (!Number.isFinite(scale) || scale <= 0) {
+      throw new UsageError(`--scale must list positive numbers, got "${value}"`);
+    }
+    return scale;
+  }
+
+  // Accepts x,y fractions or one of the named anchors
+  private parsePivot(value: string): Pivot {
+    if (Object.hasOwn(PIVOT_ANCHORS, value)) return PIVOT_ANCHORS[value];
+    const [x, y] = value.split(',').map(Number);
+    if (!(x >= 0 && x <= 1 && y >= 0 && y <= 1)) {
+      throw new UsageError(`--pivot must be x,y between 0 and 1 or one of ${Object.keys(PIVOT_ANCHORS).join(', ')}, got "${value}"`);
+    }
+    return { x, y };
+  }
+
+  private parseChoice<T extends string>(name: string, value: string, choices: T[]): T {
+    if (!choices.includes(value as T)) {
+      throw new UsageError(`--${name} must be one of ${choices.join(', ')}, got "${value}"`);
+    }
+    return value as T;
+  }
+
+  private async loadInput(path: string): Promise<Sheet> {
+    const image = await loadSheet(await readFile(path));
+    const extension = extname(path);
+    return {
+      path,
+      image,
+      metadata: this.library.describe(image, basename(path, extension), SUPPORTED_FORMATS[extension.slice(1).toLowerCase()])
+    };
+  }
+
+  private getTileRects(image: SheetSource, settings: TileSettings, metadata: ImageMetadata): TileRect[] {
+    if (settings.sliceMode === 'islands') {
+      return this.islandDetector.detectIslands(image, settings);
+    }
+    return this.gridCalculator.getTileRects(settings, this.gridCalculator.calculateGrid(settings, metadata));
+  }
+
+  private getFolderName(sheet: Sheet, usedFolders: Set<string>): string {
+    const baseName = sheet.metadata.name.trim().replace(/[^\w-]+/g, '_') || 'sheet';
+    let folder = baseName;
+    for (let n = 2; usedFolders.has(folder); n++) {
+      folder = `${baseName}_${n}`;
+    }
+    usedFolders.add(folder);
+    return folder;
+  }
+
+  private async writeOutput(zip: JSZip, out: string) {
+    if (out.toLowerCase().endsWith('.zip')) {
+      await mkdir(dirname(out), { recursive: true });
+      await writeFile(out, await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }));
+      return;
+    }
+
+    const files: JSZip.JSZipObject[] = [];
+    zip.forEach((_, file) => {
+      if (!file.dir) files.push(file);
+    });
+    for (const file of files) {
+      const target = join(out, file.name);
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, await file.async('uint8array'));
+    }
+  }
+}
+
+setCanvasBackend(nodeCanvasBackend);
+process.exitCode = await new SpriteSlicerCli().run(process.argv.slice(2));
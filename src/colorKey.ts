@@ -0,0 +1,47 @@
+import type { SheetSource } from './types';
+import { createCanvas } from './canvas';
+
+export class ColorKeyer {
+  applyColorKey(image: SheetSource, color: string, tolerance: number): HTMLCanvasElement {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, 0, 0);
+
+    const imageData = ctx.getImageData(0, 0, image.width, image.height);
+    this.keyImageData(imageData, color, tolerance);
+    ctx.putImageData(imageData, 0, 0);
+
+    return canvas;
+  }
+
+  // Makes every pixel within `tolerance` of the key color (per channel) fully transparent
+  keyImageData(imageData: ImageData, color: string, tolerance: number) {
+    const [keyR, keyG, keyB] = this.parseColor(color);
+    const data = imageData.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+      if (
+        Math.abs(data[i] - keyR) <= tolerance &&
+        Math.abs(data[i + 1] - keyG) <= tolerance &&
+        Math.abs(data[i + 2] - keyB) <= tolerance
+      ) {
+        data[i + 3] = 0;
+      }
+    }
+  }
+
+  pickColor(image: SheetSource, x: number, y: number): string {
+    const canvas = createCanvas(1, 1);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, x, y, 1, 1, 0, 0, 1, 1);
+
+    const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+    return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  parseColor(color: string): [number, number, number] {
+    const hex = color.replace('#', '');
+    const value = parseInt(hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex, 16) || 0;
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+  }
+}
@@ -0,0 +1,511 @@
+// Decoders for multi-frame formats the browser can't split into frames on its own
+
+export interface DecodedFrame {
+  data: Uint8ClampedArray;
+  duration: number;
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  colorDepth: number;
+  frames: DecodedFrame[];
+}
+
+export interface AsepriteLayer {
+  name: string;
+  frames: Uint8ClampedArray[];
+}
+
+export interface AsepriteTag {
+  name: string;
+  from: number;
+  to: number;
+}
+
+export interface DecodedAseprite {
+  width: number;
+  height: number;
+  colorDepth: number;
+  frames: DecodedFrame[];
+  layers: AsepriteLayer[];
+  tags: AsepriteTag[];
+}
+
+interface AsepriteCel {
+  layer: number;
+  x: number;
+  y: number;
+  opacity: number;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+interface AsepriteLayerInfo {
+  name: string;
+  visible: boolean;
+  opacity: number;
+  isImage: boolean;
+  childLevel: number;
+}
+
+class ByteReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  byte(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  uint16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  int16(): number {
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  bytesAt(length: number): Uint8Array {
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  string(): string {
+    const length = this.uint16();
+    return new TextDecoder().decode(this.bytesAt(length));
+  }
+
+  skip(length: number) {
+    this.offset += length;
+  }
+}
+
+export class GifDecoder {
+  decode(bytes: Uint8Array): DecodedGif {
+    const reader = new ByteReader(bytes);
+    const signature = new TextDecoder().decode(reader.bytesAt(6));
+    if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+      throw new Error('Not a GIF file');
+    }
+
+    const width = reader.uint16();
+    const height = reader.uint16();
+    const packed = reader.byte();
+    reader.skip(2); // background color, aspect ratio
+
+    const colorDepth = (packed & 0x07) + 1;
+    const globalPalette = packed & 0x80 ? reader.bytesAt(3 * (1 << colorDepth)) : null;
+
+    const frames: DecodedFrame[] = [];
+    const canvas = new Uint8ClampedArray(width * height * 4);
+    let delay = 100;
+    let transparentIndex = -1;
+    let disposal = 0;
+
+    while (reader.offset < reader.length) {
+      const block = reader.byte();
+
+      if (block === 0x3b) break;
+
+      if (block === 0x21) {
+        const label = reader.byte();
+        if (label === 0xf9) {
+          reader.skip(1); // block size
+          const flags = reader.byte();
+          delay = reader.uint16() * 10 || 100;
+          const index = reader.byte();
+          reader.skip(1);
+          disposal = (flags >> 2) & 0x07;
+          transparentIndex = flags & 0x01 ? index : -1;
+        } else {
+          this.skipSubBlocks(reader);
+        }
+        continue;
+      }
+
+      if (block !== 0x2c) {
+        throw new Error('Corrupted GIF file');
+      }
+
+      const left = reader.uint16();
+      const top = reader.uint16();
+      const frameWidth = reader.uint16();
+      const frameHeight = reader.uint16();
+      const imageFlags = reader.byte();
+      const palette = imageFlags & 0x80
+        ? reader.bytesAt(3 * (1 << ((imageFlags & 0x07) + 1)))
+        : globalPalette;
+      if (!palette) throw new Error('GIF frame has no color table');
+
+      const minCodeSize = reader.byte();
+      const indices = this.lzwDecode(this.readSubBlocks(reader), minCodeSize, frameWidth * frameHeight);
+      const rows = imageFlags & 0x40 ? this.interlacedRows(frameHeight) : null;
+      const previous = disposal === 3 ? canvas.slice() : null;
+
+      for (let y = 0; y < frameHeight; y++) {
+        const targetY = top + (rows ? rows[y] : y);
+        if (targetY >= height) continue;
+        for (let x = 0; x < frameWidth; x++) {
+          const targetX = left + x;
+          const index = indices[y * frameWidth + x];
+          if (targetX >= width || index === transparentIndex) continue;
+
+          const offset = (targetY * width + targetX) * 4;
+          canvas[offset] = palette[index * 3];
+          canvas[offset + 1] = palette[index * 3 + 1];
+          canvas[offset + 2] = palette[index * 3 + 2];
+          canvas[offset + 3] = 255;
+        }
+      }
+
+      frames.push({ data: canvas.slice(), duration: delay });
+
+      // Apply this frame's disposal before the next one is drawn
+      if (disposal === 2) {
+        for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+          canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + frameWidth)) * 4);
+        }
+      } else if (previous) {
+        canvas.set(previous);
+      }
+
+      delay = 100;
+      transparentIndex = -1;
+      disposal = 0;
+    }
+
+    if (frames.length === 0) throw new Error('GIF file contains no frames');
+
+    return { width, height, colorDepth, frames };
+  }
+
+  private skipSubBlocks(reader: ByteReader) {
+    let size = reader.byte();
+    while (size > 0) {
+      reader.skip(size);
+      size = reader.byte();
+    }
+  }
+
+  private readSubBlocks(reader: ByteReader): Uint8Array {
+    const blocks: Uint8Array[] = [];
+    let total = 0;
+    let size = reader.byte();
+    while (size > 0) {
+      blocks.push(reader.bytesAt(size));
+      total += size;
+      size = reader.byte();
+    }
+
+    const data = new Uint8Array(total);
+    let offset = 0;
+    for (const block of blocks) {
+      data.set(block, offset);
+      offset += block.length;
+    }
+    return data;
+  }
+
+  private interlacedRows(height: number): number[] {
+    const rows: number[] = [];
+    for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+      for (let y = start; y < height; y += step) rows.push(y);
+    }
+    return rows;
+  }
+
+  private lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+    const output = new Uint8Array(pixelCount);
+    const prefix = new Int16Array(4096);
+    const suffix = new Uint8Array(4096);
+    const stack = new Uint8Array(4097);
+
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let available = clearCode + 2;
+    let oldCode = -1;
+    let first = 0;
+    let outPos = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let dataPos = 0;
+
+    for (let i = 0; i < clearCode; i++) suffix[i] = i;
+
+    while (outPos < pixelCount) {
+      while (bitCount < codeSize && dataPos < data.length) {
+        bitBuffer |= data[dataPos++] << bitCount;
+        bitCount += 8;
+      }
+      if (bitCount < codeSize) break;
+
+      let code = bitBuffer & ((1 << codeSize) - 1);
+      bitBuffer >>= codeSize;
+      bitCount -= codeSize;
+
+      if (code === clearCode) {
+        codeSize = minCodeSize + 1;
+        available = clearCode + 2;
+        oldCode = -1;
+        continue;
+      }
+      if (code === endCode) break;
+
+      if (oldCode === -1) {
+        output[outPos++] = suffix[code];
+        oldCode = code;
+        first = suffix[code];
+        continue;
+      }
+
+      const inCode = code;
+      let top = 0;
+      if (code >= available) {
+        stack[top++] = first;
+        code = oldCode;
+      }
+      while (code >= clearCode) {
+        stack[top++] = suffix[code];
+        code = prefix[code];
+      }
+      first = suffix[code];
+      stack[top++] = first;
+
+      if (available < 4096) {
+        prefix[available] = oldCode;
+        suffix[available] = first;
+        available++;
+        if (available === (1 << codeSize) && codeSize < 12) codeSize++;
+      }
+      oldCode = inCode;
+
+      while (top > 0 && outPos < pixelCount) {
+        output[outPos++] = stack[--top];
+      }
+    }
+
+    return output;
+  }
+}
+
+export class AsepriteDecoder {
+  async decode(bytes: Uint8Array): Promise<DecodedAseprite> {
+    const reader = new ByteReader(bytes);
+    reader.skip(4); // file size
+    if (reader.uint16() !== 0xa5e0) throw new Error('Not an Aseprite file');
+
+    const frameCount = reader.uint16();
+    const width = reader.uint16();
+    const height = reader.uint16();
+    const colorDepth = reader.uint16();
+    reader.skip(14); // flags, speed, reserved
+    const transparentIndex = reader.byte();
+    reader.offset = 128;
+
+    const layerInfo: AsepriteLayerInfo[] = [];
+    const tags: AsepriteTag[] = [];
+    const palette = new Uint8Array(256 * 4);
+    const frameCels: AsepriteCel[][] = [];
+    const durations: number[] = [];
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const frameStart = reader.offset;
+      const frameSize = reader.uint32();
+      if (reader.uint16() !== 0xf1fa) throw new Error('Corrupted Aseprite frame');
+      const oldChunkCount = reader.uint16();
+      durations.push(reader.uint16());
+      reader.skip(2);
+      const newChunkCount = reader.uint32();
+      const chunkCount = newChunkCount || oldChunkCount;
+      const cels: AsepriteCel[] = [];
+
+      for (let c = 0; c < chunkCount; c++) {
+        const chunkStart = reader.offset;
+        const chunkSize = reader.uint32();
+        const chunkType = reader.uint16();
+
+        switch (chunkType) {
+          case 0x2004: { // layer
+            const flags = reader.uint16();
+            const type = reader.uint16();
+            const childLevel = reader.uint16();
+            reader.skip(6); // default size, blend mode
+            const opacity = reader.byte();
+            reader.skip(3);
+            const name = reader.string();
+            layerInfo.push({ name, visible: (flags & 1) === 1, opacity, isImage: type === 0, childLevel });
+            break;
+          }
+          case 0x2005: { // cel
+            const layer = reader.uint16();
+            const x = reader.int16();
+            const y = reader.int16();
+            const opacity = reader.byte();
+            const celType = reader.uint16();
+            reader.skip(7); // z-index, reserved
+
+            if (celType === 1) {
+              // Linked cel reuses the pixels of an earlier frame
+              const linkedFrame = reader.uint16();
+              const linked = frameCels[linkedFrame]?.find(cel => cel.layer === layer);
+              if (linked) cels.push({ ...linked, opacity });
+            } else if (celType === 0 || celType === 2) {
+              const celWidth = reader.uint16();
+              const celHeight = reader.uint16();
+              let raw = reader.bytesAt(chunkStart + chunkSize - reader.offset);
+              if (celType === 2) raw = await this.inflate(raw);
+              const pixels = this.toRgba(raw, celWidth * celHeight, colorDepth, palette, transparentIndex);
+              cels.push({ layer, x, y, opacity, width: celWidth, height: celHeight, pixels });
+            }
+            break;
+          }
+          case 0x2018: { // tags
+            const count = reader.uint16();
+            reader.skip(8);
+            for (let t = 0; t < count; t++) {
+              const from = reader.uint16();
+              const to = reader.uint16();
+              reader.skip(13); // direction, repeat, reserved, color
+              tags.push({ name: reader.string(), from, to });
+            }
+            break;
+          }
+          case 0x2019: { // palette
+            reader.skip(4);
+            const first = reader.uint32();
+            const last = reader.uint32();
+            reader.skip(8);
+            for (let i = first; i <= last; i++) {
+              const entryFlags = reader.uint16();
+              const rgba = reader.bytesAt(4);
+              if (i < 256) palette.set(rgba, i * 4);
+              if (entryFlags & 1) reader.string();
+            }
+            break;
+          }
+        }
+
+        reader.offset = chunkStart + chunkSize;
+      }
+
+      frameCels.push(cels);
+      reader.offset = frameStart + frameSize;
+    }
+
+    // A layer is only shown when it and every parent group are visible
+    const visible: boolean[] = [];
+    const parents: number[] = [];
+    layerInfo.forEach((layer, i) => {
+      parents[layer.childLevel] = i;
+      const parent = layer.childLevel > 0 ? parents[layer.childLevel - 1] : -1;
+      visible[i] = layer.visible && (parent === -1 || visible[parent]);
+    });
+
+    const layers: AsepriteLayer[] = layerInfo
+      .map((layer, i) => ({ layer, i }))
+      .filter(({ layer, i }) => layer.isImage && visible[i])
+      .map(({ layer, i }) => ({
+        name: layer.name,
+        frames: frameCels.map(cels => this.composite(
+          cels.filter(cel => cel.layer === i), layerInfo, width, height
+        ))
+      }));
+
+    const frames: DecodedFrame[] = frameCels.map((cels, frame) => ({
+      data: this.composite(cels.filter(cel => visible[cel.layer] && layerInfo[cel.layer]?.isImage), layerInfo, width, height),
+      duration: durations[frame] || 100
+    }));
+
+    return { width, height, colorDepth, frames, layers, tags };
+  }
+
+  private toRgba(raw: Uint8Array, pixelCount: number, colorDepth: number, palette: Uint8Array, transparentIndex: number): Uint8ClampedArray {
+    const pixels = new Uint8ClampedArray(pixelCount * 4);
+
+    for (let i = 0; i < pixelCount; i++) {
+      if (colorDepth === 32) {
+        pixels.set(raw.subarray(i * 4, i * 4 + 4), i * 4);
+      } else if (colorDepth === 16) {
+        const value = raw[i * 2];
+        pixels[i * 4] = value;
+        pixels[i * 4 + 1] = value;
+        pixels[i * 4 + 2] = value;
+        pixels[i * 4 + 3] = raw[i * 2 + 1];
+      } else {
+        const index = raw[i];
+        if (index !== transparentIndex) {
+          pixels.set(palette.subarray(index * 4, index * 4 + 4), i * 4);
+        }
+      }
+    }
+
+    return pixels;
+  }
+
+  private composite(
+    cels: AsepriteCel[],
+    layerInfo: AsepriteLayerInfo[],
+    width: number,
+    height: number
+  ): Uint8ClampedArray {
+    const output = new Uint8ClampedArray(width * height * 4);
+    const ordered = cels.slice().sort((a, b) => a.layer - b.layer);
+
+    for (const cel of ordered) {
+      const opacity = (cel.opacity / 255) * ((layerInfo[cel.layer]?.opacity ?? 255) / 255);
+
+      for (let y = 0; y < cel.height; y++) {
+        const targetY = cel.y + y;
+        if (targetY < 0 || targetY >= height) continue;
+        for (let x = 0; x < cel.width; x++) {
+          const targetX = cel.x + x;
+          if (targetX < 0 || targetX >= width) continue;
+
+          const src = (y * cel.width + x) * 4;
+          const dst = (targetY * width + targetX) * 4;
+          const srcAlpha = (cel.pixels[src + 3] / 255) * opacity;
+          if (srcAlpha === 0) continue;
+
+          // Normal blend mode ("source over")
+          const dstAlpha = output[dst + 3] / 255;
+          const outAlpha = srcAlpha + dstAlpha * (1 - srcAlpha);
+          for (let channel = 0; channel < 3; channel++) {
+            output[dst + channel] = (cel.pixels[src + channel] * srcAlpha
+              + output[dst + channel] * dstAlpha * (1 - srcAlpha)) / outAlpha;
+          }
+          output[dst + 3] = outAlpha * 255;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private async inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+}
@@ -0,0 +1,134 @@
+import type { SheetSource, TileData, TileRect, TileReuse, TileSettings, TileTransform } from './types';
+import { createCanvas } from './canvas';
+
+interface TilePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+interface Variant extends TilePixels {
+  index: number;
+  transform: TileTransform;
+  group: string;
+}
+
+const ALL_TRANSFORMS: TileTransform[] = ['none', 'flip-x', 'flip-y', 'rotate-180', 'rotate-90', 'rotate-270', 'transpose', 'transverse'];
+
+export class TileDeduplicator {
+  // Tiles only match tiles with the same annotations, so a duplicate never drops a name, tag, pivot or hitbox of its own
+  getGroupKey(tile: Pick<TileData, 'name' | 'tags' | 'pivot' | 'hitboxes'>): string {
+    return JSON.stringify([tile.name, tile.tags, tile.pivot, tile.hitboxes]);
+  }
+
+  // Maps every duplicate tile index to the first tile it matches and the transform that turns that tile into it.
+  // `groups` holds each tile's group key; tiles only match within their group
+  findDuplicates(image: SheetSource, rects: TileRect[], settings: TileSettings, groups?: Map<number, string>): Map<number, TileReuse> {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, 0, 0);
+    const sheet = ctx.getImageData(0, 0, image.width, image.height);
+
+    const transforms = settings.dedupeTransforms ? ALL_TRANSFORMS : ALL_TRANSFORMS.slice(0, 1);
+    const tolerance = Math.max(0, settings.dedupeTolerance);
+    const duplicates = new Map<number, TileReuse>();
+    // Exact matching looks variants up by hash; with a tolerance every variant of the same size is compared
+    const byHash = new Map<string, Variant[]>();
+    const variants: Variant[] = [];
+
+    for (const rect of rects) {
+      const pixels = this.readRegion(sheet, rect);
+      const group = groups?.get(rect.index) ?? '';
+      const match = tolerance === 0
+        ? byHash.get(group + this.hash(pixels))?.find(variant => this.matches(variant, pixels, 0))
+        : variants.find(variant => variant.group === group && this.matches(variant, pixels, tolerance));
+
+      if (match) {
+        duplicates.set(rect.index, { index: match.index, transform: match.transform });
+        continue;
+      }
+
+      // A new canonical tile: remember how it looks under every allowed transform
+      for (const transform of transforms) {
+        const variant = { ...this.transform(pixels, transform), index: rect.index, transform, group };
+        if (tolerance === 0) {
+          const key = group + this.hash(variant);
+          if (!byHash.has(key)) byHash.set(key, []);
+          byHash.get(key)!.push(variant);
+        } else {
+          variants.push(variant);
+        }
+      }
+    }
+
+    return duplicates;
+  }
+
+  // Fully transparent pixels compare equal whatever their color channels hold
+  private readRegion(sheet: ImageData, rect: TileRect): TilePixels {
+    const left = Math.max(0, rect.x);
+    const top = Math.max(0, rect.y);
+    const width = Math.max(0, Math.min(sheet.width, rect.x + rect.width) - left);
+    const height = Math.max(0, Math.min(sheet.height, rect.y + rect.height) - top);
+    const data = new Uint8ClampedArray(width * height * 4);
+
+    for (let y = 0; y < height; y++) {
+      const start = ((top + y) * sheet.width + left) * 4;
+      data.set(sheet.data.subarray(start, start + width * 4), y * width * 4);
+    }
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] === 0) data[i] = data[i + 1] = data[i + 2] = 0;
+    }
+
+    return { width, height, data };
+  }
+
+  private transform(pixels: TilePixels, transform: TileTransform): TilePixels {
+    if (transform === 'none') return pixels;
+
+    const { width, height, data } = pixels;
+    const swapsAxes = transform === 'rotate-90' || transform === 'rotate-270' || transform === 'transpose' || transform === 'transverse';
+    const outWidth = swapsAxes ? height : width;
+    const outHeight = swapsAxes ? width : height;
+    const out = new Uint8ClampedArray(data.length);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let outX: number;
+        let outY: number;
+        switch (transform) {
+          case 'flip-x': outX = width - 1 - x; outY = y; break;
+          case 'flip-y': outX = x; outY = height - 1 - y; break;
+          case 'rotate-180': outX = width - 1 - x; outY = height - 1 - y; break;
+          // Clockwise
+          case 'rotate-90': outX = height - 1 - y; outY = x; break;
+          case 'rotate-270': outX = y; outY = width - 1 - x; break;
+          case 'transpose': outX = y; outY = x; break;
+          case 'transverse': outX = height - 1 - y; outY = width - 1 - x; break;
+        }
+        const from = (y * width + x) * 4;
+        out.set(data.subarray(from, from + 4), (outY * outWidth + outX) * 4);
+      }
+    }
+
+    return { width: outWidth, height: outHeight, data: out };
+  }
+
+  private matches(a: TilePixels, b: TilePixels, tolerance: number): boolean {
+    if (a.width !== b.width || a.height !== b.height) return false;
+    for (let i = 0; i < a.data.length; i++) {
+      if (Math.abs(a.data[i] - b.data[i]) > tolerance) return false;
+    }
+    return true;
+  }
+
+  // FNV-1a over whole pixels; collisions are ruled out by comparing the data afterwards
+  private hash(pixels: TilePixels): string {
+    const words = new Uint32Array(pixels.data.buffer, pixels.data.byteOffset, pixels.data.length / 4);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < words.length; i++) {
+      hash = Math.imul(hash ^ words[i], 0x01000193);
+    }
+    return `${pixels.width}x${pixels.height}:${(hash >>> 0).toString(16)}`;
+  }
+}
@@ -0,0 +1,52 @@
+import type { ExportSettings, TileSettings } from './types';
+
+// Shared by the browser UI and the CLI so both start from the same settings
+export const DEFAULT_TILE_SETTINGS: TileSettings = {
+  sliceMode: 'grid',
+  tileWidth: 32,
+  tileHeight: 32,
+  margin: 0,
+  spacing: 0,
+  offsetX: 0,
+  offsetY: 0,
+  trimTransparent: false,
+  preservePadding: 0,
+  edgeMode: 'none',
+  edgeSize: 0,
+  alphaThreshold: 0,
+  mergeDistance: 0,
+  colorKeyEnabled: false,
+  colorKey: '#ff00ff',
+  colorKeyTolerance: 0,
+  dedupe: false,
+  dedupeTransforms: false,
+  dedupeTolerance: 0,
+  pivotX: 0.5,
+  pivotY: 0.5
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  namingPattern: 'row_col',
+  customPrefix: '',
+  filenameTemplate: '{prefix}{row}_{col}.png',
+  skipTransparent: false,
+  includeContactSheet: false,
+  includeTiles: true,
+  scales: [1],
+  scaleFilter: 'nearest',
+  atlasFormat: 'none',
+  atlasSource: 'sheet',
+  pack: {
+    algorithm: 'maxrects',
+    maxSize: 2048,
+    powerOfTwo: true,
+    padding: 2,
+    extrude: 0,
+    allowRotation: false
+  },
+  includeTiledTileset: false,
+  includeTiledJson: false,
+  includeLdtkTileset: false,
+  includeTilemap: false,
+  targets: []
+};
@@ -0,0 +1,59 @@
+import type { TileSettings } from './types';
+
+export interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Where bleed reads its border from: the sheet and the tile content's position on it
+export interface BleedSource {
+  sheet: Pixels;
+  x: number;
+  y: number;
+}
+
+// Grows tiles by a border so filtered sampling at their edges doesn't pick up transparent or foreign pixels.
+// Plain pixel math, so the export worker and the main thread produce the same tiles
+export class EdgePadder {
+  getInset(settings: TileSettings): number {
+    return settings.edgeMode === 'none' ? 0 : Math.max(0, settings.edgeSize);
+  }
+
+  // Extrusion repeats the content's own outermost pixels; bleed copies the pixels around it on the sheet
+  // and repeats the sheet's edge where the border runs off it
+  pad(content: Pixels, size: number, bleed?: BleedSource): Pixels {
+    const width = content.width + size * 2;
+    const height = content.height + size * 2;
+    const data = new Uint8ClampedArray(width * height * 4);
+
+    for (let y = 0; y < height; y++) {
+      const contentY = y - size;
+      for (let x = 0; x < width; x++) {
+        const contentX = x - size;
+        let source = content;
+        let sourceX = contentX;
+        let sourceY = contentY;
+
+        const inside = contentX >= 0 && contentX < content.width && contentY >= 0 && contentY < content.height;
+        if (!inside && bleed) {
+          source = bleed.sheet;
+          sourceX = this.clamp(bleed.x + contentX, source.width);
+          sourceY = this.clamp(bleed.y + contentY, source.height);
+        } else if (!inside) {
+          sourceX = this.clamp(contentX, content.width);
+          sourceY = this.clamp(contentY, content.height);
+        }
+
+        const from = (sourceY * source.width + sourceX) * 4;
+        data.set(source.data.subarray(from, from + 4), (y * width + x) * 4);
+      }
+    }
+
+    return { width, height, data };
+  }
+
+  private clamp(value: number, size: number): number {
+    return Math.min(size - 1, Math.max(0, value));
+  }
+}
@@ -0,0 +1,297 @@
+// Minimal animated GIF and APNG encoders working on raw ImageData frames
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  uint16LE(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  uint32BE(value: number) {
+    this.byte(value >>> 24);
+    this.byte(value >>> 16);
+    this.byte(value >>> 8);
+    this.byte(value);
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) {
+      this.byte(value.charCodeAt(i));
+    }
+  }
+
+  array(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) {
+      this.bytes.push(values[i]);
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+export class GifEncoder {
+  encode(frames: ImageData[], durations: number[], loopCount: number = 0): Uint8Array {
+    if (frames.length === 0) throw new Error('Cannot encode a GIF without frames');
+
+    const { width, height } = frames[0];
+    const { palette, indexFrames } = this.buildPalette(frames);
+
+    // Global color table size must be a power of two (at least 4 for LZW)
+    let colorBits = 2;
+    while ((1 << colorBits) < palette.length) colorBits++;
+    const tableSize = 1 << colorBits;
+
+    const out = new ByteWriter();
+    out.string('GIF89a');
+    out.uint16LE(width);
+    out.uint16LE(height);
+    out.byte(0x80 | ((colorBits - 1) << 4) | (colorBits - 1));
+    out.byte(0); // background color index
+    out.byte(0); // pixel aspect ratio
+
+    for (let i = 0; i < tableSize; i++) {
+      const color = palette[i] ?? 0;
+      out.byte(color >> 16);
+      out.byte(color >> 8);
+      out.byte(color);
+    }
+
+    // NETSCAPE2.0 extension controls looping
+    out.array([0x21, 0xff, 0x0b]);
+    out.string('NETSCAPE2.0');
+    out.array([0x03, 0x01]);
+    out.uint16LE(loopCount);
+    out.byte(0);
+
+    indexFrames.forEach((indices, i) => {
+      // Graphic control: restore to background, index 0 is transparent
+      out.array([0x21, 0xf9, 0x04, (2 << 2) | 1]);
+      out.uint16LE(Math.max(2, Math.round((durations[i] ?? 100) / 10)));
+      out.byte(0);
+      out.byte(0);
+
+      out.byte(0x2c);
+      out.uint16LE(0);
+      out.uint16LE(0);
+      out.uint16LE(width);
+      out.uint16LE(height);
+      out.byte(0);
+
+      out.byte(colorBits);
+      const compressed = this.lzwEncode(indices, colorBits);
+      for (let offset = 0; offset < compressed.length; offset += 255) {
+        const block = compressed.subarray(offset, offset + 255);
+        out.byte(block.length);
+        out.array(block);
+      }
+      out.byte(0);
+    });
+
+    out.byte(0x3b);
+    return out.toUint8Array();
+  }
+
+  private buildPalette(frames: ImageData[]): { palette: number[]; indexFrames: Uint8Array[] } {
+    const colors = new Set<number>();
+    for (const frame of frames) {
+      const { data } = frame;
+      for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] >= 128) {
+          colors.add((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+        }
+      }
+    }
+
+    // Pixel art usually fits in 255 colors; otherwise fall back to a 6x7x6 color cube
+    const exact = colors.size <= 255;
+    const quantize = (r: number, g: number, b: number): number => {
+      if (exact) return (r << 16) | (g << 8) | b;
+      const qr = Math.round(r / 255 * 5) * 51;
+      const qg = Math.round(g / 255 * 6) * 42.5;
+      const qb = Math.round(b / 255 * 5) * 51;
+      return (qr << 16) | (Math.round(qg) << 8) | qb;
+    };
+
+    const palette: number[] = [0]; // index 0 is reserved for transparency
+    const lookup = new Map<number, number>();
+    const indexFrames = frames.map(frame => {
+      const { data } = frame;
+      const indices = new Uint8Array(frame.width * frame.height);
+      for (let p = 0; p < indices.length; p++) {
+        const i = p * 4;
+        if (data[i + 3] < 128) continue;
+
+        const color = quantize(data[i], data[i + 1], data[i + 2]);
+        let index = lookup.get(color);
+        if (index === undefined) {
+          index = palette.length;
+          palette.push(color);
+          lookup.set(color, index);
+        }
+        indices[p] = index;
+      }
+      return indices;
+    });
+
+    return { palette, indexFrames };
+  }
+
+  private lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output: number[] = [];
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let dictionary = new Map<number, number>();
+    let buffer = 0;
+    let bufferBits = 0;
+
+    const emit = (code: number) => {
+      buffer |= code << bufferBits;
+      bufferBits += codeSize;
+      while (bufferBits >= 8) {
+        output.push(buffer & 0xff);
+        buffer >>= 8;
+        bufferBits -= 8;
+      }
+    };
+
+    emit(clearCode);
+    if (indices.length === 0) {
+      emit(endCode);
+      if (bufferBits > 0) output.push(buffer & 0xff);
+      return new Uint8Array(output);
+    }
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << 8) | k;
+      const existing = dictionary.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+
+      emit(prefix);
+      if (nextCode === 4096) {
+        emit(clearCode);
+        dictionary = new Map();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        if (nextCode >= (1 << codeSize)) codeSize++;
+        dictionary.set(key, nextCode++);
+      }
+      prefix = k;
+    }
+
+    emit(prefix);
+    emit(endCode);
+    if (bufferBits > 0) output.push(buffer & 0xff);
+
+    return new Uint8Array(output);
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export class ApngEncoder {
+  async encode(frames: ImageData[], durations: number[], loopCount: number = 0): Promise<Uint8Array> {
+    if (frames.length === 0) throw new Error('Cannot encode an APNG without frames');
+
+    const { width, height } = frames[0];
+    const out = new ByteWriter();
+    let sequence = 0;
+
+    out.array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    const header = new ByteWriter();
+    header.uint32BE(width);
+    header.uint32BE(height);
+    header.array([8, 6, 0, 0, 0]); // 8-bit RGBA, no interlace
+    this.writeChunk(out, 'IHDR', header.toUint8Array());
+
+    const animationControl = new ByteWriter();
+    animationControl.uint32BE(frames.length);
+    animationControl.uint32BE(loopCount);
+    this.writeChunk(out, 'acTL', animationControl.toUint8Array());
+
+    for (let i = 0; i < frames.length; i++) {
+      const frameControl = new ByteWriter();
+      frameControl.uint32BE(sequence++);
+      frameControl.uint32BE(width);
+      frameControl.uint32BE(height);
+      frameControl.uint32BE(0);
+      frameControl.uint32BE(0);
+      frameControl.byte(Math.round(durations[i] ?? 100) >> 8);
+      frameControl.byte(Math.round(durations[i] ?? 100));
+      frameControl.byte(1000 >> 8);
+      frameControl.byte(1000 & 0xff);
+      frameControl.byte(1); // dispose to background
+      frameControl.byte(0); // replace previous pixels
+      this.writeChunk(out, 'fcTL', frameControl.toUint8Array());
+
+      const compressed = await this.deflate(this.toScanlines(frames[i]));
+      if (i === 0) {
+        this.writeChunk(out, 'IDAT', compressed);
+      } else {
+        const frameData = new ByteWriter();
+        frameData.uint32BE(sequence++);
+        frameData.array(compressed);
+        this.writeChunk(out, 'fdAT', frameData.toUint8Array());
+      }
+    }
+
+    this.writeChunk(out, 'IEND', new Uint8Array(0));
+    return out.toUint8Array();
+  }
+
+  private toScanlines(frame: ImageData): Uint8Array {
+    const rowLength = frame.width * 4;
+    const scanlines = new Uint8Array((rowLength + 1) * frame.height);
+    for (let y = 0; y < frame.height; y++) {
+      // Each row starts with filter type 0 (none)
+      scanlines.set(frame.data.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+    }
+    return scanlines;
+  }
+
+  private async deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  private writeChunk(out: ByteWriter, type: string, data: Uint8Array) {
+    out.uint32BE(data.length);
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < 4; i++) {
+      crc = CRC_TABLE[(crc ^ type.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+    }
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+
+    out.string(type);
+    out.array(data);
+    out.uint32BE((crc ^ 0xffffffff) >>> 0);
+  }
+}
@@ -0,0 +1,180 @@
+import JSZip from 'jszip';
+import { EdgePadder, type BleedSource } from './edges';
+import type { Rect, TileSettings, TileRect, WorkerJob, WorkerRequest, WorkerResponse, WorkerResult, WorkerTile } from './types';
+
+// Runs the CPU-heavy export steps off the main thread: tile slicing, trimming, PNG and ZIP encoding
+class ExportWorker {
+  private edgePadder = new EdgePadder();
+
+  async run(id: number, job: WorkerJob) {
+    try {
+      await this.runJob(id, job);
+    } catch (error) {
+      this.post(id, { type: 'error', message: (error as Error).message });
+    }
+  }
+
+  private post(id: number, result: WorkerResult, transfer: Transferable[] = []) {
+    const response: WorkerResponse = { id, result };
+    self.postMessage(response, { transfer });
+  }
+
+  private async runJob(id: number, job: WorkerJob) {
+    switch (job.type) {
+      case 'slice': {
+        const tiles = await this.sliceTiles(id, job.bitmap, job.originX, job.originY, job.settings, job.rects);
+        const transfer = tiles.flatMap(tile => tile.bitmap && tile.png ? [tile.bitmap, tile.png.buffer as ArrayBuffer] : []);
+        this.post(id, { type: 'sliced', tiles }, transfer);
+        break;
+      }
+      case 'zip': {
+        const zip = new JSZip();
+        for (const entry of job.entries) {
+          zip.file(entry.path, entry.data);
+        }
+        const data = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+        this.post(id, { type: 'zipped', data }, [data.buffer as ArrayBuffer]);
+        break;
+      }
+    }
+  }
+
+  private async sliceTiles(
+    id: number,
+    bitmap: ImageBitmap,
+    originX: number,
+    originY: number,
+    settings: TileSettings,
+    rects: TileRect[]
+  ): Promise<WorkerTile[]> {
+    // Read the whole crop once instead of calling getImageData per tile
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const sheet = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    const tiles: WorkerTile[] = [];
+    for (let i = 0; i < rects.length; i++) {
+      const rect = rects[i];
+
+      // One broken tile is reported instead of failing the whole chunk
+      try {
+        const x = rect.x - originX;
+        const y = rect.y - originY;
+        const pixels = this.copyRegion(sheet, x, y, rect.width, rect.height);
+        tiles.push(await this.encodeTile(pixels, rect.width, rect.height, settings, { sheet, x, y }));
+      } catch (error) {
+        tiles.push({
+          isEmpty: true,
+          trimRect: { x: 0, y: 0, width: 1, height: 1 },
+          bitmap: null,
+          png: null,
+          error: (error as Error).message
+        });
+      }
+
+      if ((i + 1) % 10 === 0 || i === rects.length - 1) {
+        this.post(id, { type: 'progress', done: i + 1 });
+      }
+    }
+
+    return tiles;
+  }
+
+  // Pixels outside the sheet stay transparent, like drawImage would leave them
+  private copyRegion(sheet: ImageData, x: number, y: number, width: number, height: number): Uint8ClampedArray {
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    const left = Math.max(0, x);
+    const right = Math.min(sheet.width, x + width);
+    if (right <= left) return pixels;
+
+    for (let row = Math.max(0, y); row < Math.min(sheet.height, y + height); row++) {
+      const source = (row * sheet.width + left) * 4;
+      pixels.set(sheet.data.subarray(source, source + (right - left) * 4), ((row - y) * width + left - x) * 4);
+    }
+    return pixels;
+  }
+
+  // `tile` locates the tile on the crop, for bleeding in its neighbours
+  private async encodeTile(
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    settings: TileSettings,
+    tile: BleedSource
+  ): Promise<WorkerTile> {
+    const bounds = this.findOpaqueBounds(pixels, width, height);
+    let trimRect: Rect = { x: 0, y: 0, width, height };
+    let output = pixels;
+
+    if (settings.trimTransparent) {
+      if (!bounds) {
+        trimRect = { x: 0, y: 0, width: 1, height: 1 };
+        return { isEmpty: true, trimRect, ...await this.toPaddedImage(new Uint8ClampedArray(4), trimRect, settings, tile) };
+      }
+
+      const padding = settings.preservePadding;
+      const minX = Math.max(0, bounds.x - padding);
+      const minY = Math.max(0, bounds.y - padding);
+      const maxX = Math.min(width, bounds.x + bounds.width + padding);
+      const maxY = Math.min(height, bounds.y + bounds.height + padding);
+      trimRect = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+
+      output = new Uint8ClampedArray(trimRect.width * trimRect.height * 4);
+      for (let row = 0; row < trimRect.height; row++) {
+        const source = ((minY + row) * width + minX) * 4;
+        output.set(pixels.subarray(source, source + trimRect.width * 4), row * trimRect.width * 4);
+      }
+    }
+
+    return { isEmpty: !bounds, trimRect, ...await this.toPaddedImage(output, trimRect, settings, tile) };
+  }
+
+  private async toPaddedImage(pixels: Uint8ClampedArray, trimRect: Rect, settings: TileSettings, tile: BleedSource) {
+    const inset = this.edgePadder.getInset(settings);
+    if (inset === 0) return this.toImage(pixels, trimRect.width, trimRect.height);
+
+    const bleed = settings.edgeMode === 'bleed'
+      ? { sheet: tile.sheet, x: tile.x + trimRect.x, y: tile.y + trimRect.y }
+      : undefined;
+    const padded = this.edgePadder.pad({ width: trimRect.width, height: trimRect.height, data: pixels }, inset, bleed);
+    return this.toImage(padded.data, padded.width, padded.height);
+  }
+
+  private findOpaqueBounds(pixels: Uint8ClampedArray, width: number, height: number): Rect | null {
+    let minX = width;
+    let minY = height;
+    let maxX = -1;
+    let maxY = -1;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (pixels[(y * width + x) * 4 + 3] > 0) {
+          if (x < minX) minX = x;
+          if (x > maxX) maxX = x;
+          if (y < minY) minY = y;
+          if (y > maxY) maxY = y;
+        }
+      }
+    }
+
+    return maxX === -1 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  }
+
+  private async toImage(pixels: Uint8ClampedArray, width: number, height: number): Promise<{ bitmap: ImageBitmap; png: Uint8Array }> {
+    const canvas = new OffscreenCanvas(width, height);
+    canvas.getContext('2d')!.putImageData(new ImageData(pixels as Uint8ClampedArray<ArrayBuffer>, width, height), 0, 0);
+
+    // Encode before transferring: transferToImageBitmap leaves the canvas blank
+    const blob = await canvas.convertToBlob({ type: 'image/png' });
+    const png = new Uint8Array(await blob.arrayBuffer());
+    return { bitmap: canvas.transferToImageBitmap(), png };
+  }
+}
+
+const exportWorker = new ExportWorker();
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  exportWorker.run(event.data.id, event.data.job);
+});
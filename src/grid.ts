@@ -1,4 +1,16 @@
-import type { TileSettings, GridInfo, ImageMetadata } from './types';
+import type { TileSettings, GridInfo, ImageMetadata, TileRect, Rect, SheetSource, GridCandidate } from './types';
+import { createCanvas } from './canvas';
+
+const MAX_DETECTED_SPACING = 8;
+
+interface AxisCandidate {
+  size: number;
+  spacing: number;
+  start: number;
+  count: number;
+  score: number;
+  imbalance: number;
+}
 
 export class GridCalculator {
   calculateGrid(settings: TileSettings, imageMetadata: ImageMetadata): GridInfo {
@@ -8,18 +20,62 @@ export class GridCalculator {
     const availableWidth = width - margin * 2 - offsetX;
     const availableHeight = height - margin * 2 - offsetY;
 
-    const cols = Math.floor((availableWidth + spacing) / (tileWidth + spacing));
-    const rows = Math.floor((availableHeight + spacing) / (tileHeight + spacing));
+    // Clamp before multiplying: two negative counts would otherwise give a positive total
+    const cols = Math.max(0, Math.floor((availableWidth + spacing) / (tileWidth + spacing)));
+    const rows = Math.max(0, Math.floor((availableHeight + spacing) / (tileHeight + spacing)));
 
     return {
-      rows: Math.max(0, rows),
-      cols: Math.max(0, cols),
-      totalTiles: Math.max(0, rows * cols)
+      rows,
+      cols,
+      totalTiles: rows * cols
     };
   }
 
+  getTileRects(settings: TileSettings, gridInfo: GridInfo): TileRect[] {
+    const { tileWidth, tileHeight, margin, spacing, offsetX, offsetY } = settings;
+    const rects: TileRect[] = [];
+
+    for (let row = 0; row < gridInfo.rows; row++) {
+      for (let col = 0; col < gridInfo.cols; col++) {
+        rects.push({
+          x: margin + offsetX + col * (tileWidth + spacing),
+          y: margin + offsetY + row * (tileHeight + spacing),
+          width: tileWidth,
+          height: tileHeight,
+          row,
+          col,
+          index: row * gridInfo.cols + col
+        });
+      }
+    }
+
+    return rects;
+  }
+
   validateSettings(settings: TileSettings, imageMetadata: ImageMetadata): string[] {
     const errors: string[] = [];
+
+    if (settings.colorKeyEnabled && (settings.colorKeyTolerance < 0 || settings.colorKeyTolerance > 255)) {
+      errors.push('Color key tolerance must be between 0 and 255');
+    }
+    if (settings.edgeMode !== 'none' && (settings.edgeSize < 0 || settings.edgeSize > 64)) {
+      errors.push('Edge size must be between 0 and 64');
+    }
+    if (settings.dedupe && (settings.dedupeTolerance < 0 || settings.dedupeTolerance > 255)) {
+      errors.push('Dedupe tolerance must be between 0 and 255');
+    }
+    if (!(settings.pivotX >= 0 && settings.pivotX <= 1 && settings.pivotY >= 0 && settings.pivotY <= 1)) {
+      errors.push('Pivot must be between 0 and 1 on both axes');
+    }
+
+    if (settings.sliceMode === 'islands') {
+      if (settings.alphaThreshold < 0 || settings.alphaThreshold > 254) {
+        errors.push('Alpha threshold must be between 0 and 254');
+      }
+      if (settings.mergeDistance < 0) errors.push('Merge distance cannot be negative');
+      return errors;
+    }
+
     const { tileWidth, tileHeight, margin, spacing, offsetX, offsetY } = settings;
     const { width, height } = imageMetadata;
 
@@ -43,86 +99,176 @@ export class GridCalculator {
     return errors;
   }
 
-  autoDetectTileSize(image: HTMLImageElement): Partial<TileSettings> | null {
-    const canvas = document.createElement('canvas');
+  autoDetectTileSize(image: SheetSource): Partial<TileSettings> | null {
+    const [best] = this.detectGridCandidates(image);
+    return best ? best.settings : null;
+  }
+
+  detectGridCandidates(image: SheetSource, maxCandidates: number = 5): GridCandidate[] {
+    const canvas = createCanvas(image.width, image.height);
     const ctx = canvas.getContext('2d')!;
-    canvas.width = image.width;
-    canvas.height = image.height;
     ctx.drawImage(image, 0, 0);
 
     const imageData = ctx.getImageData(0, 0, image.width, image.height);
-    
-    // Try to detect common tile sizes
-    const commonSizes = [16, 24, 32, 48, 64, 96, 128];
-    
-    for (const size of commonSizes) {
-      const detected = this.tryDetectGrid(imageData, size, size);
-      if (detected) {
-        return detected;
-      }
-    }
-
-    return null;
+    return this.detectGridCandidatesFromImageData(imageData, maxCandidates);
   }
 
-  private tryDetectGrid(imageData: ImageData, tileWidth: number, tileHeight: number): Partial<TileSettings> | null {
+  detectGridCandidatesFromImageData(imageData: ImageData, maxCandidates: number = 5): GridCandidate[] {
     const { width, height, data } = imageData;
-    
-    // Simple heuristic: check if we can find a regular pattern
-    const cols = Math.floor(width / tileWidth);
-    const rows = Math.floor(height / tileHeight);
-    
-    if (cols < 2 || rows < 2) return null;
-    
-    // Check if the grid lines are consistent (simplified detection)
-    let consistentVertical = 0;
-    let consistentHorizontal = 0;
-    
-    // Check vertical lines
-    for (let col = 1; col < cols; col++) {
-      const x = col * tileWidth;
-      if (x < width) {
-        let isConsistent = true;
-        for (let y = 0; y < height; y += 10) {
-          const idx = (y * width + x) * 4 + 3; // alpha channel
-          if (data[idx] > 128) { // not transparent enough
-            isConsistent = false;
-            break;
-          }
+
+    // Projection profiles: number of opaque pixels in every column and row
+    const columns = new Uint32Array(width);
+    const rows = new Uint32Array(height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (data[(y * width + x) * 4 + 3] > 0) {
+          columns[x]++;
+          rows[y]++;
         }
-        if (isConsistent) consistentVertical++;
       }
     }
-    
-    // Check horizontal lines
-    for (let row = 1; row < rows; row++) {
-      const y = row * tileHeight;
-      if (y < height) {
-        let isConsistent = true;
-        for (let x = 0; x < width; x += 10) {
-          const idx = (y * width + x) * 4 + 3; // alpha channel
-          if (data[idx] > 128) { // not transparent enough
-            isConsistent = false;
-            break;
+
+    const xCandidates = this.detectAxis(columns);
+    const yCandidates = this.detectAxis(rows);
+    const candidates: GridCandidate[] = [];
+
+    for (const x of xCandidates) {
+      for (const y of yCandidates) {
+        // TileSettings has a single spacing value, so both axes must agree on it
+        // unless one of them only has a single row/column of tiles
+        if (x.count > 1 && y.count > 1 && x.spacing !== y.spacing) continue;
+        const spacing = x.count > 1 ? x.spacing : y.spacing;
+
+        let confidence = Math.sqrt(x.score * y.score);
+        if (x.size === y.size) confidence = Math.min(1, confidence * 1.1);
+
+        candidates.push({
+          settings: this.toGridSettings(x, y, spacing, width, height),
+          confidence
+        });
+      }
+    }
+
+    if (candidates.length === 0) {
+      return this.fallbackCandidates(width, height, maxCandidates);
+    }
+
+    return candidates
+      .sort((a, b) => b.confidence - a.confidence
+        || a.settings.tileWidth * a.settings.tileHeight - b.settings.tileWidth * b.settings.tileHeight)
+      .slice(0, maxCandidates);
+  }
+
+  private detectAxis(profile: Uint32Array): AxisCandidate[] {
+    const length = profile.length;
+
+    // Prefix sums let every band and gutter be checked in constant time
+    const contentSum = new Float64Array(length + 1);
+    const filledSum = new Uint32Array(length + 1);
+    for (let i = 0; i < length; i++) {
+      contentSum[i + 1] = contentSum[i] + profile[i];
+      filledSum[i + 1] = filledSum[i] + (profile[i] > 0 ? 1 : 0);
+    }
+
+    const totalContent = contentSum[length];
+    if (totalContent === 0 || filledSum[length] === length) return [];
+
+    const isEmpty = (position: number) => position < 0 || position >= length || profile[position] === 0;
+    const isRangeEmpty = (from: number, to: number) => filledSum[to] - filledSum[from] === 0;
+    const commonSizes = [8, 16, 24, 32, 48, 64, 96, 128, 256];
+    const maxSize = Math.min(length, 512);
+    const candidates: AxisCandidate[] = [];
+
+    for (let size = 4; size <= maxSize; size++) {
+      for (let spacing = 0; spacing <= MAX_DETECTED_SPACING; spacing++) {
+        const pitch = size + spacing;
+        let best: AxisCandidate | null = null;
+
+        for (let start = 0; start < pitch && start + size <= length; start++) {
+          const count = Math.floor((length - start + spacing) / pitch);
+          if (count < 1) continue;
+
+          let inside = 0;
+          let emptyBands = 0;
+          for (let band = 0; band < count; band++) {
+            const bandStart = start + band * pitch;
+            const bandContent = contentSum[bandStart + size] - contentSum[bandStart];
+            inside += bandContent;
+            if (bandContent === 0) emptyBands++;
+          }
+
+          // Every opaque pixel must fall inside a tile, never in a gutter or margin
+          const coverage = inside / totalContent;
+          if (coverage < 0.999) continue;
+
+          let cleanBoundaries = 0;
+          for (let band = 1; band < count; band++) {
+            const boundary = start + band * pitch;
+            const clean = spacing > 0
+              ? isRangeEmpty(boundary - spacing, boundary)
+              : isEmpty(boundary - 1) || isEmpty(boundary);
+            if (clean) cleanBoundaries++;
+          }
+
+          const clean = count > 1 ? cleanBoundaries / (count - 1) : 1;
+          const span = (count * pitch - spacing) / length;
+          let score = clean * (0.6 + 0.4 * span) * (1 - 0.3 * emptyBands / count);
+          if (commonSizes.includes(size)) score = Math.min(1, score * 1.05);
+
+          // Transparent tile borders make neighbouring starts equally clean; prefer the symmetric one
+          const imbalance = Math.abs(length - (start + count * pitch - spacing) - start);
+          if (!best || score > best.score + 1e-9 || (score > best.score - 1e-9 && imbalance < best.imbalance)) {
+            best = { size, spacing, start, count, score, imbalance };
           }
         }
-        if (isConsistent) consistentHorizontal++;
+
+        if (best && best.score > 0.5) candidates.push(best);
       }
     }
-    
-    // If we found consistent grid lines, this might be the right size
-    if (consistentVertical >= cols * 0.7 && consistentHorizontal >= rows * 0.7) {
-      return {
-        tileWidth,
-        tileHeight,
-        margin: 0,
-        spacing: 0,
-        offsetX: 0,
-        offsetY: 0
-      };
+
+    // Ties go to the finer grid: a 64px grid is also "clean" on a 32px sheet
+    return candidates
+      .sort((a, b) => Math.round((b.score - a.score) * 1000) || a.size + a.spacing - (b.size + b.spacing))
+      .slice(0, 8);
+  }
+
+  private toGridSettings(
+    x: AxisCandidate,
+    y: AxisCandidate,
+    spacing: number,
+    width: number,
+    height: number
+  ): GridCandidate['settings'] {
+    // Margin is applied on all four sides, so it can only be as large as the smallest leftover edge
+    const right = width - (x.start + x.count * (x.size + spacing) - spacing);
+    const bottom = height - (y.start + y.count * (y.size + spacing) - spacing);
+    const margin = Math.max(0, Math.min(x.start, y.start, right, bottom));
+
+    return {
+      tileWidth: x.size,
+      tileHeight: y.size,
+      margin,
+      spacing,
+      offsetX: x.start - margin,
+      offsetY: y.start - margin
+    };
+  }
+
+  private fallbackCandidates(width: number, height: number, maxCandidates: number): GridCandidate[] {
+    // Without transparent gutters the best guess is a common size that divides the sheet evenly
+    const commonSizes = [16, 32, 24, 48, 64, 8, 96, 128];
+    const candidates: GridCandidate[] = [];
+
+    for (const size of commonSizes) {
+      if (width % size === 0 && height % size === 0 && width / size >= 2 && height / size >= 2) {
+        candidates.push({
+          settings: { tileWidth: size, tileHeight: size, margin: 0, spacing: 0, offsetX: 0, offsetY: 0 },
+          confidence: 0.1
+        });
+      }
     }
-    
-    return null;
+
+    return candidates.slice(0, maxCandidates);
   }
 }
 
@@ -166,6 +312,81 @@ export class GridOverlay {
     this.ctx.restore();
   }
 
+  drawRects(rects: TileRect[], scale: number = 1) {
+    this.ctx.save();
+    this.ctx.scale(scale, scale);
+
+    this.ctx.strokeStyle = '#ff0000';
+    this.ctx.lineWidth = 1 / scale;
+    this.ctx.setLineDash([5 / scale, 5 / scale]);
+
+    for (const rect of rects) {
+      this.ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    }
+
+    this.ctx.restore();
+  }
+
+  fillRects(rects: TileRect[], color: string, scale: number = 1) {
+    this.ctx.save();
+    this.ctx.scale(scale, scale);
+    this.ctx.fillStyle = color;
+
+    for (const rect of rects) {
+      this.ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    }
+
+    this.ctx.restore();
+  }
+
+  drawCrosses(rects: Rect[], color: string, scale: number = 1) {
+    this.ctx.save();
+    this.ctx.scale(scale, scale);
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = 2 / scale;
+
+    for (const rect of rects) {
+      this.ctx.beginPath();
+      this.ctx.moveTo(rect.x, rect.y);
+      this.ctx.lineTo(rect.x + rect.width, rect.y + rect.height);
+      this.ctx.moveTo(rect.x + rect.width, rect.y);
+      this.ctx.lineTo(rect.x, rect.y + rect.height);
+      this.ctx.stroke();
+    }
+
+    this.ctx.restore();
+  }
+
+  // Labels are drawn at screen size so they stay readable when zoomed out
+  drawLabels(labels: Array<{ rect: Rect; text: string }>, scale: number = 1) {
+    this.ctx.save();
+    this.ctx.font = '10px sans-serif';
+    this.ctx.textBaseline = 'top';
+
+    for (const { rect, text } of labels) {
+      const x = rect.x * scale + 2;
+      const y = rect.y * scale + 2;
+      const width = this.ctx.measureText(text).width;
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      this.ctx.fillRect(x - 1, y - 1, width + 2, 12);
+      this.ctx.fillStyle = '#ffffff';
+      this.ctx.fillText(text, x, y);
+    }
+
+    this.ctx.restore();
+  }
+
+  drawSelectionBox(box: Rect) {
+    this.ctx.save();
+    this.ctx.strokeStyle = '#4299e1';
+    this.ctx.fillStyle = 'rgba(66, 153, 225, 0.15)';
+    this.ctx.lineWidth = 1;
+    this.ctx.setLineDash([4, 2]);
+    this.ctx.fillRect(box.x, box.y, box.width, box.height);
+    this.ctx.strokeRect(box.x, box.y, box.width, box.height);
+    this.ctx.restore();
+  }
+
   clear() {
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
   }
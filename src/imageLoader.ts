@@ -1,32 +1,214 @@
-import type { ImageMetadata } from './types';
+import type { ImageMetadata, ImageFormat, ImportOptions, SpriteAnimation, AnimationFrame } from './types';
+import { GifDecoder, AsepriteDecoder, type DecodedFrame } from './decoders';
+
+interface SourceInfo {
+  name: string;
+  format: ImageFormat;
+  colorDepth: number;
+  frameCount: number;
+  frameWidth: number;
+  frameHeight: number;
+}
 
 export class ImageLoader {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private image: HTMLImageElement | null = null;
+  private sourceInfo: SourceInfo | null = null;
+  private importedAnimations: SpriteAnimation[] = [];
+  private gifDecoder = new GifDecoder();
+  private asepriteDecoder = new AsepriteDecoder();
 
   constructor() {
     this.canvas = document.createElement('canvas');
     this.ctx = this.canvas.getContext('2d')!;
   }
 
-  async loadImage(file: File): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-      if (!file.type.startsWith('image/png')) {
-        reject(new Error('Only PNG files are supported'));
-        return;
+  async loadImage(file: File, options: ImportOptions): Promise<HTMLImageElement> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const format = this.detectFormat(bytes);
+    if (!format) {
+      throw new Error('Unsupported file type. Use PNG, WebP, GIF, BMP, JPEG or Aseprite files');
+    }
+
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'animation';
+    let image: HTMLImageElement;
+    this.importedAnimations = [];
+
+    if (format === 'gif') {
+      const gif = this.gifDecoder.decode(bytes);
+      image = gif.frames.length > 1
+        ? await this.buildSheet(gif.width, gif.height, [gif.frames], options)
+        : await this.decodeImage(file);
+      this.sourceInfo = {
+        name: baseName,
+        format,
+        colorDepth: gif.colorDepth,
+        frameCount: gif.frames.length,
+        frameWidth: gif.width,
+        frameHeight: gif.height
+      };
+      if (gif.frames.length > 1) {
+        this.importedAnimations = [this.createAnimation(baseName, gif.frames, 0, 1, 0, gif.frames.length - 1, options)];
       }
+    } else if (format === 'aseprite') {
+      const aseprite = await this.asepriteDecoder.decode(bytes);
+      const rows: DecodedFrame[][] = [aseprite.frames];
 
-      const img = new Image();
-      img.onload = () => {
-        this.image = img;
-        resolve(img);
+      // Optionally give every visible layer its own row below the flattened frames
+      if (options.splitLayers) {
+        for (const layer of aseprite.layers) {
+          rows.push(layer.frames.map((data, i) => ({ data, duration: aseprite.frames[i].duration })));
+        }
+      }
+
+      image = await this.buildSheet(aseprite.width, aseprite.height, rows, options);
+      this.sourceInfo = {
+        name: baseName,
+        format,
+        colorDepth: aseprite.colorDepth,
+        frameCount: aseprite.frames.length,
+        frameWidth: aseprite.width,
+        frameHeight: aseprite.height
+      };
+
+      const lastFrame = aseprite.frames.length - 1;
+      this.importedAnimations = aseprite.tags.length > 0
+        ? aseprite.tags.map(tag => this.createAnimation(tag.name, aseprite.frames, 0, rows.length, tag.from, tag.to, options))
+        : [this.createAnimation(baseName, aseprite.frames, 0, rows.length, 0, lastFrame, options)];
+
+      if (options.splitLayers) {
+        aseprite.layers.forEach((layer, i) => {
+          this.importedAnimations.push(this.createAnimation(layer.name, rows[i + 1], i + 1, rows.length, 0, lastFrame, options));
+        });
+      }
+    } else {
+      image = await this.decodeImage(file);
+      this.sourceInfo = {
+        name: baseName,
+        format,
+        colorDepth: this.readColorDepth(bytes, format),
+        frameCount: 1,
+        frameWidth: image.width,
+        frameHeight: image.height
       };
+    }
+
+    this.image = image;
+    return image;
+  }
+
+  private decodeImage(blob: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
       img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = URL.createObjectURL(file);
+      img.src = URL.createObjectURL(blob);
     });
   }
 
+  private detectFormat(bytes: Uint8Array): ImageFormat | null {
+    const ascii = (start: number, length: number) =>
+      String.fromCharCode(...bytes.subarray(start, start + length));
+
+    if (bytes[0] === 0x89 && ascii(1, 3) === 'PNG') return 'png';
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+    if (ascii(0, 4) === 'GIF8') return 'gif';
+    if (ascii(0, 2) === 'BM') return 'bmp';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return 'webp';
+    if (bytes[4] === 0xe0 && bytes[5] === 0xa5) return 'aseprite';
+    return null;
+  }
+
+  private readColorDepth(bytes: Uint8Array, format: ImageFormat): number {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    switch (format) {
+      case 'png': {
+        // IHDR: bit depth and color type decide the bits per pixel
+        const bitDepth = bytes[24];
+        const channels: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+        return bitDepth * (channels[bytes[25]] ?? 4);
+      }
+      case 'bmp':
+        return view.getUint16(28, true);
+      case 'webp': {
+        const chunk = String.fromCharCode(...bytes.subarray(12, 16));
+        if (chunk === 'VP8X') return bytes[20] & 0x10 ? 32 : 24;
+        if (chunk === 'VP8L') return (view.getUint32(21, true) >> 28) & 1 ? 32 : 24;
+        return 24;
+      }
+      case 'jpeg': {
+        // Walk the markers until the start-of-frame header
+        let offset = 2;
+        while (offset + 9 < bytes.length) {
+          if (bytes[offset] !== 0xff) break;
+          const marker = bytes[offset + 1];
+          const length = view.getUint16(offset + 2);
+          if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return bytes[offset + 4] * bytes[offset + 9];
+          }
+          offset += 2 + length;
+        }
+        return 24;
+      }
+      default:
+        return 32;
+    }
+  }
+
+  private async buildSheet(
+    frameWidth: number,
+    frameHeight: number,
+    rows: DecodedFrame[][],
+    options: ImportOptions
+  ): Promise<HTMLImageElement> {
+    const frameCount = Math.max(...rows.map(row => row.length));
+    const horizontal = options.frameLayout === 'horizontal';
+
+    const canvas = document.createElement('canvas');
+    canvas.width = frameWidth * (horizontal ? frameCount : rows.length);
+    canvas.height = frameHeight * (horizontal ? rows.length : frameCount);
+    const ctx = canvas.getContext('2d')!;
+
+    rows.forEach((row, r) => {
+      row.forEach((frame, f) => {
+        const x = (horizontal ? f : r) * frameWidth;
+        const y = (horizontal ? r : f) * frameHeight;
+        ctx.putImageData(new ImageData(frame.data, frameWidth, frameHeight), x, y);
+      });
+    });
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(result => result ? resolve(result) : reject(new Error('Failed to build sprite sheet')), 'image/png');
+    });
+    return this.decodeImage(blob);
+  }
+
+  // Indices follow the grid the sheet produces when tiles match the frame size
+  private createAnimation(
+    name: string,
+    frames: DecodedFrame[],
+    row: number,
+    rowCount: number,
+    from: number,
+    to: number,
+    options: ImportOptions
+  ): SpriteAnimation {
+    const animationFrames: AnimationFrame[] = [];
+    for (let f = from; f <= to; f++) {
+      animationFrames.push({
+        index: options.frameLayout === 'horizontal' ? row * frames.length + f : f * rowCount + row,
+        duration: frames[f].duration
+      });
+    }
+    return { name, frames: animationFrames };
+  }
+
+  getImportedAnimations(): SpriteAnimation[] {
+    return this.importedAnimations;
+  }
+
   getImageMetadata(image: HTMLImageElement): ImageMetadata {
     this.canvas.width = image.width;
     this.canvas.height = image.height;
@@ -36,9 +218,15 @@ export class ImageLoader {
     const hasAlpha = this.checkAlphaChannel(imageData);
 
     return {
+      name: this.sourceInfo?.name ?? 'sprite',
       width: image.width,
       height: image.height,
-      hasAlpha
+      hasAlpha,
+      format: this.sourceInfo?.format ?? 'png',
+      colorDepth: this.sourceInfo?.colorDepth ?? 32,
+      frameCount: this.sourceInfo?.frameCount ?? 1,
+      frameWidth: this.sourceInfo?.frameWidth ?? image.width,
+      frameHeight: this.sourceInfo?.frameHeight ?? image.height
     };
   }
 
@@ -56,4 +244,3 @@ export class ImageLoader {
     return this.image;
   }
 }
-
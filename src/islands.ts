@@ -0,0 +1,168 @@
+import type { TileRect, TileSettings, SheetSource } from './types';
+import { createCanvas } from './canvas';
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export class IslandDetector {
+  detectIslands(image: SheetSource, settings: TileSettings): TileRect[] {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, 0, 0);
+
+    const imageData = ctx.getImageData(0, 0, image.width, image.height);
+    return this.detectFromImageData(imageData, settings.alphaThreshold, settings.mergeDistance);
+  }
+
+  detectFromImageData(imageData: ImageData, alphaThreshold: number, mergeDistance: number): TileRect[] {
+    const { width, height, data } = imageData;
+
+    // Mark every pixel that is opaque enough to belong to a sprite
+    const mask = new Uint8Array(width * height);
+    for (let i = 0; i < mask.length; i++) {
+      if (data[i * 4 + 3] > alphaThreshold) {
+        mask[i] = 1;
+      }
+    }
+
+    const islands: Bounds[] = [];
+    const stack: number[] = [];
+
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start]) continue;
+
+      const bounds: Bounds = { minX: width, minY: height, maxX: -1, maxY: -1 };
+      mask[start] = 0;
+      stack.push(start);
+
+      // Flood fill using 8-connectivity so diagonal pixels stay together
+      while (stack.length > 0) {
+        const pixel = stack.pop()!;
+        const x = pixel % width;
+        const y = (pixel - x) / width;
+
+        if (x < bounds.minX) bounds.minX = x;
+        if (y < bounds.minY) bounds.minY = y;
+        if (x > bounds.maxX) bounds.maxX = x;
+        if (y > bounds.maxY) bounds.maxY = y;
+
+        for (let dy = -1; dy <= 1; dy++) {
+          const ny = y + dy;
+          if (ny < 0 || ny >= height) continue;
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            if (nx < 0 || nx >= width) continue;
+            const neighbor = ny * width + nx;
+            if (mask[neighbor]) {
+              mask[neighbor] = 0;
+              stack.push(neighbor);
+            }
+          }
+        }
+      }
+
+      islands.push(bounds);
+    }
+
+    return this.orderIslands(this.mergeIslands(islands, mergeDistance));
+  }
+
+  // Keep merging until no pair of islands is close enough; a merge can
+  // bring a grown island within reach of one that was previously too far
+  private mergeIslands(islands: Bounds[], mergeDistance: number): Bounds[] {
+    let merged = islands;
+    for (;;) {
+      const next = this.mergeClosePairs(merged, mergeDistance);
+      if (next.length === merged.length) return merged;
+      merged = next;
+    }
+  }
+
+  // One pass: a sweep over the islands sorted by left edge finds the close pairs, union-find joins them
+  private mergeClosePairs(islands: Bounds[], mergeDistance: number): Bounds[] {
+    const order = islands.map((_, i) => i).sort((a, b) => islands[a].minX - islands[b].minX);
+    const parent = islands.map((_, i) => i);
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
+      }
+      return i;
+    };
+
+    // Islands starting further right than this can't merge, and neither can any after them
+    const reach = Math.max(0, mergeDistance) + 1;
+    for (let a = 0; a < order.length; a++) {
+      const island = islands[order[a]];
+      for (let b = a + 1; b < order.length && islands[order[b]].minX <= island.maxX + reach; b++) {
+        if (this.shouldMerge(island, islands[order[b]], mergeDistance)) {
+          parent[find(order[b])] = find(order[a]);
+        }
+      }
+    }
+
+    const groups = new Map<number, Bounds>();
+    islands.forEach((island, i) => {
+      const root = find(i);
+      const group = groups.get(root);
+      groups.set(root, group
+        ? {
+          minX: Math.min(group.minX, island.minX),
+          minY: Math.min(group.minY, island.minY),
+          maxX: Math.max(group.maxX, island.maxX),
+          maxY: Math.max(group.maxY, island.maxY)
+        }
+        : island);
+    });
+    return [...groups.values()];
+  }
+
+  private shouldMerge(a: Bounds, b: Bounds, mergeDistance: number): boolean {
+    // Number of empty pixels between the two boxes on each axis (negative when they overlap)
+    const gapX = Math.max(a.minX, b.minX) - Math.min(a.maxX, b.maxX) - 1;
+    const gapY = Math.max(a.minY, b.minY) - Math.min(a.maxY, b.maxY) - 1;
+
+    if (gapX < 0 && gapY < 0) return true;
+    return mergeDistance > 0 && Math.max(gapX, gapY) <= mergeDistance;
+  }
+
+  private orderIslands(islands: Bounds[]): TileRect[] {
+    const sorted = islands.slice().sort((a, b) => a.minY - b.minY || a.minX - b.minX);
+    const rows: Bounds[][] = [];
+    let rowBottom = -1;
+
+    // Islands whose top edge starts before the current row ends share that row
+    for (const island of sorted) {
+      if (rows.length === 0 || island.minY > rowBottom) {
+        rows.push([island]);
+        rowBottom = island.maxY;
+      } else {
+        rows[rows.length - 1].push(island);
+        rowBottom = Math.max(rowBottom, island.maxY);
+      }
+    }
+
+    const rects: TileRect[] = [];
+    rows.forEach((rowIslands, row) => {
+      rowIslands
+        .sort((a, b) => a.minX - b.minX)
+        .forEach((island, col) => {
+          rects.push({
+            x: island.minX,
+            y: island.minY,
+            width: island.maxX - island.minX + 1,
+            height: island.maxY - island.minY + 1,
+            row,
+            col,
+            index: rects.length
+          });
+        });
+    });
+
+    return rects;
+  }
+}
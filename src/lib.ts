@@ -0,0 +1,44 @@
+// Library entry point: importing it has no side effects and never touches the page or triggers downloads
+export { SpriteSheetSlicer, SliceValidationError } from './library';
+export type { SliceInput, SliceOptions, ExportOptions, SlicedTile, SlicerEventMap } from './library';
+export { DEFAULT_TILE_SETTINGS, DEFAULT_EXPORT_SETTINGS } from './defaults';
+export { setCanvasBackend } from './canvas';
+export type { CanvasBackend } from './canvas';
+export { GridCalculator } from './grid';
+export { SpriteSlicer } from './slicer';
+export { ZipExporter } from './zipper';
+export { FilenameGenerator, FILENAME_TOKENS } from './naming';
+export { PIVOT_ANCHORS } from './annotations';
+export { registerExportTarget, getExportTargets } from './targets';
+export type { ExportTarget, TargetContext } from './targets';
+export type {
+  TileSettings,
+  ExportSettings,
+  PackSettings,
+  AtlasFormat,
+  AtlasSource,
+  ScaleFilter,
+  SliceMode,
+  EdgeMode,
+  ImageMetadata,
+  ImageFormat,
+  SheetSource,
+  TileImage,
+  GridInfo,
+  GridCandidate,
+  TileRect,
+  Rect,
+  Pivot,
+  Hitbox,
+  TileData,
+  TileError,
+  TileAnnotation,
+  TileAnnotations,
+  TileReuse,
+  TileTransform,
+  SpriteAnimation,
+  AnimationFrame,
+  ExportProgress,
+  ExportReport,
+  ExportResult
+} from './types';
@@ -0,0 +1,264 @@
+import type {
+  ExportProgress, ExportResult, ExportSettings, GridCandidate, ImageFormat, ImageMetadata,
+  SheetSource, SpriteAnimation, TileAnnotations, TileData, TileError, TileRect, TileSettings
+} from './types';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TILE_SETTINGS } from './defaults';
+import { canvasToPng, createCanvas } from './canvas';
+import { GridCalculator } from './grid';
+import { IslandDetector } from './islands';
+import { ColorKeyer } from './colorKey';
+import { SpriteSlicer } from './slicer';
+import { ZipExporter } from './zipper';
+
+export type SliceInput = ImageData | ImageBitmap | SheetSource;
+
+export interface SliceOptions {
+  settings?: Partial<TileSettings>;
+  annotations?: TileAnnotations;
+  signal?: AbortSignal;
+}
+
+export interface ExportOptions extends SliceOptions {
+  export?: Partial<ExportSettings>;
+  // Used for {basename} in filename templates and source.name in meta.json
+  name?: string;
+  animations?: SpriteAnimation[];
+}
+
+// Plain tile record with its pixels; nothing in it refers to a canvas
+export interface SlicedTile {
+  index: number;
+  row: number;
+  col: number;
+  name: string;
+  tags: string[];
+  excluded: boolean;
+  isEmpty: boolean;
+  sourceRect: TileRect;
+  trimRect: TileData['trimRect'];
+  inset: number;
+  pivot: TileData['pivot'];
+  hitboxes: TileData['hitboxes'];
+  duplicateOf?: TileData['duplicateOf'];
+  image: ImageData;
+  error?: string;
+}
+
+export interface SlicerEventMap {
+  progress: ExportProgress & { stage: 'slice' | 'export' };
+  tileerror: TileError;
+}
+
+export class SliceValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(errors.join('; '));
+    this.name = 'SliceValidationError';
+    this.errors = errors;
+  }
+}
+
+export class SpriteSheetSlicer {
+  private gridCalculator = new GridCalculator();
+  private islandDetector = new IslandDetector();
+  private colorKeyer = new ColorKeyer();
+  private slicer = new SpriteSlicer();
+  private zipExporter = new ZipExporter();
+  private listeners = new Map<keyof SlicerEventMap, Set<(event: never) => void>>();
+
+  // Returns a function that removes the listener
+  on<K extends keyof SlicerEventMap>(type: K, listener: (event: SlicerEventMap[K]) => void): () => void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends keyof SlicerEventMap>(type: K, listener: (event: SlicerEventMap[K]) => void) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  detectGrid(input: SliceInput, maxCandidates: number = 5): GridCandidate[] {
+    return this.gridCalculator.detectGridCandidatesFromImageData(this.toImageData(input), maxCandidates);
+  }
+
+  validate(input: SliceInput, settings: Partial<TileSettings> = {}): string[] {
+    return this.gridCalculator.validateSettings(this.resolveSettings(settings), this.describe(input));
+  }
+
+  getTileRects(input: SliceInput, settings: Partial<TileSettings> = {}): TileRect[] {
+    const resolved = this.resolveSettings(settings);
+    const source = this.toSource(input);
+    return this.findRects(this.prepare(source, resolved), resolved, this.describe(source));
+  }
+
+  async slice(input: SliceInput, options: SliceOptions = {}): Promise<SlicedTile[]> {
+    const source = this.toSource(input);
+    const { tiles } = await this.sliceTiles(source, this.describe(source), this.resolveSettings(options.settings ?? {}), options);
+    const sliced = tiles.map(tile => ({
+      index: tile.index,
+      row: tile.row,
+      col: tile.col,
+      name: tile.name,
+      tags: tile.tags,
+      excluded: tile.excluded,
+      isEmpty: tile.isEmpty,
+      sourceRect: tile.sourceRect,
+      trimRect: tile.trimRect,
+      inset: tile.inset ?? 0,
+      pivot: tile.pivot,
+      hitboxes: tile.hitboxes,
+      duplicateOf: tile.duplicateOf,
+      image: this.toImageData(tile.canvas),
+      error: tile.error
+    }));
+    this.slicer.releaseTiles(tiles);
+    return sliced;
+  }
+
+  // Slices and packs everything the browser export would write, without downloading it
+  async exportZip(input: SliceInput, options: ExportOptions = {}): Promise<ExportResult> {
+    const settings = this.resolveSettings(options.settings ?? {});
+    const exportSettings: ExportSettings = {
+      ...DEFAULT_EXPORT_SETTINGS,
+      ...options.export,
+      pack: { ...DEFAULT_EXPORT_SETTINGS.pack, ...options.export?.pack }
+    };
+
+    const source = this.toSource(input);
+    const metadata = this.describe(source, options.name);
+    const { tiles, image } = await this.sliceTiles(source, metadata, settings, options);
+    let result: ExportResult;
+    try {
+      const contactSheet = exportSettings.includeContactSheet
+        ? this.slicer.createContactSheet(tiles.filter(tile => !tile.excluded))
+        : undefined;
+
+      result = await this.zipExporter.exportTiles(
+        tiles,
+        settings,
+        exportSettings,
+        metadata,
+        image,
+        options.animations ?? [],
+        contactSheet,
+        progress => this.emit('progress', { ...progress, stage: 'export' }),
+        options.signal
+      );
+    } finally {
+      this.slicer.releaseTiles(tiles);
+    }
+
+    result.errors
+      .filter(error => error.stage === 'encode')
+      .forEach(error => this.emit('tileerror', error));
+    return result;
+  }
+
+  encodePng(tile: SlicedTile): Promise<Uint8Array | Blob> {
+    const canvas = createCanvas(tile.image.width, tile.image.height);
+    canvas.getContext('2d')!.putImageData(tile.image, 0, 0);
+    return canvasToPng(canvas);
+  }
+
+  describe(input: SliceInput, name: string = 'sprite', format: ImageFormat = 'png'): ImageMetadata {
+    const { width, height, data } = this.toImageData(input);
+    let hasAlpha = false;
+    for (let i = 3; i < data.length && !hasAlpha; i += 4) {
+      hasAlpha = data[i] < 255;
+    }
+
+    return {
+      name,
+      width,
+      height,
+      hasAlpha,
+      format,
+      colorDepth: 32,
+      frameCount: 1,
+      frameWidth: width,
+      frameHeight: height
+    };
+  }
+
+  private async sliceTiles(
+    source: SheetSource,
+    metadata: ImageMetadata,
+    settings: TileSettings,
+    options: SliceOptions
+  ): Promise<{ tiles: TileData[]; image: SheetSource }> {
+    const errors = this.gridCalculator.validateSettings(settings, metadata);
+    if (errors.length > 0) throw new SliceValidationError(errors);
+
+    const image = this.prepare(source, settings);
+    const tiles = await this.slicer.sliceSprite(
+      image,
+      settings,
+      this.findRects(image, settings, metadata),
+      options.annotations,
+      progress => this.emit('progress', { ...progress, stage: 'slice' }),
+      options.signal
+    );
+
+    for (const tile of tiles) {
+      if (tile.error) {
+        this.emit('tileerror', { index: tile.index, row: tile.row, col: tile.col, stage: 'slice', message: tile.error });
+      }
+    }
+    return { tiles, image };
+  }
+
+  private resolveSettings(settings: Partial<TileSettings>): TileSettings {
+    return { ...DEFAULT_TILE_SETTINGS, ...settings };
+  }
+
+  private prepare(image: SheetSource, settings: TileSettings): SheetSource {
+    return settings.colorKeyEnabled
+      ? this.colorKeyer.applyColorKey(image, settings.colorKey, settings.colorKeyTolerance)
+      : image;
+  }
+
+  private findRects(image: SheetSource, settings: TileSettings, metadata: ImageMetadata): TileRect[] {
+    if (settings.sliceMode === 'islands') {
+      return this.islandDetector.detectIslands(image, settings);
+    }
+    const gridInfo = this.gridCalculator.calculateGrid(settings, metadata);
+    return this.gridCalculator.getTileRects(settings, gridInfo);
+  }
+
+  private toSource(input: SliceInput): SheetSource {
+    if (this.isImageData(input)) {
+      const canvas = createCanvas(input.width, input.height);
+      canvas.getContext('2d')!.putImageData(input, 0, 0);
+      return canvas;
+    }
+    if (typeof ImageBitmap !== 'undefined' && input instanceof ImageBitmap) {
+      const canvas = createCanvas(input.width, input.height);
+      canvas.getContext('2d')!.drawImage(input, 0, 0);
+      return canvas;
+    }
+    return input as SheetSource;
+  }
+
+  private toImageData(input: SliceInput): ImageData {
+    if (this.isImageData(input)) return input;
+
+    let canvas: HTMLCanvasElement;
+    if ('getContext' in input) {
+      canvas = input;
+    } else {
+      canvas = createCanvas(input.width, input.height);
+      canvas.getContext('2d')!.drawImage(input, 0, 0);
+    }
+    return canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  }
+
+  // Checked by shape because Node canvas backends bring their own ImageData class
+  private isImageData(input: SliceInput): input is ImageData {
+    return 'data' in input && input.data instanceof Uint8ClampedArray;
+  }
+
+  private emit<K extends keyof SlicerEventMap>(type: K, event: SlicerEventMap[K]) {
+    this.listeners.get(type)?.forEach(listener => (listener as (event: SlicerEventMap[K]) => void)(event));
+  }
+}
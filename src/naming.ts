@@ -0,0 +1,123 @@
+import type { ExportSettings, Rect, SpriteAnimation, TileData } from './types';
+
+// Anything with a position and size can be named, so the preview works on plain tile rects
+export type NamedTile = Pick<TileData, 'row' | 'col' | 'index' | 'name' | 'tags'> & { sourceRect: Rect };
+
+export interface NamingContext {
+  baseName: string;
+  animations: SpriteAnimation[];
+}
+
+// {token} or {token:03} for a zero-padded number
+const TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+
+// Stripped from typed names so "hero.png" doesn't become hero.png.png
+const IMAGE_EXTENSION = /\.(png|apng|jpe?g|gif|webp|bmp|avif)$/i;
+
+export const FILENAME_TOKENS = ['prefix', 'basename', 'row', 'col', 'index', 'n', 'anim', 'frame', 'w', 'h', 'tag', 'tags'];
+
+export class FilenameGenerator {
+  generate(tiles: NamedTile[], settings: ExportSettings, context: NamingContext): string[] {
+    const animationFrames = this.findAnimationFrames(context.animations);
+
+    return tiles.map((tile, n) => {
+      // A name given to the tile on the preview wins over the naming pattern
+      if (tile.name) {
+        return `${this.sanitize(tile.name).replace(IMAGE_EXTENSION, '') || tile.index}.png`;
+      }
+
+      switch (settings.namingPattern) {
+        case 'row_col':
+          return `${tile.row}_${tile.col}.png`;
+        case 'index':
+          return `${tile.index}.png`;
+        case 'custom':
+          return `${settings.customPrefix}${tile.row}_${tile.col}.png`;
+        case 'template':
+          return this.applyTemplate(settings.filenameTemplate, tile, n, settings, context, animationFrames);
+        default:
+          return `${tile.row}_${tile.col}.png`;
+      }
+    });
+  }
+
+  // Zip entries are compared case-insensitively because most file systems do
+  findCollisions(filenames: string[]): string[] {
+    const seen = new Map<string, number>();
+    for (const filename of filenames) {
+      const key = filename.toLowerCase();
+      seen.set(key, (seen.get(key) ?? 0) + 1);
+    }
+
+    const collisions = new Set<string>();
+    for (const filename of filenames) {
+      if (seen.get(filename.toLowerCase())! > 1) collisions.add(filename);
+    }
+    return [...collisions];
+  }
+
+  validateTemplate(template: string): string[] {
+    const errors: string[] = [];
+
+    if (!template.trim()) {
+      errors.push('Filename template cannot be empty');
+    }
+    for (const match of template.matchAll(TOKEN_PATTERN)) {
+      if (!FILENAME_TOKENS.includes(match[1])) {
+        errors.push(`Unknown token {${match[1]}}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private applyTemplate(
+    template: string,
+    tile: NamedTile,
+    n: number,
+    settings: ExportSettings,
+    context: NamingContext,
+    animationFrames: Map<number, { anim: string; frame: number }>
+  ): string {
+    const animationFrame = animationFrames.get(tile.index);
+    const values: Record<string, string | number> = {
+      prefix: settings.customPrefix,
+      basename: context.baseName,
+      row: tile.row,
+      col: tile.col,
+      index: tile.index,
+      n,
+      anim: animationFrame?.anim ?? '',
+      frame: animationFrame?.frame ?? n,
+      w: tile.sourceRect.width,
+      h: tile.sourceRect.height,
+      tag: tile.tags[0] ?? '',
+      tags: tile.tags.join('-')
+    };
+
+    const filename = this.sanitize(template.replace(TOKEN_PATTERN, (token, name: string, width?: string) => {
+      const value = values[name];
+      if (value === undefined) return token;
+      return typeof value === 'number' && width ? value.toString().padStart(parseInt(width), '0') : value.toString();
+    }));
+
+    return `${filename.replace(IMAGE_EXTENSION, '') || tile.index}.png`;
+  }
+
+  // The first animation that uses a tile decides its {anim} and {frame}
+  private findAnimationFrames(animations: SpriteAnimation[]): Map<number, { anim: string; frame: number }> {
+    const frames = new Map<number, { anim: string; frame: number }>();
+    for (const animation of animations) {
+      animation.frames.forEach((frame, position) => {
+        if (!frames.has(frame.index)) {
+          frames.set(frame.index, { anim: animation.name, frame: position });
+        }
+      });
+    }
+    return frames;
+  }
+
+  private sanitize(name: string): string {
+    return name.trim().replace(/[\\/:*?"<>|\s]+/g, '_');
+  }
+}
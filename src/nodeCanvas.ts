@@ -0,0 +1,20 @@
+import { createCanvas, loadImage, type Canvas } from '@napi-rs/canvas';
+import type { CanvasBackend } from './canvas';
+
+// @napi-rs/canvas implements the 2D context the core uses, so its canvases stand in for DOM ones
+export const nodeCanvasBackend: CanvasBackend = {
+  createCanvas(width, height) {
+    return createCanvas(width, height) as unknown as HTMLCanvasElement;
+  },
+
+  async toPng(canvas) {
+    return (canvas as unknown as Canvas).encode('png');
+  }
+};
+
+export async function loadSheet(data: Uint8Array): Promise<HTMLCanvasElement> {
+  const image = await loadImage(data);
+  const canvas = createCanvas(image.width, image.height);
+  canvas.getContext('2d').drawImage(image, 0, 0);
+  return canvas as unknown as HTMLCanvasElement;
+}
@@ -0,0 +1,325 @@
+import type { PackSettings, TileData, TileImage } from './types';
+import { createCanvas } from './canvas';
+
+export interface PackedPlacement {
+  tile: TileData;
+  x: number;
+  y: number;
+  rotated: boolean;
+}
+
+export interface PackedPage {
+  canvas: HTMLCanvasElement;
+  width: number;
+  height: number;
+  placements: PackedPlacement[];
+}
+
+interface BinPosition {
+  x: number;
+  y: number;
+  rotated: boolean;
+}
+
+interface PackingBin {
+  insert(width: number, height: number, allowRotation: boolean): BinPosition | null;
+}
+
+interface FreeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+class MaxRectsBin implements PackingBin {
+  private freeRects: FreeRect[];
+
+  constructor(width: number, height: number) {
+    this.freeRects = [{ x: 0, y: 0, width, height }];
+  }
+
+  insert(width: number, height: number, allowRotation: boolean): BinPosition | null {
+    let best: (BinPosition & { width: number; height: number }) | null = null;
+    let bestShortSide = Infinity;
+    let bestLongSide = Infinity;
+
+    // Best short side fit: prefer the free rect that leaves the smallest leftover edge
+    for (const free of this.freeRects) {
+      const candidates: Array<[number, number, boolean]> = [[width, height, false]];
+      if (allowRotation && width !== height) candidates.push([height, width, true]);
+
+      for (const [w, h, rotated] of candidates) {
+        if (w > free.width || h > free.height) continue;
+
+        const shortSide = Math.min(free.width - w, free.height - h);
+        const longSide = Math.max(free.width - w, free.height - h);
+        if (shortSide < bestShortSide || (shortSide === bestShortSide && longSide < bestLongSide)) {
+          best = { x: free.x, y: free.y, width: w, height: h, rotated };
+          bestShortSide = shortSide;
+          bestLongSide = longSide;
+        }
+      }
+    }
+
+    if (!best) return null;
+
+    this.splitFreeRects(best);
+    this.pruneFreeRects();
+
+    return { x: best.x, y: best.y, rotated: best.rotated };
+  }
+
+  private splitFreeRects(used: FreeRect) {
+    const next: FreeRect[] = [];
+
+    for (const free of this.freeRects) {
+      const intersects = used.x < free.x + free.width && used.x + used.width > free.x
+        && used.y < free.y + free.height && used.y + used.height > free.y;
+
+      if (!intersects) {
+        next.push(free);
+        continue;
+      }
+
+      if (used.x > free.x) {
+        next.push({ x: free.x, y: free.y, width: used.x - free.x, height: free.height });
+      }
+      if (used.x + used.width < free.x + free.width) {
+        next.push({
+          x: used.x + used.width,
+          y: free.y,
+          width: free.x + free.width - used.x - used.width,
+          height: free.height
+        });
+      }
+      if (used.y > free.y) {
+        next.push({ x: free.x, y: free.y, width: free.width, height: used.y - free.y });
+      }
+      if (used.y + used.height < free.y + free.height) {
+        next.push({
+          x: free.x,
+          y: used.y + used.height,
+          width: free.width,
+          height: free.y + free.height - used.y - used.height
+        });
+      }
+    }
+
+    this.freeRects = next;
+  }
+
+  private pruneFreeRects() {
+    // Drop free rects fully contained in another one
+    this.freeRects = this.freeRects.filter((a, i) => !this.freeRects.some((b, j) => {
+      if (i === j) return false;
+      const contained = a.x >= b.x && a.y >= b.y
+        && a.x + a.width <= b.x + b.width && a.y + a.height <= b.y + b.height;
+      // Of two identical rects keep only the first
+      return contained && (j < i || a.width !== b.width || a.height !== b.height || a.x !== b.x || a.y !== b.y);
+    }));
+  }
+}
+
+interface SkylineSegment {
+  x: number;
+  y: number;
+  width: number;
+}
+
+class SkylineBin implements PackingBin {
+  private width: number;
+  private height: number;
+  private skyline: SkylineSegment[];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.skyline = [{ x: 0, y: 0, width }];
+  }
+
+  insert(width: number, height: number, allowRotation: boolean): BinPosition | null {
+    let best: { index: number; x: number; y: number; width: number; height: number; rotated: boolean } | null = null;
+
+    // Bottom-left: lowest resulting top edge wins, ties go to the leftmost segment
+    for (let i = 0; i < this.skyline.length; i++) {
+      const candidates: Array<[number, number, boolean]> = [[width, height, false]];
+      if (allowRotation && width !== height) candidates.push([height, width, true]);
+
+      for (const [w, h, rotated] of candidates) {
+        const y = this.fitAt(i, w, h);
+        if (y === null) continue;
+        if (!best || y + h < best.y + best.height || (y + h === best.y + best.height && this.skyline[i].x < best.x)) {
+          best = { index: i, x: this.skyline[i].x, y, width: w, height: h, rotated };
+        }
+      }
+    }
+
+    if (!best) return null;
+
+    this.addSegment(best.index, best.x, best.y + best.height, best.width);
+    return { x: best.x, y: best.y, rotated: best.rotated };
+  }
+
+  private fitAt(index: number, width: number, height: number): number | null {
+    const x = this.skyline[index].x;
+    if (x + width > this.width) return null;
+
+    let remaining = width;
+    let y = 0;
+    for (let i = index; remaining > 0; i++) {
+      if (i >= this.skyline.length) return null;
+      y = Math.max(y, this.skyline[i].y);
+      if (y + height > this.height) return null;
+      remaining -= this.skyline[i].width;
+    }
+
+    return y;
+  }
+
+  private addSegment(index: number, x: number, y: number, width: number) {
+    this.skyline.splice(index, 0, { x, y, width });
+
+    // Shrink or remove the segments now covered by the new one
+    for (let i = index + 1; i < this.skyline.length; i++) {
+      const segment = this.skyline[i];
+      const previous = this.skyline[i - 1];
+      const overlap = previous.x + previous.width - segment.x;
+      if (overlap <= 0) break;
+
+      segment.x += overlap;
+      segment.width -= overlap;
+      if (segment.width <= 0) {
+        this.skyline.splice(i, 1);
+        i--;
+      } else {
+        break;
+      }
+    }
+
+    // Merge neighbouring segments at the same height
+    for (let i = 0; i < this.skyline.length - 1; i++) {
+      if (this.skyline[i].y === this.skyline[i + 1].y) {
+        this.skyline[i].width += this.skyline[i + 1].width;
+        this.skyline.splice(i + 1, 1);
+        i--;
+      }
+    }
+  }
+}
+
+export class AtlasPacker {
+  pack(tiles: TileData[], settings: PackSettings): PackedPage[] {
+    const { maxSize, padding, extrude, allowRotation } = settings;
+    const border = extrude * 2 + padding;
+
+    for (const tile of tiles) {
+      const { width, height } = tile.canvas;
+      if (width + extrude * 2 > maxSize || height + extrude * 2 > maxSize) {
+        throw new Error(`Tile ${tile.index} (${width}×${height}) does not fit in a ${maxSize}px atlas`);
+      }
+    }
+
+    // Packing large tiles first gives much tighter results
+    let remaining = tiles.slice().sort((a, b) =>
+      Math.max(b.canvas.width, b.canvas.height) - Math.max(a.canvas.width, a.canvas.height)
+      || b.canvas.width * b.canvas.height - a.canvas.width * a.canvas.height
+    );
+    const pages: PackedPage[] = [];
+
+    while (remaining.length > 0) {
+      // Trailing padding may hang off the page edge, so the bin is grown by one padding
+      const bin: PackingBin = settings.algorithm === 'skyline'
+        ? new SkylineBin(maxSize + padding, maxSize + padding)
+        : new MaxRectsBin(maxSize + padding, maxSize + padding);
+      const placements: PackedPlacement[] = [];
+      const leftover: TileData[] = [];
+
+      for (const tile of remaining) {
+        const position = bin.insert(tile.canvas.width + border, tile.canvas.height + border, allowRotation);
+        if (position) {
+          placements.push({
+            tile,
+            x: position.x + extrude,
+            y: position.y + extrude,
+            rotated: position.rotated
+          });
+        } else {
+          leftover.push(tile);
+        }
+      }
+
+      pages.push(this.renderPage(placements, settings));
+      remaining = leftover;
+    }
+
+    return pages;
+  }
+
+  private renderPage(placements: PackedPlacement[], settings: PackSettings): PackedPage {
+    const { extrude, powerOfTwo, maxSize } = settings;
+    let width = 1;
+    let height = 1;
+
+    for (const placement of placements) {
+      const { width: w, height: h } = this.placedSize(placement);
+      width = Math.max(width, placement.x + w + extrude);
+      height = Math.max(height, placement.y + h + extrude);
+    }
+
+    if (powerOfTwo) {
+      width = Math.min(maxSize, this.nextPowerOfTwo(width));
+      height = Math.min(maxSize, this.nextPowerOfTwo(height));
+    }
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingEnabled = false;
+
+    for (const placement of placements) {
+      const frame = placement.rotated ? this.rotateClockwise(placement.tile.canvas) : placement.tile.canvas;
+      ctx.drawImage(frame, placement.x, placement.y);
+      if (extrude > 0) {
+        this.extrudeEdges(ctx, frame, placement.x, placement.y, extrude);
+      }
+    }
+
+    return { canvas, width, height, placements };
+  }
+
+  private placedSize(placement: PackedPlacement): { width: number; height: number } {
+    const { width, height } = placement.tile.canvas;
+    return placement.rotated ? { width: height, height: width } : { width, height };
+  }
+
+  private rotateClockwise(source: TileImage): HTMLCanvasElement {
+    const canvas = createCanvas(source.height, source.width);
+    const ctx = canvas.getContext('2d')!;
+    ctx.translate(source.height, 0);
+    ctx.rotate(Math.PI / 2);
+    ctx.drawImage(source, 0, 0);
+    return canvas;
+  }
+
+  private extrudeEdges(ctx: CanvasRenderingContext2D, frame: TileImage, x: number, y: number, extrude: number) {
+    const { width: w, height: h } = frame;
+
+    // Stretch the outermost row/column of pixels outward
+    ctx.drawImage(frame, 0, 0, w, 1, x, y - extrude, w, extrude);
+    ctx.drawImage(frame, 0, h - 1, w, 1, x, y + h, w, extrude);
+    ctx.drawImage(frame, 0, 0, 1, h, x - extrude, y, extrude, h);
+    ctx.drawImage(frame, w - 1, 0, 1, h, x + w, y, extrude, h);
+
+    // Corners repeat the corner pixel
+    ctx.drawImage(frame, 0, 0, 1, 1, x - extrude, y - extrude, extrude, extrude);
+    ctx.drawImage(frame, w - 1, 0, 1, 1, x + w, y - extrude, extrude, extrude);
+    ctx.drawImage(frame, 0, h - 1, 1, 1, x - extrude, y + h, extrude, extrude);
+    ctx.drawImage(frame, w - 1, h - 1, 1, 1, x + w, y + h, extrude, extrude);
+  }
+
+  private nextPowerOfTwo(value: number): number {
+    let power = 1;
+    while (power < value) power *= 2;
+    return power;
+  }
+}
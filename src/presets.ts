@@ -0,0 +1,162 @@
+import type { AtlasFormat, AtlasSource, EdgeMode, ExportSettings, PackSettings, ScaleFilter, SettingsPreset, SliceMode, TileSettings } from './types';
+
+const DB_NAME = 'sprite-slicer';
+const DB_VERSION = 1;
+const STORE_NAME = 'presets';
+
+// Built-ins only describe a layout, so applying one keeps the rest of the current settings
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  {
+    name: 'RPG Maker MV/MZ (48px)',
+    tile: { sliceMode: 'grid', tileWidth: 48, tileHeight: 48, margin: 0, spacing: 0, offsetX: 0, offsetY: 0 }
+  },
+  {
+    name: 'RPG Maker VX Ace (32px)',
+    tile: { sliceMode: 'grid', tileWidth: 32, tileHeight: 32, margin: 0, spacing: 0, offsetX: 0, offsetY: 0 }
+  },
+  {
+    name: 'Kenney 16px with 1px spacing',
+    tile: { sliceMode: 'grid', tileWidth: 16, tileHeight: 16, margin: 0, spacing: 1, offsetX: 0, offsetY: 0 }
+  },
+  {
+    name: 'LPC character (64px)',
+    tile: { sliceMode: 'grid', tileWidth: 64, tileHeight: 64, margin: 0, spacing: 0, offsetX: 0, offsetY: 0 }
+  },
+  {
+    name: 'Pixel art 16px',
+    tile: { sliceMode: 'grid', tileWidth: 16, tileHeight: 16, margin: 0, spacing: 0, offsetX: 0, offsetY: 0 }
+  },
+  {
+    name: 'Irregular sprites (islands)',
+    tile: { sliceMode: 'islands', alphaThreshold: 0, mergeDistance: 0, trimTransparent: false }
+  }
+];
+
+// Settings that are string unions, with every value they may take
+const SETTING_CHOICES: Record<string, readonly string[]> = {
+  sliceMode: ['grid', 'islands'] satisfies SliceMode[],
+  edgeMode: ['none', 'extrude', 'bleed'] satisfies EdgeMode[],
+  namingPattern: ['row_col', 'index', 'custom', 'template'] satisfies Array<ExportSettings['namingPattern']>,
+  scaleFilter: ['nearest', 'scale2x', 'hqx'] satisfies ScaleFilter[],
+  atlasFormat: ['none', 'json-hash', 'json-array', 'both'] satisfies AtlasFormat[],
+  atlasSource: ['sheet', 'packed'] satisfies AtlasSource[],
+  algorithm: ['maxrects', 'skyline'] satisfies Array<PackSettings['algorithm']>
+};
+
+// Element type of list settings, for when the reference list is empty
+const LIST_ITEM_TYPES: Record<string, string> = {
+  scales: 'number',
+  targets: 'string'
+};
+
+// Keeps only keys of `reference` whose values have the same type, lists whose items have the expected type
+// and union settings set to one of their values, so hand-edited files can't inject junk
+export function pickKnownSettings<T extends object>(values: Record<string, unknown>, reference: T): Partial<T> {
+  const picked: Partial<T> = {};
+  for (const key of Object.keys(reference) as Array<keyof T>) {
+    const value = values[key as string];
+    const expected = reference[key];
+    if (value === undefined || typeof value !== typeof expected || Array.isArray(value) !== Array.isArray(expected)) continue;
+    if (typeof value === 'string' && SETTING_CHOICES[key as string] && !SETTING_CHOICES[key as string].includes(value)) continue;
+    if (Array.isArray(value)) {
+      const itemType = LIST_ITEM_TYPES[key as string] ?? typeof (expected as unknown[])[0];
+      if (!value.every(item => typeof item === itemType)) continue;
+    }
+
+    // Nested groups like pack settings are checked key by key as well
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      picked[key] = pickKnownSettings(value as Record<string, unknown>, reference[key] as object) as T[keyof T];
+    } else {
+      picked[key] = value as T[keyof T];
+    }
+  }
+  return picked;
+}
+
+interface PresetFile {
+  app: 'sprite-slicer';
+  version: number;
+  presets: SettingsPreset[];
+}
+
+export class PresetStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async list(): Promise<SettingsPreset[]> {
+    const presets = await this.request<SettingsPreset[]>('readonly', store => store.getAll());
+    return presets.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async save(preset: SettingsPreset): Promise<void> {
+    if (this.isBuiltIn(preset.name)) {
+      throw new Error(`"${preset.name}" is a built-in preset`);
+    }
+    await this.request('readwrite', store => store.put(preset));
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(name));
+  }
+
+  isBuiltIn(name: string): boolean {
+    return BUILT_IN_PRESETS.some(preset => preset.name === name);
+  }
+
+  toJson(presets: SettingsPreset[]): string {
+    const file: PresetFile = { app: 'sprite-slicer', version: 1, presets };
+    return JSON.stringify(file, null, 2);
+  }
+
+  parseJson(text: string, reference: { tile: TileSettings; export: ExportSettings }): SettingsPreset[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Preset file is not valid JSON');
+    }
+
+    const presets = Array.isArray(data) ? data : (data as Partial<PresetFile>)?.presets;
+    if (!Array.isArray(presets)) {
+      throw new Error('Preset file has no "presets" list');
+    }
+
+    return presets.map((preset, i) => {
+      if (typeof preset?.name !== 'string' || !preset.name.trim()) {
+        throw new Error(`Preset ${i + 1} has no name`);
+      }
+      if (typeof preset.tile !== 'object' || preset.tile === null) {
+        throw new Error(`Preset "${preset.name}" has no tile settings`);
+      }
+
+      const parsed: SettingsPreset = {
+        name: this.isBuiltIn(preset.name) ? `${preset.name} (imported)` : preset.name.trim(),
+        tile: pickKnownSettings(preset.tile, reference.tile)
+      };
+      if (typeof preset.export === 'object' && preset.export !== null) {
+        parsed.export = pickKnownSettings(preset.export, reference.export);
+      }
+      return parsed;
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'name' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open preset storage'));
+    });
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error ?? new Error('Preset storage request failed'));
+    });
+  }
+}
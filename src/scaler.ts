@@ -0,0 +1,230 @@
+import type { ScaleFilter, SheetSource, TileImage } from './types';
+import { createCanvas } from './canvas';
+import { EdgePadder } from './edges';
+
+const MAX_SCALE = 8;
+
+const FILTER_LABELS: Record<ScaleFilter, string> = {
+  nearest: 'Nearest neighbor',
+  scale2x: 'Scale2x/EPX',
+  hqx: 'hqx-style'
+};
+
+// Neighbourhood of a pixel E, as byte offsets into the source data:
+// A B C
+// D E F
+// G H I
+interface Neighbours {
+  A: number; B: number; C: number;
+  D: number; E: number; F: number;
+  G: number; H: number; I: number;
+}
+
+export class TileScaler {
+  private edgePadder = new EdgePadder();
+
+  validate(scales: number[], filter: ScaleFilter): string[] {
+    const errors: string[] = [];
+    if (scales.length === 0) errors.push('Choose at least one export scale');
+
+    for (const scale of scales) {
+      if (!Number.isFinite(scale) || scale <= 0 || scale > MAX_SCALE) {
+        errors.push(`Scale ${scale}x must be above 0 and at most ${MAX_SCALE}x`);
+      } else if (filter !== 'nearest' && scale > 1 && ![2, 3, 4].includes(scale)) {
+        errors.push(`${FILTER_LABELS[filter]} only scales up by 2x, 3x or 4x (got ${scale}x)`);
+      }
+    }
+    return errors;
+  }
+
+  // Upscales use `filter`; downscales always average the covered source area
+  scale(image: TileImage | SheetSource, scale: number, filter: ScaleFilter): HTMLCanvasElement {
+    const source = this.readPixels(image);
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d')!;
+    if (source.width === 0 || source.height === 0) return canvas;
+
+    let result: ImageData;
+    if (scale < 1) {
+      result = this.downscale(ctx, source, width, height);
+    } else if (scale === 1 || filter === 'nearest') {
+      result = this.nearest(ctx, source, width, height);
+    } else if (scale === 4) {
+      // 4x is two 2x passes, as in the reference Scale4x
+      result = this.pixelArt(ctx, this.pixelArt(ctx, source, 2, filter === 'hqx'), 2, filter === 'hqx');
+    } else {
+      result = this.pixelArt(ctx, source, scale as 2 | 3, filter === 'hqx');
+    }
+
+    ctx.putImageData(result, 0, 0);
+    return canvas;
+  }
+
+  // Keeps an extruded or bled border `inset` px wide at every scale, as meta.json records it: the scaled
+  // border is cut back to that width, and after a downscale the content's edge is repeated to fill it
+  scaleWithBorder(image: TileImage, inset: number, scale: number, filter: ScaleFilter): HTMLCanvasElement {
+    const scaled = this.scale(image, scale, filter);
+    if (inset === 0) return scaled;
+
+    const border = Math.min(
+      Math.round(inset * scale),
+      Math.floor((scaled.width - 1) / 2),
+      Math.floor((scaled.height - 1) / 2)
+    );
+    const keep = Math.min(border, inset);
+    const cut = border - keep;
+    const pixels = scaled.getContext('2d')!.getImageData(cut, cut, scaled.width - cut * 2, scaled.height - cut * 2);
+    const padded = this.edgePadder.pad(pixels, inset - keep);
+
+    const canvas = createCanvas(padded.width, padded.height);
+    const ctx = canvas.getContext('2d')!;
+    const output = ctx.createImageData(padded.width, padded.height);
+    output.data.set(padded.data);
+    ctx.putImageData(output, 0, 0);
+    return canvas;
+  }
+
+  private readPixels(image: TileImage | SheetSource): ImageData {
+    const canvas = createCanvas(Math.max(1, image.width), Math.max(1, image.height));
+    const ctx = canvas.getContext('2d')!;
+    if (image.width === 0 || image.height === 0) return ctx.createImageData(canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0);
+    return ctx.getImageData(0, 0, image.width, image.height);
+  }
+
+  private nearest(ctx: CanvasRenderingContext2D, source: ImageData, width: number, height: number): ImageData {
+    const result = ctx.createImageData(width, height);
+    for (let y = 0; y < height; y++) {
+      const sourceY = Math.min(source.height - 1, Math.floor((y * source.height) / height));
+      for (let x = 0; x < width; x++) {
+        const sourceX = Math.min(source.width - 1, Math.floor((x * source.width) / width));
+        const from = (sourceY * source.width + sourceX) * 4;
+        result.data.set(source.data.subarray(from, from + 4), (y * width + x) * 4);
+      }
+    }
+    return result;
+  }
+
+  // Box filter weighted by coverage and alpha, so transparent pixels don't darken the edges they blend into
+  private downscale(ctx: CanvasRenderingContext2D, source: ImageData, width: number, height: number): ImageData {
+    const result = ctx.createImageData(width, height);
+    const scaleX = source.width / width;
+    const scaleY = source.height / height;
+
+    for (let y = 0; y < height; y++) {
+      const top = y * scaleY;
+      const bottom = top + scaleY;
+      for (let x = 0; x < width; x++) {
+        const left = x * scaleX;
+        const right = left + scaleX;
+        let r = 0, g = 0, b = 0, a = 0, area = 0;
+
+        for (let sy = Math.floor(top); sy < Math.min(source.height, Math.ceil(bottom)); sy++) {
+          const coverY = Math.min(sy + 1, bottom) - Math.max(sy, top);
+          for (let sx = Math.floor(left); sx < Math.min(source.width, Math.ceil(right)); sx++) {
+            const weight = coverY * (Math.min(sx + 1, right) - Math.max(sx, left));
+            const i = (sy * source.width + sx) * 4;
+            const alpha = source.data[i + 3] * weight;
+            r += source.data[i] * alpha;
+            g += source.data[i + 1] * alpha;
+            b += source.data[i + 2] * alpha;
+            a += alpha;
+            area += weight;
+          }
+        }
+
+        const out = (y * width + x) * 4;
+        if (a > 0) {
+          result.data[out] = Math.round(r / a);
+          result.data[out + 1] = Math.round(g / a);
+          result.data[out + 2] = Math.round(b / a);
+          result.data[out + 3] = Math.round(a / area);
+        }
+      }
+    }
+    return result;
+  }
+
+  // Scale2x/Scale3x (EPX); the hqx-style variant matches colors by perceived difference and blends the
+  // corners it fills instead of copying the neighbour outright
+  private pixelArt(ctx: CanvasRenderingContext2D, source: ImageData, factor: 2 | 3, smooth: boolean): ImageData {
+    const { width, height, data } = source;
+    const result = ctx.createImageData(width * factor, height * factor);
+    const same = smooth
+      ? (a: number, b: number) => this.isSimilar(data, a, b)
+      : (a: number, b: number) => this.isEqual(data, a, b);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const at = (dx: number, dy: number) => {
+          const nx = Math.min(width - 1, Math.max(0, x + dx));
+          const ny = Math.min(height - 1, Math.max(0, y + dy));
+          return (ny * width + nx) * 4;
+        };
+        const n: Neighbours = {
+          A: at(-1, -1), B: at(0, -1), C: at(1, -1),
+          D: at(-1, 0), E: at(0, 0), F: at(1, 0),
+          G: at(-1, 1), H: at(0, 1), I: at(1, 1)
+        };
+        const picks = factor === 2 ? this.scale2x(n, same) : this.scale3x(n, same);
+
+        picks.forEach((from, i) => {
+          const out = ((y * factor + Math.floor(i / factor)) * width * factor + x * factor + (i % factor)) * 4;
+          for (let c = 0; c < 4; c++) {
+            result.data[out + c] = smooth && from !== n.E
+              ? Math.round((data[from + c] * 3 + data[n.E + c]) / 4)
+              : data[from + c];
+          }
+        });
+      }
+    }
+    return result;
+  }
+
+  private scale2x(n: Neighbours, same: (a: number, b: number) => boolean): number[] {
+    const { B, D, E, F, H } = n;
+    if (same(B, H) || same(D, F)) return [E, E, E, E];
+    return [
+      same(D, B) ? D : E, same(B, F) ? F : E,
+      same(D, H) ? D : E, same(H, F) ? F : E
+    ];
+  }
+
+  private scale3x(n: Neighbours, same: (a: number, b: number) => boolean): number[] {
+    const { A, B, C, D, E, F, G, H, I } = n;
+    if (same(B, H) || same(D, F)) return [E, E, E, E, E, E, E, E, E];
+    const db = same(D, B), bf = same(B, F), dh = same(D, H), hf = same(H, F);
+    return [
+      db ? D : E,
+      (db && !same(E, C)) || (bf && !same(E, A)) ? B : E,
+      bf ? F : E,
+      (db && !same(E, G)) || (dh && !same(E, A)) ? D : E,
+      E,
+      (bf && !same(E, I)) || (hf && !same(E, C)) ? F : E,
+      dh ? D : E,
+      (dh && !same(E, I)) || (hf && !same(E, G)) ? H : E,
+      hf ? F : E
+    ];
+  }
+
+  // Fully transparent pixels are equal whatever their color channels hold
+  private isEqual(data: Uint8ClampedArray, a: number, b: number): boolean {
+    if (data[a + 3] === 0 && data[b + 3] === 0) return true;
+    return data[a] === data[b] && data[a + 1] === data[b + 1] && data[a + 2] === data[b + 2] && data[a + 3] === data[b + 3];
+  }
+
+  // hqx's YUV thresholds, plus a limit on alpha so sprite edges stay distinct from the background
+  private isSimilar(data: Uint8ClampedArray, a: number, b: number): boolean {
+    if (data[a + 3] === 0 && data[b + 3] === 0) return true;
+    if (Math.abs(data[a + 3] - data[b + 3]) > 16) return false;
+
+    const r = data[a] - data[b];
+    const g = data[a + 1] - data[b + 1];
+    const bl = data[a + 2] - data[b + 2];
+    return Math.abs(0.299 * r + 0.587 * g + 0.114 * bl) <= 48
+      && Math.abs(-0.169 * r - 0.331 * g + 0.5 * bl) <= 7
+      && Math.abs(0.5 * r - 0.419 * g - 0.081 * bl) <= 6;
+  }
+}
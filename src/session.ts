@@ -0,0 +1,115 @@
+import JSZip from 'jszip';
+import type { ExportSettings, ImageMetadata, Pivot, RestoredSession, SpriteAnimation, TileAnnotations, TileSettings } from './types';
+import { pickKnownSettings } from './presets';
+import { TileAnnotator } from './annotations';
+
+interface SavedTile {
+  index: number;
+  name?: string;
+  tags?: string[];
+  pivot?: unknown;
+  hitboxes?: unknown;
+}
+
+export class SessionImporter {
+  private annotator = new TileAnnotator();
+
+  isSessionFile(file: File): boolean {
+    return /\.(json|zip)$/i.test(file.name);
+  }
+
+  // Accepts a meta.json or a whole output ZIP; batch ZIPs restore the first sheet
+  async readSession(file: File, reference: { tile: TileSettings; export: ExportSettings }): Promise<RestoredSession> {
+    if (!/\.zip$/i.test(file.name)) {
+      return this.parseMeta(await file.text(), reference);
+    }
+
+    const zip = await JSZip.loadAsync(file);
+    const metaPath = Object.keys(zip.files)
+      .filter(path => path === 'meta.json' || path.endsWith('/meta.json'))
+      .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))[0];
+    if (!metaPath) {
+      throw new Error('ZIP contains no meta.json');
+    }
+    return this.parseMeta(await zip.file(metaPath)!.async('string'), reference);
+  }
+
+  parseMeta(text: string, reference: { tile: TileSettings; export: ExportSettings }): RestoredSession {
+    let meta: Record<string, unknown>;
+    try {
+      meta = JSON.parse(text);
+    } catch {
+      throw new Error('meta.json is not valid JSON');
+    }
+
+    if (typeof meta?.settings !== 'object' || meta.settings === null) {
+      throw new Error('meta.json has no tile settings');
+    }
+
+    const source = meta.source as Record<string, unknown> | undefined;
+    const tile = pickKnownSettings(meta.settings as Record<string, unknown>, reference.tile);
+    return {
+      tile,
+      export: typeof meta.export === 'object' && meta.export !== null
+        ? pickKnownSettings(meta.export as Record<string, unknown>, reference.export)
+        : {},
+      annotations: this.readAnnotations(meta.tiles, meta.reuse, meta.excluded, this.annotator.getDefaultPivot({ ...reference.tile, ...tile })),
+      animations: this.readAnimations(meta.animations),
+      source: typeof source?.width === 'number' && typeof source?.height === 'number'
+        ? { name: typeof source.name === 'string' ? source.name : '', width: source.width, height: source.height }
+        : null
+    };
+  }
+
+  // Tile indices follow the grid, so a resized sheet would shift every name and exclusion
+  checkSource(session: RestoredSession, metadata: ImageMetadata): string | null {
+    if (!session.source) return null;
+    const { width, height } = session.source;
+    if (width === metadata.width && height === metadata.height) return null;
+    return `Source was ${width}×${height}px but the current image is ${metadata.width}×${metadata.height}px; check tile names and exclusions`;
+  }
+
+  // meta.json writes every tile's pivot, so only pivots that differ from the default become overrides
+  private readAnnotations(tiles: unknown, reuse: unknown, excluded: unknown, defaultPivot: Pivot): TileAnnotations {
+    const annotations: TileAnnotations = {};
+    const add = (tile: SavedTile, isExcluded: boolean) => {
+      if (typeof tile?.index !== 'number') return;
+      const name = typeof tile.name === 'string' ? tile.name : '';
+      const tags = Array.isArray(tile.tags) ? tile.tags.filter(tag => typeof tag === 'string') : [];
+      const pivot = this.annotator.readPivot(tile.pivot);
+      const hitboxes = this.annotator.readHitboxes(tile.hitboxes);
+      const hasPivot = pivot !== null && !this.annotator.samePivot(pivot, defaultPivot);
+      if (isExcluded || name || tags.length > 0 || hasPivot || hitboxes.length > 0) {
+        annotations[tile.index] = {
+          excluded: isExcluded,
+          name,
+          tags,
+          ...(hasPivot ? { pivot } : {}),
+          ...(hitboxes.length > 0 ? { hitboxes } : {})
+        };
+      }
+    };
+
+    if (Array.isArray(tiles)) tiles.forEach(tile => add(tile, false));
+    if (Array.isArray(reuse)) reuse.forEach(tile => add(tile, false));
+    if (Array.isArray(excluded)) excluded.forEach(tile => add(tile, true));
+    return annotations;
+  }
+
+  private readAnimations(animations: unknown): SpriteAnimation[] {
+    if (!Array.isArray(animations)) return [];
+
+    return animations
+      .filter(animation => typeof animation?.name === 'string' && Array.isArray(animation.frames))
+      .map(animation => ({
+        name: animation.name,
+        frames: (animation.frames as Array<{ index?: unknown; duration?: unknown }>)
+          .filter(frame => typeof frame?.index === 'number')
+          .map(frame => ({
+            index: frame.index as number,
+            duration: typeof frame.duration === 'number' ? frame.duration : 100
+          }))
+      }))
+      .filter(animation => animation.frames.length > 0);
+  }
+}
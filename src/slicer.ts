@@ -1,68 +1,249 @@
-import type { TileSettings, TileData, GridInfo, ExportProgress } from './types';
+import type { TileSettings, TileData, TileRect, Rect, ExportProgress, SheetSource, TileAnnotations, WorkerTile } from './types';
+import { WorkerPool } from './workerPool';
+import { createCanvas } from './canvas';
+import { TileDeduplicator } from './dedupe';
+import { EdgePadder, type BleedSource } from './edges';
+import { TileAnnotator } from './annotations';
 
 export class SpriteSlicer {
-  constructor() {
-    // No instance variables needed
-  }
+  private workerPool = WorkerPool.getShared();
+  private deduplicator = new TileDeduplicator();
+  private edgePadder = new EdgePadder();
+  private annotator = new TileAnnotator();
+  // Chunks finished before a cancel, reused when the same sheet is sliced again with the same settings
+  private resumable: { image: SheetSource; settings: string; chunks: Map<string, WorkerTile[]> } | null = null;
 
   async sliceSprite(
-    image: HTMLImageElement,
+    image: SheetSource,
     settings: TileSettings,
-    gridInfo: GridInfo,
-    onProgress?: (progress: ExportProgress) => void
+    rects: TileRect[],
+    annotations: TileAnnotations = {},
+    onProgress?: (progress: ExportProgress) => void,
+    signal?: AbortSignal
+  ): Promise<TileData[]> {
+    const tiles = this.workerPool
+      ? await this.sliceInWorkers(this.workerPool, image, settings, rects, onProgress, signal)
+      : await this.sliceOnMainThread(image, settings, rects, onProgress, signal);
+
+    for (const tile of tiles) {
+      const annotation = annotations[tile.index];
+      if (annotation) {
+        tile.excluded = annotation.excluded;
+        tile.name = annotation.name;
+        tile.tags = [...annotation.tags];
+        if (annotation.pivot) tile.pivot = { ...annotation.pivot };
+        if (annotation.hitboxes) tile.hitboxes = annotation.hitboxes.map(box => ({ ...box }));
+      }
+    }
+
+    // Excluded and failed tiles can't stand in for others, so they take no part in matching
+    if (settings.dedupe) {
+      const candidates = tiles.filter(tile => !tile.excluded && !tile.error);
+      const groups = new Map(candidates.map(tile => [tile.index, this.deduplicator.getGroupKey(tile)]));
+      const duplicates = this.deduplicator.findDuplicates(image, candidates.map(tile => tile.sourceRect), settings, groups);
+      for (const tile of candidates) {
+        const reuse = duplicates.get(tile.index);
+        if (reuse) tile.duplicateOf = reuse;
+      }
+    }
+
+    return tiles;
+  }
+
+  private async sliceInWorkers(
+    pool: WorkerPool,
+    image: SheetSource,
+    settings: TileSettings,
+    rects: TileRect[],
+    onProgress?: (progress: ExportProgress) => void,
+    signal?: AbortSignal
+  ): Promise<TileData[]> {
+    const total = rects.length;
+    const startTime = Date.now();
+
+    // Several chunks per worker keep the pool busy and progress smooth
+    const chunkSize = Math.max(1, Math.ceil(total / (pool.size * 4)));
+    const chunks: TileRect[][] = [];
+    for (let i = 0; i < total; i += chunkSize) {
+      chunks.push(rects.slice(i, i + chunkSize));
+    }
+    const chunkProgress = chunks.map(() => 0);
+    // Bleed reads pixels around each tile, so the crops reach that far past the tiles
+    const inset = this.edgePadder.getInset(settings);
+    const reach = settings.edgeMode === 'bleed' ? inset : 0;
+
+    const settingsKey = JSON.stringify(settings);
+    if (this.resumable?.image !== image || this.resumable.settings !== settingsKey) {
+      this.discardResumable();
+      this.resumable = { image, settings: settingsKey, chunks: new Map() };
+    }
+    const resumable = this.resumable;
+
+    const reportProgress = () => {
+      if (!onProgress) return;
+      const current = chunkProgress.reduce((sum, done) => sum + done, 0);
+      const elapsed = Date.now() - startTime;
+      const eta = elapsed > 0 && current > 0 ? (elapsed / current) * (total - current) : 0;
+
+      onProgress({
+        current,
+        total,
+        percentage: (current / total) * 100,
+        eta
+      });
+    };
+
+    const results = await Promise.all(chunks.map(async (chunk, c) => {
+      // Each worker only receives the part of the sheet its tiles cover
+      const left = Math.max(0, Math.min(...chunk.map(rect => rect.x)) - reach);
+      const top = Math.max(0, Math.min(...chunk.map(rect => rect.y)) - reach);
+      const right = Math.min(image.width, Math.max(...chunk.map(rect => rect.x + rect.width)) + reach);
+      const bottom = Math.min(image.height, Math.max(...chunk.map(rect => rect.y + rect.height)) + reach);
+
+      try {
+        const chunkKey = chunk.map(rect => `${rect.index}:${rect.x},${rect.y},${rect.width},${rect.height}`).join(';');
+        let workerTiles = resumable.chunks.get(chunkKey);
+        if (workerTiles) {
+          chunkProgress[c] = chunk.length;
+          reportProgress();
+        } else {
+          signal?.throwIfAborted();
+          const bitmap = await createImageBitmap(image, left, top, Math.max(1, right - left), Math.max(1, bottom - top));
+          const result = await pool.run(
+            { type: 'slice', bitmap, originX: left, originY: top, settings, rects: chunk },
+            [bitmap],
+            done => {
+              chunkProgress[c] = done;
+              reportProgress();
+            },
+            signal
+          );
+          if (result.type !== 'sliced') throw new Error('Unexpected response from export worker');
+          workerTiles = result.tiles;
+          resumable.chunks.set(chunkKey, workerTiles);
+        }
+
+        return workerTiles.map((tile, i): TileData => tile.bitmap && tile.png
+          ? {
+            canvas: tile.bitmap,
+            png: tile.png,
+            row: chunk[i].row,
+            col: chunk[i].col,
+            index: chunk[i].index,
+            isEmpty: tile.isEmpty,
+            excluded: false,
+            name: '',
+            tags: [],
+            sourceRect: chunk[i],
+            trimRect: tile.trimRect,
+            pivot: this.annotator.getDefaultPivot(settings),
+            hitboxes: [],
+            inset
+          }
+          : this.createFailedTile(chunk[i], settings, tile.error ?? 'Unknown error'));
+      } catch (error) {
+        // A crashed worker fails its chunk, a cancel stops the whole export
+        if (signal?.aborted) throw error;
+        return chunk.map(rect => this.createFailedTile(rect, settings, (error as Error).message));
+      }
+    }));
+
+    // The bitmaps now belong to the returned tiles
+    if (this.resumable === resumable) this.resumable = null;
+    return results.flat();
+  }
+
+  // Worker tiles hold ImageBitmaps, which keep their memory until closed
+  releaseTiles(tiles: TileData[]) {
+    for (const tile of tiles) {
+      if ('close' in tile.canvas) tile.canvas.close();
+    }
+  }
+
+  private discardResumable() {
+    for (const tiles of this.resumable?.chunks.values() ?? []) {
+      for (const tile of tiles) tile.bitmap?.close();
+    }
+    this.resumable = null;
+  }
+
+  // Fallback for browsers without OffscreenCanvas in workers
+  private async sliceOnMainThread(
+    image: SheetSource,
+    settings: TileSettings,
+    rects: TileRect[],
+    onProgress?: (progress: ExportProgress) => void,
+    signal?: AbortSignal
   ): Promise<TileData[]> {
     const tiles: TileData[] = [];
-    const { rows, cols } = gridInfo;
-    const total = rows * cols;
+    const total = rects.length;
     let current = 0;
     const startTime = Date.now();
 
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const tile = this.extractTile(image, settings, row, col);
-        tiles.push(tile);
-        current++;
-
-        if (onProgress) {
-          const elapsed = Date.now() - startTime;
-          const eta = elapsed > 0 ? (elapsed / current) * (total - current) : 0;
-          
-          onProgress({
-            current,
-            total,
-            percentage: (current / total) * 100,
-            eta
-          });
-        }
+    for (const rect of rects) {
+      signal?.throwIfAborted();
 
-        // Yield control to prevent blocking
-        if (current % 10 === 0) {
-          await new Promise(resolve => setTimeout(resolve, 0));
-        }
+      try {
+        tiles.push(this.extractTile(image, settings, rect));
+      } catch (error) {
+        tiles.push(this.createFailedTile(rect, settings, (error as Error).message));
+      }
+      current++;
+
+      if (onProgress) {
+        const elapsed = Date.now() - startTime;
+        const eta = elapsed > 0 ? (elapsed / current) * (total - current) : 0;
+        
+        onProgress({
+          current,
+          total,
+          percentage: (current / total) * 100,
+          eta
+        });
+      }
+
+      // Yield control to prevent blocking
+      if (current % 10 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
       }
     }
 
     return tiles;
   }
 
+  // Failed tiles stay in the list so the export can report them
+  private createFailedTile(rect: TileRect, settings: TileSettings, message: string): TileData {
+    const canvas = createCanvas(1, 1);
+
+    return {
+      canvas,
+      row: rect.row,
+      col: rect.col,
+      index: rect.index,
+      isEmpty: true,
+      excluded: false,
+      name: '',
+      tags: [],
+      sourceRect: rect,
+      trimRect: { x: 0, y: 0, width: 1, height: 1 },
+      pivot: this.annotator.getDefaultPivot(settings),
+      hitboxes: [],
+      error: message
+    };
+  }
+
   private extractTile(
-    image: HTMLImageElement,
+    image: SheetSource,
     settings: TileSettings,
-    row: number,
-    col: number
+    rect: TileRect
   ): TileData {
-    const { tileWidth, tileHeight, margin, spacing, offsetX, offsetY, trimTransparent, preservePadding } = settings;
-    
-    const sourceX = margin + offsetX + col * (tileWidth + spacing);
-    const sourceY = margin + offsetY + row * (tileHeight + spacing);
+    const { trimTransparent, preservePadding } = settings;
+    const { x: sourceX, y: sourceY, width: tileWidth, height: tileHeight } = rect;
 
     // Create canvas for this tile
-    const tileCanvas = document.createElement('canvas');
+    const tileCanvas = createCanvas(tileWidth, tileHeight);
     const tileCtx = tileCanvas.getContext('2d')!;
     
-    tileCanvas.width = tileWidth;
-    tileCanvas.height = tileHeight;
-    
     // Draw the tile
     tileCtx.drawImage(
       image,
@@ -71,26 +252,76 @@ export class SpriteSlicer {
     );
 
     let finalCanvas = tileCanvas;
+    let trimRect: Rect = { x: 0, y: 0, width: tileWidth, height: tileHeight };
     let isEmpty = false;
 
     if (trimTransparent) {
       const trimResult = this.trimTransparentEdges(tileCanvas, preservePadding);
       finalCanvas = trimResult.canvas;
+      trimRect = trimResult.bounds;
       isEmpty = trimResult.isEmpty;
     } else {
       isEmpty = this.isCanvasEmpty(tileCanvas);
     }
 
+    const inset = this.edgePadder.getInset(settings);
+    if (inset > 0) {
+      finalCanvas = this.addEdges(image, finalCanvas, rect, trimRect, settings, inset);
+    }
+
     return {
       canvas: finalCanvas,
-      row,
-      col,
-      index: row * (settings.tileWidth > 0 ? Math.floor((image.width - settings.margin * 2 - settings.offsetX + settings.spacing) / (settings.tileWidth + settings.spacing)) : 1) + col,
-      isEmpty
+      row: rect.row,
+      col: rect.col,
+      index: rect.index,
+      isEmpty,
+      excluded: false,
+      name: '',
+      tags: [],
+      sourceRect: rect,
+      trimRect,
+      pivot: this.annotator.getDefaultPivot(settings),
+      hitboxes: [],
+      inset
     };
   }
 
-  private trimTransparentEdges(canvas: HTMLCanvasElement, padding: number): { canvas: HTMLCanvasElement; isEmpty: boolean } {
+  private addEdges(
+    image: SheetSource,
+    content: HTMLCanvasElement,
+    rect: TileRect,
+    trimRect: Rect,
+    settings: TileSettings,
+    inset: number
+  ): HTMLCanvasElement {
+    const pixels = content.getContext('2d')!.getImageData(0, 0, content.width, content.height);
+    let bleed: BleedSource | undefined;
+
+    if (settings.edgeMode === 'bleed') {
+      // Only the content and the ring around it are read, clipped to the sheet
+      const x = rect.x + trimRect.x;
+      const y = rect.y + trimRect.y;
+      const left = Math.max(0, Math.min(image.width - 1, x - inset));
+      const top = Math.max(0, Math.min(image.height - 1, y - inset));
+      const right = Math.max(left + 1, Math.min(image.width, x + content.width + inset));
+      const bottom = Math.max(top + 1, Math.min(image.height, y + content.height + inset));
+
+      const area = createCanvas(right - left, bottom - top);
+      const areaCtx = area.getContext('2d')!;
+      areaCtx.drawImage(image, left, top, area.width, area.height, 0, 0, area.width, area.height);
+      bleed = { sheet: areaCtx.getImageData(0, 0, area.width, area.height), x: x - left, y: y - top };
+    }
+
+    const padded = this.edgePadder.pad(pixels, inset, bleed);
+    const canvas = createCanvas(padded.width, padded.height);
+    const ctx = canvas.getContext('2d')!;
+    const output = ctx.createImageData(padded.width, padded.height);
+    output.data.set(padded.data);
+    ctx.putImageData(output, 0, 0);
+    return canvas;
+  }
+
+  private trimTransparentEdges(canvas: HTMLCanvasElement, padding: number): { canvas: HTMLCanvasElement; bounds: Rect; isEmpty: boolean } {
     const ctx = canvas.getContext('2d')!;
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
     const data = imageData.data;
@@ -115,10 +346,8 @@ export class SpriteSlicer {
 
     // If no non-transparent pixels found
     if (maxX === -1) {
-      const emptyCanvas = document.createElement('canvas');
-      emptyCanvas.width = 1;
-      emptyCanvas.height = 1;
-      return { canvas: emptyCanvas, isEmpty: true };
+      const emptyCanvas = createCanvas(1, 1);
+      return { canvas: emptyCanvas, bounds: { x: 0, y: 0, width: 1, height: 1 }, isEmpty: true };
     }
 
     // Add padding
@@ -130,10 +359,8 @@ export class SpriteSlicer {
     const trimmedWidth = maxX - minX + 1;
     const trimmedHeight = maxY - minY + 1;
 
-    const trimmedCanvas = document.createElement('canvas');
+    const trimmedCanvas = createCanvas(trimmedWidth, trimmedHeight);
     const trimmedCtx = trimmedCanvas.getContext('2d')!;
-    trimmedCanvas.width = trimmedWidth;
-    trimmedCanvas.height = trimmedHeight;
 
     trimmedCtx.drawImage(
       canvas,
@@ -141,7 +368,11 @@ export class SpriteSlicer {
       0, 0, trimmedWidth, trimmedHeight
     );
 
-    return { canvas: trimmedCanvas, isEmpty: false };
+    return {
+      canvas: trimmedCanvas,
+      bounds: { x: minX, y: minY, width: trimmedWidth, height: trimmedHeight },
+      isEmpty: false
+    };
   }
 
   private isCanvasEmpty(canvas: HTMLCanvasElement): boolean {
@@ -158,38 +389,47 @@ export class SpriteSlicer {
   }
 
   createContactSheet(tiles: TileData[], columns: number = 10, backgroundColor: string = '#ffffff'): HTMLCanvasElement {
-    const validTiles = tiles.filter(tile => !tile.isEmpty);
+    const nonEmptyTiles = tiles.filter(tile => !tile.isEmpty);
+    const validTiles = nonEmptyTiles.filter(tile => !tile.duplicateOf);
     if (validTiles.length === 0) {
-      const canvas = document.createElement('canvas');
-      canvas.width = 1;
-      canvas.height = 1;
+      const canvas = createCanvas(1, 1);
       return canvas;
     }
 
-    const maxTileWidth = Math.max(...validTiles.map(tile => tile.canvas.width));
-    const maxTileHeight = Math.max(...validTiles.map(tile => tile.canvas.height));
+    // Size cells by the untrimmed tile so trimmed frames keep their original offsets
+    const maxTileWidth = Math.max(...validTiles.map(tile => tile.sourceRect.width));
+    const maxTileHeight = Math.max(...validTiles.map(tile => tile.sourceRect.height));
     
     const rows = Math.ceil(validTiles.length / columns);
+    // Deduplicated sheets get a caption with the unique and total counts above the tiles
+    const headerHeight = validTiles.length < nonEmptyTiles.length ? 20 : 0;
     const canvasWidth = columns * maxTileWidth;
-    const canvasHeight = rows * maxTileHeight;
+    const canvasHeight = headerHeight + rows * maxTileHeight;
 
-    const contactSheet = document.createElement('canvas');
+    const contactSheet = createCanvas(canvasWidth, canvasHeight);
     const ctx = contactSheet.getContext('2d')!;
-    contactSheet.width = canvasWidth;
-    contactSheet.height = canvasHeight;
 
     // Fill background
     ctx.fillStyle = backgroundColor;
     ctx.fillRect(0, 0, canvasWidth, canvasHeight);
 
+    if (headerHeight > 0) {
+      ctx.fillStyle = '#000000';
+      ctx.font = '12px Arial';
+      ctx.fillText(`${validTiles.length} unique of ${nonEmptyTiles.length} tiles`, 2, 14);
+    }
+
     // Draw tiles
     validTiles.forEach((tile, index) => {
       const col = index % columns;
       const row = Math.floor(index / columns);
       const x = col * maxTileWidth;
-      const y = row * maxTileHeight;
+      const y = headerHeight + row * maxTileHeight;
 
-      ctx.drawImage(tile.canvas, x, y);
+      // Extruded or bled borders are left out, they'd overlap the neighbouring tiles
+      const { x: trimX, y: trimY, width, height } = tile.trimRect;
+      const inset = tile.inset ?? 0;
+      ctx.drawImage(tile.canvas, inset, inset, width, height, x + trimX, y + trimY, width, height);
       
       // Draw tile index
       ctx.fillStyle = '#000000';
@@ -0,0 +1,361 @@
+import type JSZip from 'jszip';
+import type { Pivot, Rect, SpriteAnimation, TileData } from './types';
+
+// Everything a target needs to describe the exported tiles against the original sheet
+export interface TargetContext {
+  // Sanitized sheet name, used for the files a target writes
+  baseName: string;
+  sheet: { png: Uint8Array | Blob; width: number; height: number };
+  // Exported tiles and their filenames, in the same order
+  tiles: TileData[];
+  filenames: string[];
+  // Every sliced tile, so animation frames can point at tiles that weren't exported
+  allTiles: TileData[];
+  animations: SpriteAnimation[];
+}
+
+// Writes one engine's files into its own folder of the export
+export interface ExportTarget {
+  id: string;
+  label: string;
+  write(folder: JSZip, context: TargetContext): void;
+}
+
+// Trimmed tiles only cover their opaque area of the sheet
+function getRegion(tile: TileData): Rect {
+  return {
+    x: tile.sourceRect.x + tile.trimRect.x,
+    y: tile.sourceRect.y + tile.trimRect.y,
+    width: tile.trimRect.width,
+    height: tile.trimRect.height
+  };
+}
+
+function isCentred(pivot: Pivot): boolean {
+  return pivot.x === 0.5 && pivot.y === 0.5;
+}
+
+// Pivot in pixels from the top-left corner of the untrimmed tile
+function getPivotPoint(tile: TileData): { x: number; y: number } {
+  return { x: tile.pivot.x * tile.sourceRect.width, y: tile.pivot.y * tile.sourceRect.height };
+}
+
+function stripExtension(filename: string): string {
+  return filename.replace(/\.png$/i, '');
+}
+
+// FNV-1a over a few seeds gives stable ids, so re-exporting a sheet keeps Unity references intact
+function hashHex(text: string): string {
+  let hex = '';
+  for (let seed = 0; seed < 4; seed++) {
+    let hash = 0x811c9dc5 ^ seed;
+    for (let i = 0; i < text.length; i++) {
+      hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    }
+    hex += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  return hex;
+}
+
+export class GodotTarget implements ExportTarget {
+  id = 'godot';
+  label = 'Godot 4 (SpriteFrames and AtlasTexture .tres)';
+
+  write(folder: JSZip, context: TargetContext) {
+    const { baseName, sheet, tiles, filenames } = context;
+    folder.file(`${baseName}.png`, sheet.png);
+
+    const texturesFolder = folder.folder('textures')!;
+    tiles.forEach((tile, i) => {
+      texturesFolder.file(`${stripExtension(filenames[i])}.tres`, [
+        '[gd_resource type="AtlasTexture" load_steps=2 format=3]',
+        '',
+        `[ext_resource type="Texture2D" path="../${baseName}.png" id="1"]`,
+        '',
+        '[resource]',
+        ...this.atlasTextureProperties(tile),
+        ''
+      ].join('\n'));
+    });
+
+    folder.file(`${baseName}_frames.tres`, this.createSpriteFrames(context));
+  }
+
+  // Without animations every exported tile becomes a frame of "default"
+  private createSpriteFrames(context: TargetContext): string {
+    const tilesByIndex = new Map(context.allTiles.map(tile => [tile.index, tile]));
+    const animations = context.animations.length > 0
+      ? context.animations.map(animation => ({
+        name: animation.name,
+        frames: animation.frames.flatMap(frame => {
+          const tile = tilesByIndex.get(frame.index);
+          return tile ? [{ tile, duration: frame.duration }] : [];
+        })
+      }))
+      : [{ name: 'default', frames: context.tiles.map(tile => ({ tile, duration: 100 })) }];
+
+    const usedTiles = new Map<number, TileData>();
+    for (const animation of animations) {
+      for (const frame of animation.frames) usedTiles.set(frame.tile.index, frame.tile);
+    }
+
+    const lines = [
+      `[gd_resource type="SpriteFrames" load_steps=${usedTiles.size + 2} format=3]`,
+      '',
+      `[ext_resource type="Texture2D" path="${context.baseName}.png" id="1"]`,
+      ''
+    ];
+    for (const tile of usedTiles.values()) {
+      lines.push(`[sub_resource type="AtlasTexture" id="AtlasTexture_${tile.index}"]`, ...this.atlasTextureProperties(tile), '');
+    }
+
+    // Godot durations are multiples of 1 / speed, so a speed of 10 makes 1.0 equal 100 ms
+    const animationBlocks = animations.map(animation => [
+      '{',
+      '"frames": [' + animation.frames.map(frame => [
+        '{',
+        `"duration": ${this.formatFloat(frame.duration / 100)},`,
+        `"texture": SubResource("AtlasTexture_${frame.tile.index}")`,
+        '}'
+      ].join('\n')).join(', ') + '],',
+      '"loop": true,',
+      `"name": &${JSON.stringify(animation.name)},`,
+      '"speed": 10.0',
+      '}'
+    ].join('\n'));
+
+    lines.push('[resource]', `animations = [${animationBlocks.join(', ')}]`, '');
+    return lines.join('\n');
+  }
+
+  private atlasTextureProperties(tile: TileData): string[] {
+    const region = getRegion(tile);
+    const { sourceRect, trimRect } = tile;
+    const properties = [
+      'atlas = ExtResource("1")',
+      `region = Rect2(${region.x}, ${region.y}, ${region.width}, ${region.height})`
+    ];
+
+    // The margin restores the transparent border trimming removed, so the texture keeps the tile size
+    if (trimRect.width !== sourceRect.width || trimRect.height !== sourceRect.height) {
+      properties.push(`margin = Rect2(${trimRect.x}, ${trimRect.y}, ${sourceRect.width - trimRect.width}, ${sourceRect.height - trimRect.height})`);
+    }
+    properties.push('filter_clip = true');
+
+    // Godot centres sprites, so other pivots are kept as metadata in pixels from the tile's top-left corner
+    if (!isCentred(tile.pivot)) {
+      const pivot = getPivotPoint(tile);
+      properties.push(`metadata/pivot = Vector2(${this.formatFloat(pivot.x)}, ${this.formatFloat(pivot.y)})`);
+    }
+    if (tile.hitboxes.length > 0) {
+      const boxes = tile.hitboxes.map(box =>
+        `{"name": ${JSON.stringify(box.name)}, "rect": Rect2(${box.x}, ${box.y}, ${box.width}, ${box.height})}`);
+      properties.push(`metadata/hitboxes = [${boxes.join(', ')}]`);
+    }
+    return properties;
+  }
+
+  private formatFloat(value: number): string {
+    return Number.isInteger(value) ? value.toFixed(1) : value.toString();
+  }
+}
+
+export class UnityTarget implements ExportTarget {
+  id = 'unity';
+  label = 'Unity (sprite mode Multiple .meta)';
+
+  write(folder: JSZip, context: TargetContext) {
+    const { baseName, sheet, tiles, filenames } = context;
+    folder.file(`${baseName}.png`, sheet.png);
+
+    // Unity's sprite file ids, counting up from the legacy base for Sprite objects
+    const sprites = tiles.map((tile, i) => ({
+      tile,
+      name: stripExtension(filenames[i]),
+      internalId: 21300000 + i * 2
+    }));
+
+    const lines = [
+      'fileFormatVersion: 2',
+      `guid: ${hashHex(`${baseName}.png`)}`,
+      'TextureImporter:',
+      '  serializedVersion: 12',
+      '  mipmaps:',
+      '    enableMipMap: 0',
+      '  textureSettings:',
+      '    serializedVersion: 2',
+      '    filterMode: 0',
+      '    wrapU: 1',
+      '    wrapV: 1',
+      '  spriteMode: 2',
+      '  spritePixelsToUnits: 100',
+      '  alphaIsTransparency: 1',
+      '  textureType: 8',
+      '  textureShape: 1',
+      '  spriteSheet:',
+      '    serializedVersion: 2',
+      '    sprites:'
+    ];
+
+    for (const { tile, name, internalId } of sprites) {
+      const region = getRegion(tile);
+      const pivot = this.getPivot(tile);
+      lines.push(
+        '    - serializedVersion: 2',
+        `      name: ${this.quote(name)}`,
+        '      rect:',
+        '        serializedVersion: 2',
+        `        x: ${region.x}`,
+        // Unity measures rects from the bottom of the texture
+        `        y: ${sheet.height - region.y - region.height}`,
+        `        width: ${region.width}`,
+        `        height: ${region.height}`,
+        `      alignment: ${pivot ? 9 : 0}`,
+        `      pivot: {x: ${pivot?.x ?? 0.5}, y: ${pivot?.y ?? 0.5}}`,
+        '      border: {x: 0, y: 0, z: 0, w: 0}',
+        '      outline: []',
+        ...this.getPhysicsShape(tile),
+        '      tessellationDetail: 0',
+        '      bones: []',
+        `      spriteID: ${hashHex(`${baseName}/${name}`)}`,
+        `      internalID: ${internalId}`,
+        '      vertices: []',
+        '      indices: ',
+        '      edges: []',
+        '      weights: []'
+      );
+    }
+
+    lines.push(
+      '    outline: []',
+      '    physicsShape: []',
+      '    bones: []',
+      '    spriteID: ',
+      '    vertices: []',
+      '    indices: ',
+      '    edges: []',
+      '    weights: []',
+      '    secondaryTextures: []',
+      '    nameFileIdTable:',
+      ...sprites.map(({ name, internalId }) => `      ${this.quote(name)}: ${internalId}`),
+      '  spritePackingTag: ',
+      '  userData: ',
+      '  assetBundleName: ',
+      '  assetBundleVariant: ',
+      ''
+    );
+
+    folder.file(`${baseName}.png.meta`, lines.join('\n'));
+  }
+
+  // Unity pivots are relative to the trimmed rect and measured from its bottom, so a trimmed sprite
+  // keeps the pivot's spot on its untrimmed tile; null means the default centre
+  private getPivot(tile: TileData): { x: number; y: number } | null {
+    const { sourceRect, trimRect } = tile;
+    const untrimmed = trimRect.width === sourceRect.width && trimRect.height === sourceRect.height;
+    if (untrimmed && isCentred(tile.pivot)) return null;
+
+    const pivot = getPivotPoint(tile);
+    const bottom = sourceRect.height - trimRect.y - trimRect.height;
+    return {
+      x: this.round((pivot.x - trimRect.x) / trimRect.width),
+      y: this.round((sourceRect.height - pivot.y - bottom) / trimRect.height)
+    };
+  }
+
+  // Hitboxes become the sprite's physics shape, which Unity's 2D colliders pick up; Unity has no names
+  // for them. Points are in pixels from the centre of the sprite rect, y up
+  private getPhysicsShape(tile: TileData): string[] {
+    if (tile.hitboxes.length === 0) return ['      physicsShape: []'];
+
+    const centreX = tile.trimRect.x + tile.trimRect.width / 2;
+    const centreY = tile.trimRect.y + tile.trimRect.height / 2;
+    const point = (x: number, y: number) => `{x: ${this.round(x - centreX)}, y: ${this.round(centreY - y)}}`;
+    const lines = ['      physicsShape:'];
+    for (const box of tile.hitboxes) {
+      const right = box.x + box.width;
+      const bottom = box.y + box.height;
+      lines.push(
+        `      - - ${point(box.x, box.y)}`,
+        `        - ${point(box.x, bottom)}`,
+        `        - ${point(right, bottom)}`,
+        `        - ${point(right, box.y)}`
+      );
+    }
+    return lines;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+}
+
+export class CssTarget implements ExportTarget {
+  id = 'css';
+  label = 'CSS sprites (background-position classes)';
+
+  write(folder: JSZip, context: TargetContext) {
+    const { baseName, sheet, tiles, filenames } = context;
+    folder.file(`${baseName}.png`, sheet.png);
+
+    const baseClass = `sprite-${this.toClassName(baseName)}`;
+    const rules = [
+      `.${baseClass} {`,
+      `  background-image: url("${baseName}.png");`,
+      '  background-repeat: no-repeat;',
+      '  display: inline-block;',
+      '}'
+    ];
+
+    tiles.forEach((tile, i) => {
+      const region = getRegion(tile);
+      rules.push(
+        '',
+        `.${baseClass}.${baseClass}-${this.toClassName(stripExtension(filenames[i]))} {`,
+        `  width: ${region.width}px;`,
+        `  height: ${region.height}px;`,
+        `  background-position: ${this.toOffset(region.x)} ${this.toOffset(region.y)};`,
+        ...this.getTransformOrigin(tile),
+        '}'
+      );
+    });
+
+    folder.file(`${baseName}.css`, rules.join('\n') + '\n');
+  }
+
+  // The element only covers the trimmed region, so the origin is offset by the trim
+  private getTransformOrigin(tile: TileData): string[] {
+    if (isCentred(tile.pivot)) return [];
+    const pivot = getPivotPoint(tile);
+    return [`  transform-origin: ${pivot.x - tile.trimRect.x}px ${pivot.y - tile.trimRect.y}px;`];
+  }
+
+  private toClassName(name: string): string {
+    return name.replace(/[^\w-]+/g, '_');
+  }
+
+  private toOffset(value: number): string {
+    return value === 0 ? '0' : `-${value}px`;
+  }
+}
+
+const targets = new Map<string, ExportTarget>(
+  [new GodotTarget(), new UnityTarget(), new CssTarget()].map(target => [target.id, target])
+);
+
+// Lets embedders add their own formats; they show up in the export settings like the built-in ones
+export function registerExportTarget(target: ExportTarget) {
+  targets.set(target.id, target);
+}
+
+export function getExportTarget(id: string): ExportTarget | undefined {
+  return targets.get(id);
+}
+
+export function getExportTargets(): ExportTarget[] {
+  return [...targets.values()];
+}
@@ -0,0 +1,146 @@
+import type { GridInfo, SheetSource, TileData, TileSettings, TileTransform } from './types';
+import { createCanvas } from './canvas';
+import { TILED_VERSION, escapeXml } from './tileset';
+
+export interface TilemapMeta {
+  name: string;
+  image: string;
+}
+
+export interface TilemapCell {
+  // Position of the tile in the unique tileset
+  tile: number;
+  transform: TileTransform;
+}
+
+// A level rebuilt from its unique tiles; empty, excluded and failed cells are null
+export interface Tilemap {
+  cols: number;
+  rows: number;
+  tileWidth: number;
+  tileHeight: number;
+  tiles: TileData[];
+  // Columns of the tileset image the unique tiles are drawn into
+  columns: number;
+  cells: Array<Array<TilemapCell | null>>;
+}
+
+// Tiled stores flips in the top bits of a gid; its diagonal flip is applied before the other two
+const FLIPPED_HORIZONTALLY = 0x80000000;
+const FLIPPED_VERTICALLY = 0x40000000;
+const FLIPPED_DIAGONALLY = 0x20000000;
+
+const TILED_FLAGS: Record<TileTransform, number> = {
+  'none': 0,
+  'flip-x': FLIPPED_HORIZONTALLY,
+  'flip-y': FLIPPED_VERTICALLY,
+  'rotate-180': FLIPPED_HORIZONTALLY + FLIPPED_VERTICALLY,
+  'rotate-90': FLIPPED_DIAGONALLY + FLIPPED_HORIZONTALLY,
+  'rotate-270': FLIPPED_DIAGONALLY + FLIPPED_VERTICALLY,
+  'transpose': FLIPPED_DIAGONALLY,
+  'transverse': FLIPPED_DIAGONALLY + FLIPPED_HORIZONTALLY + FLIPPED_VERTICALLY
+};
+
+export class TilemapBuilder {
+  validate(settings: TileSettings): string[] {
+    const errors: string[] = [];
+    if (settings.sliceMode !== 'grid') errors.push('Tilemaps need grid slicing');
+    if (!settings.dedupe) errors.push('Tilemaps need tile deduplication');
+    return errors;
+  }
+
+  // `uniqueTiles` become the tileset in order; every other tile points at one of them through duplicateOf
+  build(tiles: TileData[], uniqueTiles: TileData[], settings: TileSettings, gridInfo: GridInfo): Tilemap {
+    const tileIds = new Map(uniqueTiles.map((tile, i) => [tile.index, i]));
+    const cells: Array<Array<TilemapCell | null>> = Array.from({ length: gridInfo.rows }, () => Array(gridInfo.cols).fill(null));
+
+    for (const tile of tiles) {
+      if (tile.excluded || tile.error || !cells[tile.row]) continue;
+      const reuse = tile.duplicateOf ?? { index: tile.index, transform: 'none' };
+      const id = tileIds.get(reuse.index);
+      if (id !== undefined) cells[tile.row][tile.col] = { tile: id, transform: reuse.transform };
+    }
+
+    return {
+      cols: gridInfo.cols,
+      rows: gridInfo.rows,
+      tileWidth: settings.tileWidth,
+      tileHeight: settings.tileHeight,
+      tiles: uniqueTiles,
+      columns: Math.max(1, Math.ceil(Math.sqrt(uniqueTiles.length))),
+      cells
+    };
+  }
+
+  // Copies whole grid cells from the sheet, so trimming doesn't shift tiles inside their cell
+  drawTileset(tilemap: Tilemap, image: SheetSource): HTMLCanvasElement {
+    const { tileWidth, tileHeight, columns, tiles } = tilemap;
+    const canvas = createCanvas(columns * tileWidth, Math.max(1, Math.ceil(tiles.length / columns)) * tileHeight);
+    const ctx = canvas.getContext('2d')!;
+
+    tiles.forEach((tile, i) => {
+      const { x, y, width, height } = tile.sourceRect;
+      ctx.drawImage(image, x, y, width, height, (i % columns) * tileWidth, Math.floor(i / columns) * tileHeight, width, height);
+    });
+    return canvas;
+  }
+
+  // Plain tile ids with -1 for empty cells; transforms only survive in the JSON and TMX maps
+  toCsv(tilemap: Tilemap): string {
+    return tilemap.cells.map(row => row.map(cell => cell?.tile ?? -1).join(',')).join('\n') + '\n';
+  }
+
+  toJson(tilemap: Tilemap, meta: TilemapMeta, filenames: Map<number, string>) {
+    const hasTransforms = tilemap.cells.some(row => row.some(cell => cell && cell.transform !== 'none'));
+
+    return {
+      name: meta.name,
+      width: tilemap.cols,
+      height: tilemap.rows,
+      tileWidth: tilemap.tileWidth,
+      tileHeight: tilemap.tileHeight,
+      tileset: {
+        image: meta.image,
+        columns: tilemap.columns,
+        tileCount: tilemap.tiles.length,
+        tiles: tilemap.tiles.map((tile, id) => ({
+          id,
+          index: tile.index,
+          row: tile.row,
+          col: tile.col,
+          filename: filenames.get(tile.index) ?? null
+        }))
+      },
+      cells: tilemap.cells.map(row => row.map(cell => cell?.tile ?? -1)),
+      transforms: hasTransforms
+        ? tilemap.cells.map(row => row.map(cell => cell?.transform ?? null))
+        : undefined
+    };
+  }
+
+  // An orthogonal Tiled map with the tileset embedded, so it opens without any other file but the image
+  toTmx(tilemap: Tilemap, meta: TilemapMeta, imageSize: { width: number; height: number }): string {
+    const { cols, rows, tileWidth, tileHeight } = tilemap;
+    const name = escapeXml(meta.name);
+    // gid 0 is an empty cell, the tileset's first tile is gid 1
+    const data = tilemap.cells
+      .map(row => row.map(cell => cell ? TILED_FLAGS[cell.transform] + cell.tile + 1 : 0).join(','))
+      .join(',\n');
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<map version="${TILED_VERSION}" orientation="orthogonal" renderorder="right-down" width="${cols}" height="${rows}"`
+        + ` tilewidth="${tileWidth}" tileheight="${tileHeight}" infinite="0" nextlayerid="2" nextobjectid="1">`,
+      ` <tileset firstgid="1" name="${name}" tilewidth="${tileWidth}" tileheight="${tileHeight}" tilecount="${tilemap.tiles.length}" columns="${tilemap.columns}">`,
+      `  <image source="${escapeXml(meta.image)}" width="${imageSize.width}" height="${imageSize.height}"/>`,
+      ' </tileset>',
+      ` <layer id="1" name="${name}" width="${cols}" height="${rows}">`,
+      '  <data encoding="csv">',
+      data,
+      '</data>',
+      ' </layer>',
+      '</map>',
+      ''
+    ].join('\n');
+  }
+}
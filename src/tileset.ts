@@ -0,0 +1,243 @@
+import type { GridInfo, Pivot, TileData, TileSettings } from './types';
+import { TileAnnotator } from './annotations';
+
+export interface TilesetMeta {
+  name: string;
+  image: string;
+  width: number;
+  height: number;
+}
+
+interface TiledProperty {
+  name: string;
+  type: 'bool' | 'float' | 'string';
+  value: boolean | number | string;
+}
+
+export const TILED_VERSION = '1.10';
+
+// Shared by the TSX and TMX writers so both escape attribute values the same way
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class TilesetBuilder {
+  private annotator = new TileAnnotator();
+
+  // Tiled has no offsets and only one margin, so the image must be cropped to the grid before it is referenced
+  getGridBounds(settings: TileSettings, gridInfo: GridInfo) {
+    const { tileWidth, tileHeight, margin, spacing, offsetX, offsetY } = settings;
+    return {
+      x: offsetX,
+      y: offsetY,
+      width: margin * 2 + gridInfo.cols * tileWidth + Math.max(0, gridInfo.cols - 1) * spacing,
+      height: margin * 2 + gridInfo.rows * tileHeight + Math.max(0, gridInfo.rows - 1) * spacing
+    };
+  }
+
+  validate(settings: TileSettings, ldtk: boolean): string[] {
+    const errors: string[] = [];
+    if (settings.sliceMode !== 'grid') {
+      errors.push('Tiled and LDtk tilesets need grid slicing');
+    } else if (ldtk && settings.tileWidth !== settings.tileHeight) {
+      errors.push(`LDtk tilesets need square tiles (current tiles are ${settings.tileWidth}x${settings.tileHeight})`);
+    }
+    return errors;
+  }
+
+  toTsx(settings: TileSettings, gridInfo: GridInfo, tiles: TileData[], meta: TilesetMeta): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<tileset version="${TILED_VERSION}" name="${escapeXml(meta.name)}" tilewidth="${settings.tileWidth}" tileheight="${settings.tileHeight}"`
+        + ` spacing="${settings.spacing}" margin="${settings.margin}" tilecount="${gridInfo.totalTiles}" columns="${gridInfo.cols}">`,
+      ' <properties>',
+      ...this.getTilesetProperties(settings).map(property => `  ${this.toXmlProperty(property)}`),
+      ' </properties>',
+      ` <image source="${escapeXml(meta.image)}" width="${meta.width}" height="${meta.height}"/>`
+    ];
+
+    const defaultPivot = this.annotator.getDefaultPivot(settings);
+    for (const tile of tiles) {
+      const properties = this.getProperties(tile, defaultPivot);
+      if (properties.length === 0 && tile.hitboxes.length === 0) continue;
+
+      lines.push(` <tile id="${tile.index}">`);
+      if (properties.length > 0) {
+        lines.push('  <properties>', ...properties.map(property => `   ${this.toXmlProperty(property)}`), '  </properties>');
+      }
+      // Hitboxes become the tile's collision shapes, which Tiled edits in its collision editor
+      if (tile.hitboxes.length > 0) {
+        lines.push('  <objectgroup draworder="index" id="2">');
+        tile.hitboxes.forEach((box, i) => {
+          lines.push(`   <object id="${i + 1}" name="${escapeXml(box.name)}" x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}"/>`);
+        });
+        lines.push('  </objectgroup>');
+      }
+      lines.push(' </tile>');
+    }
+
+    lines.push('</tileset>');
+    return lines.join('\n') + '\n';
+  }
+
+  toTsj(settings: TileSettings, gridInfo: GridInfo, tiles: TileData[], meta: TilesetMeta) {
+    const defaultPivot = this.annotator.getDefaultPivot(settings);
+    const tiled = tiles
+      .filter(tile => this.getProperties(tile, defaultPivot).length > 0 || tile.hitboxes.length > 0)
+      .map(tile => {
+        const properties = this.getProperties(tile, defaultPivot);
+        return {
+          id: tile.index,
+          ...(properties.length > 0 ? { properties } : {}),
+          ...(tile.hitboxes.length > 0
+            ? {
+              objectgroup: {
+                type: 'objectgroup',
+                draworder: 'index',
+                id: 2,
+                name: '',
+                opacity: 1,
+                visible: true,
+                x: 0,
+                y: 0,
+                objects: tile.hitboxes.map((box, i) => ({
+                  id: i + 1,
+                  name: box.name,
+                  type: '',
+                  x: box.x,
+                  y: box.y,
+                  width: box.width,
+                  height: box.height,
+                  rotation: 0,
+                  visible: true
+                }))
+              }
+            }
+            : {})
+        };
+      });
+
+    return {
+      type: 'tileset',
+      version: TILED_VERSION,
+      name: meta.name,
+      tilewidth: settings.tileWidth,
+      tileheight: settings.tileHeight,
+      spacing: settings.spacing,
+      margin: settings.margin,
+      tilecount: gridInfo.totalTiles,
+      columns: gridInfo.cols,
+      image: meta.image,
+      imagewidth: meta.width,
+      imageheight: meta.height,
+      properties: this.getTilesetProperties(settings),
+      ...(tiled.length > 0 ? { tiles: tiled } : {})
+    };
+  }
+
+  // Shaped like the `defs` block of an LDtk project, so the tileset and its tag enum can be pasted in as-is
+  toLdtk(settings: TileSettings, gridInfo: GridInfo, tiles: TileData[], meta: TilesetMeta) {
+    const identifier = this.toIdentifier(meta.name);
+    const tilesetUid = 1;
+    const enumUid = 2;
+
+    // Tags become values of one enum so LDtk can show them on the tileset
+    const tileIdsByTag = new Map<string, number[]>();
+    for (const tile of tiles) {
+      for (const tag of new Set(tile.tags.map(tag => this.toIdentifier(tag)))) {
+        if (!tileIdsByTag.has(tag)) tileIdsByTag.set(tag, []);
+        tileIdsByTag.get(tag)!.push(tile.index);
+      }
+    }
+    const hasTags = tileIdsByTag.size > 0;
+    const defaultPivot = this.annotator.getDefaultPivot(settings);
+
+    return {
+      tilesets: [{
+        __cWid: gridInfo.cols,
+        __cHei: gridInfo.rows,
+        identifier,
+        uid: tilesetUid,
+        relPath: meta.image,
+        embedAtlas: null,
+        pxWid: meta.width,
+        pxHei: meta.height,
+        tileGridSize: settings.tileWidth,
+        spacing: settings.spacing,
+        padding: settings.margin,
+        tags: [],
+        tagsSourceEnumUid: hasTags ? enumUid : null,
+        enumTags: [...tileIdsByTag].map(([enumValueId, tileIds]) => ({ enumValueId, tileIds })),
+        customData: tiles
+          .filter(tile => tile.name || this.hasGeometry(tile, defaultPivot))
+          .map(tile => ({ tileId: tile.index, data: this.getCustomData(tile, defaultPivot) })),
+        savedSelections: [],
+        cachedPixelData: null
+      }],
+      enums: hasTags
+        ? [{
+          identifier: `${identifier}_Tags`,
+          uid: enumUid,
+          values: [...tileIdsByTag.keys()].map(id => ({ id, tileRect: null, color: 0 })),
+          iconTilesetUid: null,
+          externalRelPath: null,
+          externalFileChecksum: null,
+          tags: []
+        }]
+        : []
+    };
+  }
+
+  // Tiled has no pivots, so the default pivot is a tileset property and tiles that differ carry their own
+  private getTilesetProperties(settings: TileSettings): TiledProperty[] {
+    return [
+      { name: 'pivotX', type: 'float', value: settings.pivotX },
+      { name: 'pivotY', type: 'float', value: settings.pivotY }
+    ];
+  }
+
+  // Tags turn into true booleans, a name given on the preview into a string property
+  private getProperties(tile: TileData, defaultPivot: Pivot): TiledProperty[] {
+    const properties: TiledProperty[] = [];
+    if (tile.name) properties.push({ name: 'name', type: 'string', value: tile.name });
+    if (!this.annotator.samePivot(tile.pivot, defaultPivot)) {
+      properties.push(
+        { name: 'pivotX', type: 'float', value: tile.pivot.x },
+        { name: 'pivotY', type: 'float', value: tile.pivot.y }
+      );
+    }
+    for (const tag of new Set(tile.tags)) {
+      if (!['name', 'pivotX', 'pivotY'].includes(tag)) properties.push({ name: tag, type: 'bool', value: true });
+    }
+    return properties;
+  }
+
+  private hasGeometry(tile: TileData, defaultPivot: Pivot): boolean {
+    return tile.hitboxes.length > 0 || !this.annotator.samePivot(tile.pivot, defaultPivot);
+  }
+
+  // LDtk custom data is free text: the plain name, or JSON once the tile also has a pivot or hitboxes
+  private getCustomData(tile: TileData, defaultPivot: Pivot): string {
+    if (!this.hasGeometry(tile, defaultPivot)) return tile.name;
+    return JSON.stringify({
+      name: tile.name || undefined,
+      pivot: tile.pivot,
+      hitboxes: tile.hitboxes.length > 0 ? tile.hitboxes : undefined
+    });
+  }
+
+  private toXmlProperty(property: TiledProperty): string {
+    return `<property name="${escapeXml(property.name)}" type="${property.type}" value="${escapeXml(String(property.value))}"/>`;
+  }
+
+  // LDtk identifiers start with a letter or underscore and only contain word characters
+  private toIdentifier(name: string): string {
+    const identifier = name.trim().replace(/\W+/g, '_') || 'Tileset';
+    const capitalized = identifier.charAt(0).toUpperCase() + identifier.slice(1);
+    return /^\d/.test(capitalized) ? `_${capitalized}` : capitalized;
+  }
+}
@@ -1,4 +1,10 @@
+export type SliceMode = 'grid' | 'islands';
+
+// Border grown around every tile: repeated edge pixels, or the real neighbouring pixels from the sheet
+export type EdgeMode = 'none' | 'extrude' | 'bleed';
+
 export interface TileSettings {
+  sliceMode: SliceMode;
   tileWidth: number;
   tileHeight: number;
   margin: number;
@@ -7,12 +13,40 @@ export interface TileSettings {
   offsetY: number;
   trimTransparent: boolean;
   preservePadding: number;
+  edgeMode: EdgeMode;
+  edgeSize: number;
+  alphaThreshold: number;
+  mergeDistance: number;
+  colorKeyEnabled: boolean;
+  colorKey: string;
+  colorKeyTolerance: number;
+  dedupe: boolean;
+  dedupeTransforms: boolean;
+  dedupeTolerance: number;
+  // Default pivot as a fraction of the untrimmed tile, 0,0 being its top-left corner
+  pivotX: number;
+  pivotY: number;
 }
 
+export type SheetSource = HTMLImageElement | HTMLCanvasElement;
+
+export type ImageFormat = 'png' | 'webp' | 'gif' | 'bmp' | 'jpeg' | 'aseprite';
+
 export interface ImageMetadata {
+  name: string;
   width: number;
   height: number;
   hasAlpha: boolean;
+  format: ImageFormat;
+  colorDepth: number;
+  frameCount: number;
+  frameWidth: number;
+  frameHeight: number;
+}
+
+export interface ImportOptions {
+  frameLayout: 'horizontal' | 'vertical';
+  splitLayers: boolean;
 }
 
 export interface GridInfo {
@@ -21,19 +55,182 @@ export interface GridInfo {
   totalTiles: number;
 }
 
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GridCandidate {
+  settings: Pick<TileSettings, 'tileWidth' | 'tileHeight' | 'margin' | 'spacing' | 'offsetX' | 'offsetY'>;
+  confidence: number;
+}
+
+export interface Pivot {
+  x: number;
+  y: number;
+}
+
+// Named box in pixels from the untrimmed tile's top-left corner
+export interface Hitbox extends Rect {
+  name: string;
+}
+
+export interface TileRect extends Rect {
+  row: number;
+  col: number;
+  index: number;
+}
+
+export type AtlasFormat = 'none' | 'json-hash' | 'json-array' | 'both';
+
+export type AtlasSource = 'sheet' | 'packed';
+
+// Upscaling filter for exported tiles; downscales are always box filtered
+export type ScaleFilter = 'nearest' | 'scale2x' | 'hqx';
+
+export interface PackSettings {
+  algorithm: 'maxrects' | 'skyline';
+  maxSize: number;
+  powerOfTwo: boolean;
+  padding: number;
+  extrude: number;
+  allowRotation: boolean;
+}
+
 export interface ExportSettings {
-  namingPattern: 'row_col' | 'index' | 'custom';
+  namingPattern: 'row_col' | 'index' | 'custom' | 'template';
   customPrefix: string;
+  filenameTemplate: string;
   skipTransparent: boolean;
   includeContactSheet: boolean;
+  includeTiles: boolean;
+  // Each scale other than a lone 1x is written to tiles/@<scale>x/
+  scales: number[];
+  scaleFilter: ScaleFilter;
+  atlasFormat: AtlasFormat;
+  atlasSource: AtlasSource;
+  pack: PackSettings;
+  includeTiledTileset: boolean;
+  includeTiledJson: boolean;
+  includeLdtkTileset: boolean;
+  // Unique tileset plus CSV, JSON and TMX maps of a level; needs grid slicing and dedupe
+  includeTilemap: boolean;
+  // Ids of registered export targets, see targets.ts
+  targets: string[];
 }
 
+// Settings, annotations and animations read back from a previous export's meta.json
+export interface RestoredSession {
+  tile: Partial<TileSettings>;
+  export: Partial<ExportSettings>;
+  annotations: TileAnnotations;
+  animations: SpriteAnimation[];
+  source: { name: string; width: number; height: number } | null;
+}
+
+// Built-in presets only set a layout, saved presets capture every setting
+export interface SettingsPreset {
+  name: string;
+  tile: Partial<TileSettings>;
+  export?: Partial<ExportSettings>;
+}
+
+// How a duplicate tile is drawn from its canonical tile; rotations are clockwise
+export type TileTransform = 'none' | 'flip-x' | 'flip-y' | 'rotate-90' | 'rotate-180' | 'rotate-270' | 'transpose' | 'transverse';
+
+export interface TileReuse {
+  index: number;
+  transform: TileTransform;
+}
+
+// Tiles sliced in a worker come back as ImageBitmaps with their PNG already encoded
+export type TileImage = HTMLCanvasElement | ImageBitmap;
+
 export interface TileData {
-  canvas: HTMLCanvasElement;
+  canvas: TileImage;
+  png?: Uint8Array;
   row: number;
   col: number;
   index: number;
   isEmpty: boolean;
+  excluded: boolean;
+  name: string;
+  tags: string[];
+  sourceRect: TileRect;
+  trimRect: Rect;
+  // The tile's own pivot, or the default from the tile settings
+  pivot: Pivot;
+  hitboxes: Hitbox[];
+  // Width of the extruded or bled border around the trimmed content in `canvas`
+  inset?: number;
+  // Set on tiles that are exported as a reference to an earlier identical tile
+  duplicateOf?: TileReuse;
+  error?: string;
+}
+
+export interface TileError {
+  index: number;
+  row: number;
+  col: number;
+  stage: 'slice' | 'encode';
+  message: string;
+}
+
+export interface ExportReport {
+  exportedTiles: number;
+  errors: TileError[];
+}
+
+// The caller decides whether to download, upload or unpack the ZIP
+export interface ExportResult extends ExportReport {
+  zip: Uint8Array;
+}
+
+export type BatchStatus = 'loading' | 'valid' | 'invalid' | 'processing' | 'done' | 'failed';
+
+// Per-file overrides only cover the grid layout; everything else comes from the shared settings
+export type BatchOverrides = Partial<Pick<TileSettings, 'tileWidth' | 'tileHeight' | 'margin' | 'spacing' | 'offsetX' | 'offsetY'>>;
+
+export interface BatchItem {
+  id: number;
+  file: File;
+  path: string;
+  image: HTMLImageElement | null;
+  metadata: ImageMetadata | null;
+  animations: SpriteAnimation[];
+  overrides: BatchOverrides;
+  status: BatchStatus;
+  errors: string[];
+}
+
+export interface SheetReport extends ExportReport {
+  name: string;
+  folder: string;
+  error?: string;
+}
+
+export interface TileAnnotation {
+  excluded: boolean;
+  name: string;
+  tags: string[];
+  // Only set when the tile overrides the default pivot or has boxes drawn on it
+  pivot?: Pivot;
+  hitboxes?: Hitbox[];
+}
+
+// Keyed by tile index
+export type TileAnnotations = Record<number, TileAnnotation>;
+
+export interface AnimationFrame {
+  index: number;
+  duration: number;
+}
+
+export interface SpriteAnimation {
+  name: string;
+  frames: AnimationFrame[];
 }
 
 export interface ExportProgress {
@@ -43,3 +240,49 @@ export interface ExportProgress {
   eta?: number;
 }
 
+export interface AtlasFrame {
+  filename: string;
+  frame: { x: number; y: number; w: number; h: number };
+  rotated: boolean;
+  trimmed: boolean;
+  spriteSourceSize: { x: number; y: number; w: number; h: number };
+  sourceSize: { w: number; h: number };
+  pivot: Pivot;
+  // Not part of the TexturePacker format; only written for tiles that have boxes
+  hitboxes?: Hitbox[];
+}
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+// A tile that failed in the worker has no image, only the error message
+export interface WorkerTile {
+  isEmpty: boolean;
+  trimRect: Rect;
+  bitmap: ImageBitmap | null;
+  png: Uint8Array | null;
+  error?: string;
+}
+
+// Rect coordinates are relative to the sheet; originX/Y locate the bitmap crop on it
+export type WorkerJob =
+  | { type: 'slice'; bitmap: ImageBitmap; originX: number; originY: number; settings: TileSettings; rects: TileRect[] }
+  | { type: 'zip'; entries: ZipEntry[] };
+
+export type WorkerResult =
+  | { type: 'progress'; done: number }
+  | { type: 'sliced'; tiles: WorkerTile[] }
+  | { type: 'zipped'; data: Uint8Array }
+  | { type: 'error'; message: string };
+
+export interface WorkerRequest {
+  id: number;
+  job: WorkerJob;
+}
+
+export interface WorkerResponse {
+  id: number;
+  result: WorkerResult;
+}
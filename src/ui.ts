@@ -1,20 +1,65 @@
-import type { TileSettings, ExportSettings, ImageMetadata, GridInfo, ExportProgress } from './types';
+import type { TileSettings, ExportSettings, ImageMetadata, GridInfo, ExportProgress, TileRect, SpriteAnimation, ImportOptions, SheetSource, GridCandidate, Hitbox, RestoredSession, SettingsPreset, TileAnnotation, TileAnnotations, TileData, TileError, BatchItem, BatchOverrides, SheetReport } from './types';
 import { ImageLoader } from './imageLoader';
 import { GridCalculator, GridOverlay } from './grid';
+import { IslandDetector } from './islands';
 import { SpriteSlicer } from './slicer';
 import { ZipExporter } from './zipper';
+import { AnimationBuilder, AnimationPlayer } from './animation';
+import { ColorKeyer } from './colorKey';
+import { FilenameGenerator } from './naming';
+import { BatchProcessor } from './batch';
+import { BUILT_IN_PRESETS, PresetStore } from './presets';
+import { SessionImporter } from './session';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TILE_SETTINGS } from './defaults';
+import { getExportTarget, getExportTargets } from './targets';
+import { TileDeduplicator } from './dedupe';
+import { TileScaler } from './scaler';
+import { PIVOT_ANCHORS, TileAnnotator } from './annotations';
+import { createCanvas } from './canvas';
+import { saveAs } from 'file-saver';
 
 export class UI {
   private imageLoader: ImageLoader;
   private gridCalculator: GridCalculator;
   private gridOverlay: GridOverlay | null = null;
+  private islandDetector: IslandDetector;
   private slicer: SpriteSlicer;
   private zipExporter: ZipExporter;
+  private animationBuilder: AnimationBuilder;
+  private animationPlayer: AnimationPlayer;
+  private colorKeyer: ColorKeyer;
+  private deduplicator: TileDeduplicator;
+  private tileScaler: TileScaler;
+  private annotator: TileAnnotator;
+  private filenameGenerator: FilenameGenerator;
+  private batchProcessor: BatchProcessor;
+  private presetStore: PresetStore;
+  private sessionImporter: SessionImporter;
 
   private currentImage: HTMLImageElement | null = null;
   private currentImageMetadata: ImageMetadata | null = null;
   private currentSettings: TileSettings;
   private currentExportSettings: ExportSettings;
+  private islandCache: { key: string; rects: TileRect[] } | null = null;
+  private dedupeCache: { key: string; unique: number } | null = null;
+  private keyedImageCache: { key: string; canvas: HTMLCanvasElement } | null = null;
+  private isPickingColor: boolean = false;
+  private animations: SpriteAnimation[] = [];
+  private activeAnimation: number | null = null;
+  private selectedTiles: number[] = [];
+  private gridCandidates: GridCandidate[] = [];
+  private activeCandidate: number = 0;
+  private tileAnnotations: TileAnnotations = {};
+  // Name and size of the image the annotations were made on
+  private annotationSource: string | null = null;
+  private exportController: AbortController | null = null;
+  private batchItems: BatchItem[] = [];
+  private savedPresets: SettingsPreset[] = [];
+  private pendingSession: RestoredSession | null = null;
+  private selectionBox: { startX: number; startY: number; endX: number; endY: number } | null = null;
+  // Box being dragged on the tile editor, in tile pixels
+  private hitboxDrag: { startX: number; startY: number; endX: number; endY: number } | null = null;
+  private tileEditorZoom: number = 1;
 
   private previewCanvas: HTMLCanvasElement;
   private previewCtx: CanvasRenderingContext2D;
@@ -30,34 +75,31 @@ export class UI {
   constructor() {
     this.imageLoader = new ImageLoader();
     this.gridCalculator = new GridCalculator();
+    this.islandDetector = new IslandDetector();
     this.slicer = new SpriteSlicer();
     this.zipExporter = new ZipExporter();
+    this.animationBuilder = new AnimationBuilder();
+    this.animationPlayer = new AnimationPlayer(document.getElementById('anim-preview-canvas') as HTMLCanvasElement);
+    this.colorKeyer = new ColorKeyer();
+    this.deduplicator = new TileDeduplicator();
+    this.tileScaler = new TileScaler();
+    this.annotator = new TileAnnotator();
+    this.filenameGenerator = new FilenameGenerator();
+    this.batchProcessor = new BatchProcessor();
+    this.presetStore = new PresetStore();
+    this.sessionImporter = new SessionImporter();
 
     this.previewCanvas = document.getElementById('preview-canvas') as HTMLCanvasElement;
     this.previewCtx = this.previewCanvas.getContext('2d')!;
     this.overlayCanvas = document.getElementById('overlay-canvas') as HTMLCanvasElement;
     this.gridOverlay = new GridOverlay(this.overlayCanvas);
 
-    this.currentSettings = {
-      tileWidth: 32,
-      tileHeight: 32,
-      margin: 0,
-      spacing: 0,
-      offsetX: 0,
-      offsetY: 0,
-      trimTransparent: false,
-      preservePadding: 0
-    };
-
-    this.currentExportSettings = {
-      namingPattern: 'row_col',
-      customPrefix: '',
-      skipTransparent: false,
-      includeContactSheet: false
-    };
+    this.currentSettings = { ...DEFAULT_TILE_SETTINGS };
+    this.currentExportSettings = { ...DEFAULT_EXPORT_SETTINGS, pack: { ...DEFAULT_EXPORT_SETTINGS.pack } };
 
     this.setupEventListeners();
     this.loadSettings();
+    this.loadPresets();
   }
 
   private setupEventListeners() {
@@ -66,8 +108,15 @@ export class UI {
     const dropZone = document.getElementById('drop-zone') as HTMLElement;
 
     fileInput.addEventListener('change', (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) this.handleFile(file);
+      const files = Array.from((e.target as HTMLInputElement).files ?? []);
+      this.handleFiles(files.map(file => ({ file, path: file.name })));
+    });
+
+    // Folder input keeps each file's path inside the chosen folder
+    const folderInput = document.getElementById('folder-input') as HTMLInputElement;
+    folderInput.addEventListener('change', (e) => {
+      const files = Array.from((e.target as HTMLInputElement).files ?? []);
+      this.handleFiles(files.map(file => ({ file, path: file.webkitRelativePath || file.name })));
     });
 
     // Drag and drop
@@ -80,30 +129,60 @@ export class UI {
       dropZone.classList.remove('drag-over');
     });
 
-    dropZone.addEventListener('drop', (e) => {
+    dropZone.addEventListener('drop', async (e) => {
       e.preventDefault();
       dropZone.classList.remove('drag-over');
-      const file = e.dataTransfer?.files[0];
-      if (file) this.handleFile(file);
+      if (e.dataTransfer) {
+        this.handleFiles(await this.collectDroppedFiles(e.dataTransfer));
+      }
+    });
+
+    // Batch queue
+    const batchExportBtn = document.getElementById('batch-export-btn') as HTMLButtonElement;
+    batchExportBtn.addEventListener('click', () => this.exportBatch());
+
+    const batchClearBtn = document.getElementById('batch-clear') as HTMLButtonElement;
+    batchClearBtn.addEventListener('click', () => {
+      this.batchItems = [];
+      this.renderBatchQueue();
     });
 
     // Settings inputs
     this.setupSettingsListeners();
 
+    // Named settings presets
+    this.setupPresetListeners();
+
     // Export settings
     this.setupExportListeners();
 
     // Canvas interactions
     this.setupCanvasListeners();
 
+    // Tile selection, exclusion and naming
+    this.setupTileSelectionListeners();
+
+    // Animation editor
+    this.setupAnimationListeners();
+
     // Auto-detect button
     const autoDetectBtn = document.getElementById('auto-detect-btn') as HTMLButtonElement;
     autoDetectBtn.addEventListener('click', () => this.autoDetectTileSize());
 
+    // Cycle through the ranked grid candidates
+    const prevCandidateBtn = document.getElementById('grid-candidate-prev') as HTMLButtonElement;
+    prevCandidateBtn.addEventListener('click', () => this.applyGridCandidate(this.activeCandidate - 1));
+    const nextCandidateBtn = document.getElementById('grid-candidate-next') as HTMLButtonElement;
+    nextCandidateBtn.addEventListener('click', () => this.applyGridCandidate(this.activeCandidate + 1));
+
     // Export button
     const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
     exportBtn.addEventListener('click', () => this.exportTiles());
 
+    // Cancel button stops a running export
+    const cancelBtn = document.getElementById('cancel-export-btn') as HTMLButtonElement;
+    cancelBtn.addEventListener('click', () => this.exportController?.abort());
+
     // Grid toggle
     const gridToggle = document.getElementById('grid-toggle') as HTMLInputElement;
     gridToggle.addEventListener('change', () => this.updatePreview());
@@ -112,7 +191,9 @@ export class UI {
   private setupSettingsListeners() {
     const inputs = [
       'tile-width', 'tile-height', 'margin', 'spacing', 
-      'offset-x', 'offset-y', 'preserve-padding'
+      'offset-x', 'offset-y', 'preserve-padding', 'edge-size',
+      'alpha-threshold', 'merge-distance', 'color-key', 'color-key-tolerance', 'dedupe-tolerance',
+      'pivot-x', 'pivot-y'
     ];
 
     inputs.forEach(id => {
@@ -124,28 +205,278 @@ export class UI {
       });
     });
 
-    const trimToggle = document.getElementById('trim-transparent') as HTMLInputElement;
-    trimToggle.addEventListener('change', () => {
+    ['trim-transparent', 'edge-mode', 'dedupe', 'dedupe-transforms'].forEach(id => {
+      const toggle = document.getElementById(id) as HTMLInputElement;
+      toggle.addEventListener('change', () => {
+        this.updateSettingsFromInputs();
+        this.updatePreview();
+        this.saveSettings();
+      });
+    });
+
+    // The anchor list fills in the pivot inputs, and shows "Custom" for any other pivot typed into them
+    const pivotAnchor = document.getElementById('pivot-anchor') as HTMLSelectElement;
+    pivotAnchor.addEventListener('change', () => {
+      const anchor = PIVOT_ANCHORS[pivotAnchor.value];
+      if (!anchor) return;
+      (document.getElementById('pivot-x') as HTMLInputElement).value = anchor.x.toString();
+      (document.getElementById('pivot-y') as HTMLInputElement).value = anchor.y.toString();
+      this.updateSettingsFromInputs();
+      this.updateTileEditor();
+      this.saveSettings();
+    });
+    ['pivot-x', 'pivot-y'].forEach(id => {
+      (document.getElementById(id) as HTMLInputElement).addEventListener('input', () => {
+        pivotAnchor.value = this.annotator.getAnchorName(this.annotator.getDefaultPivot(this.currentSettings)) ?? 'custom';
+        this.updateTileEditor();
+      });
+    });
+
+    const colorKeyToggle = document.getElementById('color-key-enabled') as HTMLInputElement;
+    colorKeyToggle.addEventListener('change', () => {
       this.updateSettingsFromInputs();
       this.updatePreview();
       this.saveSettings();
     });
+
+    const pickColorBtn = document.getElementById('pick-color-btn') as HTMLButtonElement;
+    pickColorBtn.addEventListener('click', () => {
+      this.isPickingColor = !this.isPickingColor;
+      pickColorBtn.classList.toggle('active', this.isPickingColor);
+      this.previewCanvas.style.cursor = this.isPickingColor ? 'crosshair' : 'grab';
+      if (this.isPickingColor) {
+        this.showStatus('Click a background pixel on the preview', 'info');
+      }
+    });
+
+    const sliceModeSelect = document.getElementById('slice-mode') as HTMLSelectElement;
+    sliceModeSelect.addEventListener('change', () => {
+      this.updateSettingsFromInputs();
+      this.updateSliceModeVisibility();
+      this.updatePreview();
+      this.saveSettings();
+    });
+  }
+
+  private setupPresetListeners() {
+    const presetSelect = document.getElementById('preset-select') as HTMLSelectElement;
+    presetSelect.addEventListener('change', () => {
+      const preset = this.findPreset(presetSelect.value);
+      if (preset) this.applyPreset(preset);
+    });
+
+    const saveBtn = document.getElementById('preset-save') as HTMLButtonElement;
+    saveBtn.addEventListener('click', () => this.savePreset());
+
+    const deleteBtn = document.getElementById('preset-delete') as HTMLButtonElement;
+    deleteBtn.addEventListener('click', () => this.deletePreset(presetSelect.value));
+
+    const exportBtn = document.getElementById('preset-export') as HTMLButtonElement;
+    exportBtn.addEventListener('click', () => this.exportPresets());
+
+    const importInput = document.getElementById('preset-import') as HTMLInputElement;
+    const importBtn = document.getElementById('preset-import-btn') as HTMLButtonElement;
+    importBtn.addEventListener('click', () => importInput.click());
+    importInput.addEventListener('change', async () => {
+      const file = importInput.files?.[0];
+      importInput.value = '';
+      if (file) await this.importPresets(file);
+    });
   }
 
   private setupExportListeners() {
     const namingSelect = document.getElementById('naming-pattern') as HTMLSelectElement;
     const customPrefix = document.getElementById('custom-prefix') as HTMLInputElement;
+    const filenameTemplate = document.getElementById('filename-template') as HTMLInputElement;
     const skipTransparent = document.getElementById('skip-transparent') as HTMLInputElement;
     const includeContactSheet = document.getElementById('include-contact-sheet') as HTMLInputElement;
+    const includeTiles = document.getElementById('include-tiles') as HTMLInputElement;
+    const atlasFormat = document.getElementById('atlas-format') as HTMLSelectElement;
+    const atlasSource = document.getElementById('atlas-source') as HTMLSelectElement;
+    const scaleInputs = [
+      ...document.querySelectorAll<HTMLInputElement>('#export-scales input'),
+      document.getElementById('scale-filter') as HTMLSelectElement
+    ];
+    const tilesetInputs = ['include-tiled-tileset', 'include-tiled-json', 'include-ldtk-tileset', 'include-tilemap']
+      .map(id => document.getElementById(id) as HTMLInputElement);
+    const targetInputs = this.renderExportTargets();
+    const packInputs = [
+      'pack-algorithm', 'pack-max-size', 'pack-power-of-two',
+      'pack-padding', 'pack-extrude', 'pack-rotation'
+    ].map(id => document.getElementById(id) as HTMLInputElement | HTMLSelectElement);
 
-    [namingSelect, customPrefix, skipTransparent, includeContactSheet].forEach(element => {
+    [namingSelect, customPrefix, skipTransparent, includeContactSheet, includeTiles, atlasFormat, atlasSource, ...scaleInputs, ...tilesetInputs, ...targetInputs, ...packInputs].forEach(element => {
       element.addEventListener('change', () => {
         this.updateExportSettingsFromInputs();
+        this.updateExportVisibility();
+        this.updateFilenamePreview();
+        this.saveSettings();
+      });
+    });
+
+    // A map is built from the unique tiles, so asking for one turns deduplication on
+    const includeTilemap = document.getElementById('include-tilemap') as HTMLInputElement;
+    const dedupe = document.getElementById('dedupe') as HTMLInputElement;
+    includeTilemap.addEventListener('change', () => {
+      if (includeTilemap.checked && !dedupe.checked) {
+        dedupe.checked = true;
+        dedupe.dispatchEvent(new Event('change'));
+      }
+    });
+
+    // Preview the generated names while typing
+    [customPrefix, filenameTemplate].forEach(input => {
+      input.addEventListener('input', () => {
+        this.updateExportSettingsFromInputs();
+        this.updateFilenamePreview();
         this.saveSettings();
       });
     });
   }
 
+  private setupAnimationListeners() {
+    const addRowBtn = document.getElementById('anim-add-row') as HTMLButtonElement;
+    const addRangeBtn = document.getElementById('anim-add-range') as HTMLButtonElement;
+    const addSelectionBtn = document.getElementById('anim-add-selection') as HTMLButtonElement;
+
+    addRowBtn.addEventListener('click', () => {
+      const row = parseInt((document.getElementById('anim-row') as HTMLInputElement).value) || 0;
+      this.addAnimation(this.animationBuilder.fromRow(
+        this.getAnimationName(), this.getTileRects(), row, this.getAnimationDuration()
+      ));
+    });
+
+    addRangeBtn.addEventListener('click', () => {
+      const start = parseInt((document.getElementById('anim-range-start') as HTMLInputElement).value) || 0;
+      const end = parseInt((document.getElementById('anim-range-end') as HTMLInputElement).value) || 0;
+      const validIndices = new Set(this.getTileRects().map(rect => rect.index));
+      const animation = this.animationBuilder.fromRange(this.getAnimationName(), start, end, this.getAnimationDuration());
+
+      if (animation.frames.some(frame => !validIndices.has(frame.index))) {
+        this.showStatus(`Index range ${start}-${end} is outside the current grid`, 'error');
+        return;
+      }
+      this.addAnimation(animation);
+    });
+
+    addSelectionBtn.addEventListener('click', () => {
+      this.addAnimation(this.animationBuilder.fromIndices(
+        this.getAnimationName(), this.selectedTiles, this.getAnimationDuration()
+      ));
+      this.selectedTiles = [];
+      this.updateSelectionInfo();
+      this.updatePreview();
+    });
+  }
+
+  private setupTileSelectionListeners() {
+    const excludeBtn = document.getElementById('tile-exclude') as HTMLButtonElement;
+    const includeBtn = document.getElementById('tile-include') as HTMLButtonElement;
+    const clearSelectionBtn = document.getElementById('tile-clear-selection') as HTMLButtonElement;
+    const applyNameBtn = document.getElementById('tile-name-apply') as HTMLButtonElement;
+    const applyTagsBtn = document.getElementById('tile-tags-apply') as HTMLButtonElement;
+    const resetBtn = document.getElementById('tile-annotations-reset') as HTMLButtonElement;
+
+    excludeBtn.addEventListener('click', () => {
+      this.updateSelectedAnnotations(() => ({ excluded: true }));
+    });
+
+    includeBtn.addEventListener('click', () => {
+      this.updateSelectedAnnotations(() => ({ excluded: false }));
+    });
+
+    clearSelectionBtn.addEventListener('click', () => {
+      this.selectedTiles = [];
+      this.updateSelectionInfo();
+      this.updatePreview();
+    });
+
+    // Several selected tiles get numbered names in selection order
+    applyNameBtn.addEventListener('click', () => {
+      const name = (document.getElementById('tile-name') as HTMLInputElement).value.trim();
+      const multiple = this.selectedTiles.length > 1;
+      this.updateSelectedAnnotations((_, position) => ({
+        name: name && multiple ? `${name}_${position}` : name
+      }));
+    });
+
+    applyTagsBtn.addEventListener('click', () => {
+      const tags = (document.getElementById('tile-tags') as HTMLInputElement).value
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(tag => tag.length > 0);
+      this.updateSelectedAnnotations(() => ({ tags: [...new Set(tags)] }));
+    });
+
+    this.setupTileEditorListeners();
+
+    resetBtn.addEventListener('click', () => {
+      this.tileAnnotations = {};
+      this.saveSettings();
+      this.updateSelectionInfo();
+      this.updatePreview();
+    });
+  }
+
+  // The zoomed view shows the first selected tile; pivots and boxes placed on it go to every selected tile
+  private setupTileEditorListeners() {
+    const canvas = document.getElementById('tile-editor-canvas') as HTMLCanvasElement;
+    const mode = document.getElementById('tile-editor-mode') as HTMLSelectElement;
+    const pivotResetBtn = document.getElementById('tile-pivot-reset') as HTMLButtonElement;
+    const clearBoxesBtn = document.getElementById('hitbox-clear') as HTMLButtonElement;
+
+    const toTilePoint = (e: MouseEvent) => ({
+      x: (e.offsetX * canvas.width) / canvas.clientWidth / this.tileEditorZoom,
+      y: (e.offsetY * canvas.height) / canvas.clientHeight / this.tileEditorZoom
+    });
+
+    canvas.addEventListener('mousedown', (e) => {
+      const rect = this.getEditedTileRect();
+      if (e.button !== 0 || !rect) return;
+      const point = toTilePoint(e);
+
+      if (mode.value === 'pivot') {
+        const pivot = this.annotator.pivotAt(point.x, point.y, rect.width, rect.height);
+        const isDefault = this.annotator.samePivot(pivot, this.annotator.getDefaultPivot(this.currentSettings));
+        this.updateSelectedAnnotations(() => ({ pivot: isDefault ? undefined : pivot }));
+      } else {
+        this.hitboxDrag = { startX: point.x, startY: point.y, endX: point.x, endY: point.y };
+      }
+    });
+
+    canvas.addEventListener('mousemove', (e) => {
+      if (!this.hitboxDrag) return;
+      const point = toTilePoint(e);
+      this.hitboxDrag.endX = point.x;
+      this.hitboxDrag.endY = point.y;
+      this.updateTileEditor();
+    });
+
+    const finishDrag = () => {
+      const drag = this.hitboxDrag;
+      const rect = this.getEditedTileRect();
+      this.hitboxDrag = null;
+      const box = drag && rect ? this.createDraggedHitbox(drag, rect) : null;
+      if (box) {
+        this.updateSelectedAnnotations(current => ({ hitboxes: [...(current.hitboxes ?? []), box] }));
+      } else {
+        this.updateTileEditor();
+      }
+    };
+    canvas.addEventListener('mouseup', finishDrag);
+    canvas.addEventListener('mouseleave', () => {
+      if (this.hitboxDrag) finishDrag();
+    });
+
+    pivotResetBtn.addEventListener('click', () => {
+      this.updateSelectedAnnotations(() => ({ pivot: undefined }));
+    });
+
+    clearBoxesBtn.addEventListener('click', () => {
+      this.updateSelectedAnnotations(() => ({ hitboxes: undefined }));
+    });
+  }
+
   private setupCanvasListeners() {
     // Zoom with mouse wheel
     this.previewCanvas.addEventListener('wheel', (e) => {
@@ -155,9 +486,13 @@ export class UI {
       this.updatePreview();
     });
 
-    // Pan with mouse drag
+    // Pan with mouse drag, shift+click toggles tile selection and shift+drag box-selects
     this.previewCanvas.addEventListener('mousedown', (e) => {
-      if (e.button === 0) { // Left mouse button
+      if (e.button === 0 && this.isPickingColor) {
+        this.pickColorKeyAt(e.offsetX, e.offsetY);
+      } else if (e.button === 0 && e.shiftKey && this.currentImage) {
+        this.selectionBox = { startX: e.offsetX, startY: e.offsetY, endX: e.offsetX, endY: e.offsetY };
+      } else if (e.button === 0) { // Left mouse button
         this.isPanning = true;
         this.lastPanX = e.clientX;
         this.lastPanY = e.clientY;
@@ -166,7 +501,11 @@ export class UI {
     });
 
     this.previewCanvas.addEventListener('mousemove', (e) => {
-      if (this.isPanning) {
+      if (this.selectionBox) {
+        this.selectionBox.endX = e.offsetX;
+        this.selectionBox.endY = e.offsetY;
+        this.updatePreview();
+      } else if (this.isPanning) {
         const deltaX = e.clientX - this.lastPanX;
         const deltaY = e.clientY - this.lastPanY;
         this.panX += deltaX;
@@ -174,15 +513,25 @@ export class UI {
         this.lastPanX = e.clientX;
         this.lastPanY = e.clientY;
         this.updatePreview();
+      } else {
+        this.updateScalePreview(e.offsetX, e.offsetY);
       }
     });
 
     this.previewCanvas.addEventListener('mouseup', () => {
+      if (this.selectionBox) {
+        this.finishSelectionBox();
+      }
       this.isPanning = false;
       this.previewCanvas.style.cursor = 'grab';
     });
 
     this.previewCanvas.addEventListener('mouseleave', () => {
+      this.updateScalePreview(null, null);
+      if (this.selectionBox) {
+        this.selectionBox = null;
+        this.updatePreview();
+      }
       this.isPanning = false;
       this.previewCanvas.style.cursor = 'grab';
     });
@@ -207,20 +556,308 @@ export class UI {
     });
   }
 
+  private async collectDroppedFiles(dataTransfer: DataTransfer): Promise<Array<{ file: File; path: string }>> {
+    // Entries must be read synchronously, before the drop event's data is released
+    const entries = Array.from(dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    if (entries.length === 0) {
+      return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+    }
+
+    const files: Array<{ file: File; path: string }> = [];
+    const walk = async (entry: FileSystemEntry): Promise<void> => {
+      if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        files.push({ file, path: entry.fullPath.replace(/^\//, '') });
+      } else if (entry.isDirectory) {
+        // readEntries returns directory contents in batches until it returns an empty list
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        let batch: FileSystemEntry[];
+        do {
+          batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+          for (const child of batch) await walk(child);
+        } while (batch.length > 0);
+      }
+    };
+
+    for (const entry of entries) await walk(entry);
+    return files;
+  }
+
+  // A single file opens in the editor; several files or a folder go to the batch queue
+  private async handleFiles(files: Array<{ file: File; path: string }>) {
+    if (files.length === 0) return;
+
+    // A meta.json or output ZIP restores a previous session, optionally with its source image
+    const sessionFile = files.find(({ file }) => this.sessionImporter.isSessionFile(file));
+    if (sessionFile) {
+      const image = files.find(({ file }) => this.batchProcessor.isSupportedFile(file));
+      await this.restoreSession(sessionFile.file, image?.file ?? null);
+      return;
+    }
+
+    const isFolder = files.some(({ path }) => path.includes('/'));
+    if (files.length === 1 && !isFolder && this.batchItems.length === 0) {
+      await this.handleFile(files[0].file);
+      return;
+    }
+
+    const supported = files
+      .filter(({ file }) => this.batchProcessor.isSupportedFile(file))
+      .sort((a, b) => a.path.localeCompare(b.path));
+    if (supported.length === 0) {
+      this.showStatus('No supported image files found', 'error');
+      return;
+    }
+
+    this.showStatus(`Loading ${supported.length} files...`, 'info');
+    for (const { file, path } of supported) {
+      const item = await this.batchProcessor.createItem(file, path, this.getImportOptions());
+      this.batchProcessor.validateItem(item, this.currentSettings);
+      this.batchItems.push(item);
+      this.renderBatchQueue();
+    }
+
+    if (!this.currentImage) {
+      await this.handleFile(supported[0].file);
+    }
+    this.showStatus(`Added ${supported.length} files to the batch queue`, 'success');
+  }
+
+  private async restoreSession(file: File, image: File | null) {
+    let session: RestoredSession;
+    try {
+      session = await this.sessionImporter.readSession(file, {
+        tile: this.currentSettings,
+        export: this.currentExportSettings
+      });
+    } catch (error) {
+      this.showStatus(`Failed to restore session: ${(error as Error).message}`, 'error');
+      return;
+    }
+
+    if (image) {
+      await this.handleFile(image);
+    }
+
+    this.currentSettings = { ...this.currentSettings, ...session.tile };
+    this.currentExportSettings = {
+      ...this.currentExportSettings,
+      ...session.export,
+      pack: { ...this.currentExportSettings.pack, ...session.export.pack }
+    };
+    this.tileAnnotations = session.annotations;
+    this.selectedTiles = [];
+    this.islandCache = null;
+    this.dedupeCache = null;
+    this.keyedImageCache = null;
+    if (session.animations.length > 0) {
+      this.animations = session.animations;
+    }
+
+    this.updateInputsFromSettings();
+    this.updateExportInputsFromSettings();
+    this.updateSelectionInfo();
+    this.selectAnimation(this.animations.length > 0 ? 0 : null);
+    this.refreshBatchValidation();
+    this.updatePreview();
+    this.saveSettings();
+
+    const warning = this.currentImageMetadata ? this.sessionImporter.checkSource(session, this.currentImageMetadata) : null;
+    if (warning) {
+      this.showStatus(warning, 'warning');
+    } else if (!this.currentImage) {
+      // Checked against the source once it is loaded
+      this.pendingSession = session;
+      this.showStatus('Session restored; load the source image to continue', 'info');
+    } else {
+      this.showStatus(`Session restored from ${file.name}`, 'success');
+    }
+  }
+
+  private renderBatchQueue() {
+    const queue = document.getElementById('batch-queue') as HTMLElement;
+    const list = document.getElementById('batch-list') as HTMLElement;
+    list.replaceChildren();
+    queue.style.display = this.batchItems.length > 0 ? 'block' : 'none';
+
+    for (const item of this.batchItems) {
+      const row = document.createElement('li');
+      row.className = 'batch-item';
+
+      const thumbnail = document.createElement('img');
+      thumbnail.className = 'batch-thumbnail';
+      thumbnail.alt = '';
+      if (item.image) thumbnail.src = item.image.src;
+
+      const details = document.createElement('div');
+      details.className = 'batch-details';
+      const name = document.createElement('div');
+      name.className = 'batch-name';
+      name.textContent = item.path;
+      name.title = item.metadata ? `${item.metadata.width}×${item.metadata.height}` : '';
+      const status = document.createElement('div');
+      status.id = `batch-status-${item.id}`;
+      details.append(name, status);
+
+      const actions = document.createElement('div');
+      actions.className = 'batch-actions';
+      const openBtn = document.createElement('button');
+      openBtn.type = 'button';
+      openBtn.textContent = 'Open';
+      openBtn.disabled = !item.image;
+      openBtn.addEventListener('click', () => this.handleFile(item.file));
+      const overridesBtn = document.createElement('button');
+      overridesBtn.type = 'button';
+      overridesBtn.textContent = 'Overrides';
+      const removeBtn = document.createElement('button');
+      removeBtn.type = 'button';
+      removeBtn.textContent = '×';
+      removeBtn.title = 'Remove from queue';
+      removeBtn.addEventListener('click', () => {
+        this.batchItems = this.batchItems.filter(existing => existing !== item);
+        this.renderBatchQueue();
+      });
+      actions.append(openBtn, overridesBtn, removeBtn);
+
+      const overrides = this.createOverrideInputs(item);
+      overridesBtn.addEventListener('click', () => overrides.classList.toggle('open'));
+
+      row.append(thumbnail, details, actions, overrides);
+      list.appendChild(row);
+      this.updateBatchStatus(item);
+    }
+
+    this.updateBatchSummary();
+  }
+
+  // Empty fields fall back to the shared tiling settings
+  private createOverrideInputs(item: BatchItem): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'batch-overrides';
+    const fields: Array<[keyof BatchOverrides, string]> = [
+      ['tileWidth', 'Width'], ['tileHeight', 'Height'], ['margin', 'Margin'],
+      ['spacing', 'Spacing'], ['offsetX', 'Offset X'], ['offsetY', 'Offset Y']
+    ];
+
+    for (const [key, label] of fields) {
+      const field = document.createElement('label');
+      field.textContent = label;
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '0';
+      input.placeholder = this.currentSettings[key].toString();
+      input.value = item.overrides[key]?.toString() ?? '';
+      input.addEventListener('input', () => {
+        const value = parseInt(input.value);
+        if (isNaN(value)) {
+          delete item.overrides[key];
+        } else {
+          item.overrides[key] = value;
+        }
+        this.batchProcessor.validateItem(item, this.currentSettings);
+        this.updateBatchStatus(item);
+        this.updateBatchSummary();
+      });
+      field.appendChild(input);
+      container.appendChild(field);
+    }
+
+    return container;
+  }
+
+  private updateBatchStatus(item: BatchItem) {
+    const status = document.getElementById(`batch-status-${item.id}`);
+    if (!status) return;
+
+    const labels: Record<BatchItem['status'], string> = {
+      loading: 'Loading...',
+      valid: 'Ready',
+      invalid: 'Invalid',
+      processing: 'Processing...',
+      done: 'Exported',
+      failed: 'Failed'
+    };
+    const overrideCount = Object.keys(item.overrides).length;
+    status.className = `batch-status ${item.status}`;
+    status.textContent = [
+      labels[item.status],
+      overrideCount > 0 ? `${overrideCount} overrides` : '',
+      item.errors[0] ?? ''
+    ].filter(Boolean).join(' · ');
+  }
+
+  private updateBatchSummary() {
+    const ready = this.batchItems.filter(item => item.status === 'valid' || item.status === 'done').length;
+    (document.getElementById('batch-summary') as HTMLElement).textContent = `${this.batchItems.length} files, ${ready} ready`;
+    (document.getElementById('batch-export-btn') as HTMLButtonElement).disabled = ready === 0 || this.exportController !== null;
+  }
+
+  // Queued sheets follow the shared settings, so revalidate them whenever those change
+  private refreshBatchValidation() {
+    for (const item of this.batchItems) {
+      if (item.status === 'done') continue;
+      this.batchProcessor.validateItem(item, this.currentSettings);
+      this.updateBatchStatus(item);
+    }
+    this.updateBatchSummary();
+  }
+
   private async handleFile(file: File) {
     try {
       this.showStatus('Loading image...', 'info');
-      const image = await this.imageLoader.loadImage(file);
+      const image = await this.imageLoader.loadImage(file, this.getImportOptions());
       this.currentImage = image;
       this.currentImageMetadata = this.imageLoader.getImageMetadata(image);
+      this.islandCache = null;
+      this.dedupeCache = null;
+      this.keyedImageCache = null;
+      this.animations = [...this.imageLoader.getImportedAnimations()];
+      this.activeAnimation = null;
+      this.selectedTiles = [];
+      this.gridCandidates = [];
+      this.animationPlayer.stop();
+
+      // Annotations only carry over to the same file, or to the image of a session restored without one
+      const source = `${file.name}:${file.size}`;
+      if (source !== this.annotationSource && !this.pendingSession) {
+        this.tileAnnotations = {};
+      }
+      this.annotationSource = source;
+      this.saveSettings();
+
+      this.updateSelectionInfo();
+      this.updateCandidateInfo();
+
+      // Multi-frame files are laid out on a grid of whole frames
+      if (this.currentImageMetadata.frameCount > 1) {
+        this.currentSettings = {
+          ...this.currentSettings,
+          sliceMode: 'grid',
+          tileWidth: this.currentImageMetadata.frameWidth,
+          tileHeight: this.currentImageMetadata.frameHeight,
+          margin: 0,
+          spacing: 0,
+          offsetX: 0,
+          offsetY: 0
+        };
+        this.updateInputsFromSettings();
+        this.saveSettings();
+      }
       
       this.updateImageInfo();
       this.fitImageToCanvas();
       this.updatePreview();
-      this.showStatus('Image loaded successfully', 'success');
+      const sessionWarning = this.pendingSession ? this.sessionImporter.checkSource(this.pendingSession, this.currentImageMetadata) : null;
+      this.pendingSession = null;
+      this.showStatus(sessionWarning ?? 'Image loaded successfully', sessionWarning ? 'warning' : 'success');
       
       // Enable controls
       this.enableControls(true);
+      this.renderPresetList((document.getElementById('preset-select') as HTMLSelectElement).value);
+
+      this.selectAnimation(this.animations.length > 0 ? 0 : null);
       
     } catch (error) {
       this.showStatus(`Error: ${(error as Error).message}`, 'error');
@@ -233,10 +870,19 @@ export class UI {
     const info = document.getElementById('image-info') as HTMLElement;
     info.innerHTML = `
       <strong>Dimensions:</strong> ${this.currentImageMetadata.width} × ${this.currentImageMetadata.height}px<br>
-      <strong>Alpha Channel:</strong> ${this.currentImageMetadata.hasAlpha ? 'Yes' : 'No'}
+      <strong>Alpha Channel:</strong> ${this.currentImageMetadata.hasAlpha ? 'Yes' : 'No'}<br>
+      <strong>Format:</strong> ${this.currentImageMetadata.format.toUpperCase()}, ${this.currentImageMetadata.colorDepth}-bit<br>
+      <strong>Frames:</strong> ${this.currentImageMetadata.frameCount}
     `;
   }
 
+  private getImportOptions(): ImportOptions {
+    return {
+      frameLayout: (document.getElementById('frame-layout') as HTMLSelectElement).value as ImportOptions['frameLayout'],
+      splitLayers: (document.getElementById('split-layers') as HTMLInputElement).checked
+    };
+  }
+
   private fitImageToCanvas() {
     if (!this.currentImage) return;
     
@@ -260,6 +906,7 @@ export class UI {
 
   private updatePreview() {
     if (!this.currentImage || !this.currentImageMetadata) return;
+    this.pruneAnimationFrames();
     
     // Clear canvases
     this.previewCtx.clearRect(0, 0, this.previewCanvas.width, this.previewCanvas.height);
@@ -268,33 +915,587 @@ export class UI {
     // Calculate image position
     const imageWidth = this.currentImage.width * this.scale;
     const imageHeight = this.currentImage.height * this.scale;
-    const x = (this.previewCanvas.width - imageWidth) / 2 + this.panX;
-    const y = (this.previewCanvas.height - imageHeight) / 2 + this.panY;
+    const { x, y } = this.getImageOffset();
     
-    // Draw image
-    this.previewCtx.drawImage(this.currentImage, x, y, imageWidth, imageHeight);
+    // Draw image (with the color key applied so its effect is visible)
+    this.previewCtx.drawImage(this.getWorkingImage()!, x, y, imageWidth, imageHeight);
     
     // Draw grid if enabled
     const gridToggle = document.getElementById('grid-toggle') as HTMLInputElement;
     if (gridToggle.checked) {
-      const gridInfo = this.gridCalculator.calculateGrid(this.currentSettings, this.currentImageMetadata);
-      
       this.gridOverlay!.ctx.save();
       this.gridOverlay!.ctx.translate(x, y);
-      this.gridOverlay!.drawGrid(this.currentSettings, gridInfo, this.scale);
+
+      if (this.currentSettings.sliceMode === 'islands') {
+        const rects = this.getTileRects();
+        this.gridOverlay!.drawRects(rects, this.scale);
+        this.updateIslandInfo(rects);
+      } else {
+        const gridInfo = this.gridCalculator.calculateGrid(this.currentSettings, this.currentImageMetadata);
+        this.gridOverlay!.drawGrid(this.currentSettings, gridInfo, this.scale);
+
+        // Update grid info display
+        this.updateGridInfo(gridInfo);
+      }
+
+      this.gridOverlay!.ctx.restore();
+    }
+
+    // Highlight tiles selected for an animation
+    if (this.selectedTiles.length > 0) {
+      const rects = this.getTileRects().filter(rect => this.selectedTiles.includes(rect.index));
+      this.gridOverlay!.ctx.save();
+      this.gridOverlay!.ctx.translate(x, y);
+      this.gridOverlay!.fillRects(rects, 'rgba(66, 153, 225, 0.35)', this.scale);
       this.gridOverlay!.ctx.restore();
-      
-      // Update grid info display
-      this.updateGridInfo(gridInfo);
+    }
+
+    // Mark excluded tiles and show custom names
+    if (Object.keys(this.tileAnnotations).length > 0) {
+      const rects = this.getTileRects();
+      const excluded = rects.filter(rect => this.tileAnnotations[rect.index]?.excluded);
+      const labels = rects
+        .filter(rect => this.tileAnnotations[rect.index]?.name)
+        .map(rect => ({ rect, text: this.tileAnnotations[rect.index].name }));
+
+      this.gridOverlay!.ctx.save();
+      this.gridOverlay!.ctx.translate(x, y);
+      this.gridOverlay!.fillRects(excluded, 'rgba(0, 0, 0, 0.5)', this.scale);
+      this.gridOverlay!.drawCrosses(excluded, 'rgba(229, 62, 62, 0.9)', this.scale);
+      this.gridOverlay!.drawLabels(labels, this.scale);
+      this.gridOverlay!.ctx.restore();
+    }
+
+    if (this.selectionBox) {
+      this.gridOverlay!.drawSelectionBox(this.getSelectionBoxRect(this.selectionBox));
     }
     
     // Validate settings and show errors
     this.validateAndShowErrors();
+
+    if (!this.isPanning) {
+      this.updateFilenamePreview();
+    }
+  }
+
+  private getImageOffset(): { x: number; y: number } {
+    if (!this.currentImage) return { x: 0, y: 0 };
+
+    const imageWidth = this.currentImage.width * this.scale;
+    const imageHeight = this.currentImage.height * this.scale;
+    return {
+      x: (this.previewCanvas.width - imageWidth) / 2 + this.panX,
+      y: (this.previewCanvas.height - imageHeight) / 2 + this.panY
+    };
+  }
+
+  private getTileAt(canvasX: number, canvasY: number): TileRect | null {
+    const { x, y } = this.getImageOffset();
+    const imageX = (canvasX - x) / this.scale;
+    const imageY = (canvasY - y) / this.scale;
+
+    return this.getTileRects().find(rect =>
+      imageX >= rect.x && imageX < rect.x + rect.width &&
+      imageY >= rect.y && imageY < rect.y + rect.height
+    ) ?? null;
+  }
+
+  // Shows the hovered tile at the largest export scale other than 1x, run through the chosen filter
+  private updateScalePreview(canvasX: number | null, canvasY: number | null) {
+    const container = document.getElementById('scale-preview') as HTMLElement;
+    const scales = this.currentExportSettings.scales.filter(scale => scale !== 1);
+    const rect = canvasX !== null && canvasY !== null && scales.length > 0 && this.currentImage
+      ? this.getTileAt(canvasX, canvasY)
+      : null;
+    const scale = Math.max(...scales);
+    const { scaleFilter } = this.currentExportSettings;
+    if (!rect || this.tileScaler.validate([scale], scaleFilter).length > 0) {
+      container.classList.remove('visible');
+      return;
+    }
+
+    const tile = createCanvas(rect.width, rect.height);
+    tile.getContext('2d')!.drawImage(this.getWorkingImage()!, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    const scaled = this.tileScaler.scale(tile, scale, scaleFilter);
+
+    const canvas = document.getElementById('scale-preview-canvas') as HTMLCanvasElement;
+    canvas.width = scaled.width;
+    canvas.height = scaled.height;
+    canvas.getContext('2d')!.drawImage(scaled, 0, 0);
+    (document.getElementById('scale-preview-label') as HTMLElement).textContent =
+      `Tile ${rect.index} @${scale}x (${scaled.width}x${scaled.height})`;
+    container.classList.add('visible');
+  }
+
+  private toggleTileAt(canvasX: number, canvasY: number) {
+    const rect = this.getTileAt(canvasX, canvasY);
+    if (!rect) return;
+
+    const position = this.selectedTiles.indexOf(rect.index);
+    if (position === -1) {
+      this.selectedTiles.push(rect.index);
+    } else {
+      this.selectedTiles.splice(position, 1);
+    }
+
+    this.updateSelectionInfo();
+    this.updatePreview();
+  }
+
+  private getSelectionBoxRect(box: { startX: number; startY: number; endX: number; endY: number }) {
+    return {
+      x: Math.min(box.startX, box.endX),
+      y: Math.min(box.startY, box.endY),
+      width: Math.abs(box.endX - box.startX),
+      height: Math.abs(box.endY - box.startY)
+    };
+  }
+
+  private finishSelectionBox() {
+    const box = this.getSelectionBoxRect(this.selectionBox!);
+    this.selectionBox = null;
+
+    // A click without dragging toggles the tile under the cursor
+    if (box.width < 3 && box.height < 3) {
+      this.toggleTileAt(box.x, box.y);
+      return;
+    }
+
+    const { x, y } = this.getImageOffset();
+    const left = (box.x - x) / this.scale;
+    const top = (box.y - y) / this.scale;
+    const right = left + box.width / this.scale;
+    const bottom = top + box.height / this.scale;
+
+    // Add every tile the box touches, in index order
+    const touched = this.getTileRects()
+      .filter(rect => rect.x < right && rect.x + rect.width > left && rect.y < bottom && rect.y + rect.height > top)
+      .sort((a, b) => a.index - b.index);
+    for (const rect of touched) {
+      if (!this.selectedTiles.includes(rect.index)) {
+        this.selectedTiles.push(rect.index);
+      }
+    }
+
+    this.updateSelectionInfo();
+    this.updatePreview();
+  }
+
+  private updateSelectedAnnotations(update: (annotation: TileAnnotation, position: number) => Partial<TileAnnotation>) {
+    if (this.selectedTiles.length === 0) {
+      this.showStatus('Select tiles on the preview first (shift+click or shift+drag)', 'warning');
+      return;
+    }
+
+    this.selectedTiles.forEach((index, position) => {
+      const current = this.tileAnnotations[index] ?? { excluded: false, name: '', tags: [] };
+      const annotation = { ...current, ...update(current, position + 1) };
+
+      // Only keep entries that differ from the defaults
+      if (!annotation.excluded && !annotation.name && annotation.tags.length === 0
+        && !annotation.pivot && !annotation.hitboxes?.length) {
+        delete this.tileAnnotations[index];
+      } else {
+        this.tileAnnotations[index] = annotation;
+      }
+    });
+
+    this.saveSettings();
+    this.updateSelectionInfo();
+    this.updatePreview();
+  }
+
+  private updateSelectionInfo() {
+    const selectionInfo = document.getElementById('tile-selection-info') as HTMLElement;
+    selectionInfo.textContent = this.selectedTiles.length > 0
+      ? `${this.selectedTiles.length} tiles selected: ${this.selectedTiles.join(', ')}`
+      : 'No tiles selected';
+
+    // Show the name and tags of a single selected tile so they can be edited
+    if (this.selectedTiles.length === 1) {
+      const annotation = this.tileAnnotations[this.selectedTiles[0]];
+      (document.getElementById('tile-name') as HTMLInputElement).value = annotation?.name ?? '';
+      (document.getElementById('tile-tags') as HTMLInputElement).value = annotation?.tags.join(', ') ?? '';
+    }
+
+    const annotations = Object.values(this.tileAnnotations);
+    const excluded = annotations.filter(annotation => annotation.excluded).length;
+    const named = annotations.filter(annotation => annotation.name).length;
+    const tagged = annotations.filter(annotation => annotation.tags.length > 0).length;
+    const placed = annotations.filter(annotation => annotation.pivot || annotation.hitboxes?.length).length;
+    (document.getElementById('tile-annotation-info') as HTMLElement).textContent =
+      `${excluded} excluded, ${named} named, ${tagged} tagged, ${placed} with pivots or boxes`;
+    this.updateTileEditor();
+  }
+
+  private getEditedTileRect(): TileRect | null {
+    if (!this.currentImage || this.selectedTiles.length === 0) return null;
+    return this.getTileRects().find(rect => rect.index === this.selectedTiles[0]) ?? null;
+  }
+
+  private createDraggedHitbox(drag: { startX: number; startY: number; endX: number; endY: number }, rect: TileRect): Hitbox | null {
+    const name = (document.getElementById('hitbox-name') as HTMLInputElement).value.trim() || 'hitbox';
+    return this.annotator.createHitbox(name, { x: drag.startX, y: drag.startY }, { x: drag.endX, y: drag.endY }, rect.width, rect.height);
+  }
+
+  private updateTileEditor() {
+    const canvas = document.getElementById('tile-editor-canvas') as HTMLCanvasElement;
+    const list = document.getElementById('hitbox-list') as HTMLElement;
+    const info = document.getElementById('tile-editor-info') as HTMLElement;
+    list.replaceChildren();
+
+    const rect = this.getEditedTileRect();
+    if (!rect) {
+      canvas.classList.remove('visible');
+      info.textContent = 'Select a tile to place its pivot and boxes';
+      return;
+    }
+
+    const annotation = this.tileAnnotations[rect.index];
+    const pivot = annotation?.pivot ?? this.annotator.getDefaultPivot(this.currentSettings);
+    const hitboxes = annotation?.hitboxes ?? [];
+    const draft = this.hitboxDrag ? this.createDraggedHitbox(this.hitboxDrag, rect) : null;
+    this.tileEditorZoom = Math.max(1, Math.floor(192 / Math.max(rect.width, rect.height)));
+    this.annotator.drawEditor(canvas, this.getWorkingImage()!, rect, this.tileEditorZoom, pivot, draft ? [...hitboxes, draft] : hitboxes);
+    canvas.classList.add('visible');
+
+    const others = this.selectedTiles.length - 1;
+    info.textContent = `Tile ${rect.index}: pivot ${pivot.x}, ${pivot.y}${annotation?.pivot ? '' : ' (default)'}`
+      + (others > 0 ? `; edits also apply to the ${others} other selected tiles` : '');
+
+    // Removing a box removes the same box from every selected tile
+    hitboxes.forEach(box => {
+      const item = document.createElement('div');
+      item.className = 'anim-item';
+
+      const label = document.createElement('span');
+      label.textContent = `${box.name} ${box.x},${box.y} ${box.width}×${box.height}`;
+
+      const removeBtn = document.createElement('button');
+      removeBtn.type = 'button';
+      removeBtn.textContent = '×';
+      removeBtn.title = 'Remove box';
+      removeBtn.addEventListener('click', () => {
+        this.updateSelectedAnnotations(current => {
+          const remaining = (current.hitboxes ?? []).filter(other => other.name !== box.name
+            || other.x !== box.x || other.y !== box.y || other.width !== box.width || other.height !== box.height);
+          return { hitboxes: remaining.length > 0 ? remaining : undefined };
+        });
+      });
+
+      item.append(label, removeBtn);
+      list.appendChild(item);
+    });
+  }
+
+  private getAnimationName(): string {
+    const name = (document.getElementById('anim-name') as HTMLInputElement).value.trim();
+    return name || `animation_${this.animations.length + 1}`;
+  }
+
+  private getAnimationDuration(): number {
+    return parseInt((document.getElementById('anim-duration') as HTMLInputElement).value) || 100;
+  }
+
+  private addAnimation(animation: SpriteAnimation) {
+    if (!this.currentImage) {
+      this.showStatus('Please load an image first', 'error');
+      return;
+    }
+    if (animation.frames.length === 0) {
+      this.showStatus('Animation has no frames', 'warning');
+      return;
+    }
+    if (this.animations.some(existing => existing.name === animation.name)) {
+      this.showStatus(`An animation named "${animation.name}" already exists`, 'error');
+      return;
+    }
+
+    this.animations.push(animation);
+    (document.getElementById('anim-name') as HTMLInputElement).value = '';
+    this.selectAnimation(this.animations.length - 1);
+    this.showStatus(`Added animation "${animation.name}" with ${animation.frames.length} frames`, 'success');
+  }
+
+  // A smaller grid or another slice mode can leave frames pointing past the last tile, which the export rejects
+  private pruneAnimationFrames() {
+    if (this.animations.length === 0) return;
+
+    const { animations, removed } = this.animationBuilder.pruneFrames(this.animations, this.getTileRects());
+    if (removed === 0) return;
+
+    const dropped = this.animations.length - animations.length;
+    const active = this.activeAnimation === null ? null : this.animations[this.activeAnimation];
+    const activeIndex = active ? animations.findIndex(animation => animation.name === active.name) : -1;
+    this.animations = animations;
+    this.selectAnimation(activeIndex >= 0 ? activeIndex : (animations.length > 0 ? 0 : null));
+    this.showStatus(
+      `Removed ${removed} animation frame${removed === 1 ? '' : 's'} outside the current tiles`
+        + (dropped > 0 ? ` and ${dropped} empty animation${dropped === 1 ? '' : 's'}` : ''),
+      'warning'
+    );
+  }
+
+  private selectAnimation(index: number | null) {
+    this.activeAnimation = index;
+    this.renderAnimationList();
+    this.playActiveAnimation();
+  }
+
+  private playActiveAnimation() {
+    const label = document.getElementById('anim-preview-label') as HTMLElement;
+
+    if (this.activeAnimation === null || !this.currentImage) {
+      this.animationPlayer.stop();
+      label.textContent = 'No animation selected';
+      return;
+    }
+
+    const animation = this.animations[this.activeAnimation];
+    this.animationPlayer.play(animation, this.getWorkingImage()!, this.getTileRects());
+    label.textContent = `${animation.name} (${animation.frames.length} frames)`;
+  }
+
+  private renderAnimationList() {
+    const list = document.getElementById('anim-list') as HTMLElement;
+    const framesEditor = document.getElementById('anim-frames') as HTMLElement;
+    list.replaceChildren();
+    framesEditor.replaceChildren();
+    this.updateFilenamePreview();
+
+    this.animations.forEach((animation, i) => {
+      const item = document.createElement('div');
+      item.className = i === this.activeAnimation ? 'anim-item active' : 'anim-item';
+
+      const label = document.createElement('span');
+      label.textContent = `${animation.name} (${animation.frames.length})`;
+      label.addEventListener('click', () => this.selectAnimation(i));
+
+      const removeBtn = document.createElement('button');
+      removeBtn.type = 'button';
+      removeBtn.textContent = '×';
+      removeBtn.title = 'Remove animation';
+      removeBtn.addEventListener('click', () => {
+        this.animations.splice(i, 1);
+        this.selectAnimation(this.animations.length > 0 ? Math.min(i, this.animations.length - 1) : null);
+      });
+
+      item.append(label, removeBtn);
+      list.appendChild(item);
+    });
+
+    if (this.activeAnimation === null) return;
+
+    // Per-frame duration editor for the active animation
+    const animation = this.animations[this.activeAnimation];
+    animation.frames.forEach(frame => {
+      const row = document.createElement('label');
+      row.className = 'anim-frame';
+      row.textContent = `#${frame.index}`;
+
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '10';
+      input.value = frame.duration.toString();
+      input.addEventListener('change', () => {
+        frame.duration = Math.max(10, parseInt(input.value) || 100);
+        this.playActiveAnimation();
+      });
+
+      row.appendChild(input);
+      framesEditor.appendChild(row);
+    });
   }
 
   private updateGridInfo(gridInfo: GridInfo) {
     const gridInfoElement = document.getElementById('grid-info') as HTMLElement;
-    gridInfoElement.textContent = `${gridInfo.rows} × ${gridInfo.cols} = ${gridInfo.totalTiles} tiles`;
+    gridInfoElement.textContent = `${gridInfo.rows} × ${gridInfo.cols} = ${gridInfo.totalTiles} tiles${this.getUniqueTileInfo()}`;
+  }
+
+  private updateIslandInfo(rects: TileRect[]) {
+    const gridInfoElement = document.getElementById('grid-info') as HTMLElement;
+    gridInfoElement.textContent = `${rects.length} sprites detected${this.getUniqueTileInfo()}`;
+  }
+
+  // Mirrors the slicer: excluded tiles don't take part, so the count matches what the export writes
+  private getUniqueTileInfo(): string {
+    if (!this.currentSettings.dedupe) return '';
+
+    const rects = this.getTileRects().filter(rect => !this.tileAnnotations[rect.index]?.excluded);
+    const { dedupeTransforms, dedupeTolerance } = this.currentSettings;
+    const defaultPivot = this.annotator.getDefaultPivot(this.currentSettings);
+    const groups = new Map(rects.map(rect => {
+      const annotation = this.tileAnnotations[rect.index];
+      return [rect.index, this.deduplicator.getGroupKey({
+        name: annotation?.name ?? '',
+        tags: annotation?.tags ?? [],
+        pivot: annotation?.pivot ?? defaultPivot,
+        hitboxes: annotation?.hitboxes ?? []
+      })];
+    }));
+    const key = [
+      rects.map(rect => `${rect.x},${rect.y},${rect.width},${rect.height}`).join(';'),
+      [...groups.values()].join(';'),
+      dedupeTransforms,
+      dedupeTolerance,
+      this.getColorKeyCacheKey()
+    ].join('|');
+
+    if (!this.dedupeCache || this.dedupeCache.key !== key) {
+      const duplicates = this.deduplicator.findDuplicates(this.getWorkingImage()!, rects, this.currentSettings, groups);
+      this.dedupeCache = { key, unique: rects.length - duplicates.size };
+    }
+    return ` (${this.dedupeCache.unique} unique)`;
+  }
+
+  private getTileRects(): TileRect[] {
+    if (!this.currentImage || !this.currentImageMetadata) return [];
+
+    if (this.currentSettings.sliceMode === 'islands') {
+      // Island detection scans every pixel, so only rerun it when its inputs change
+      const key = `${this.currentSettings.alphaThreshold}:${this.currentSettings.mergeDistance}:${this.getColorKeyCacheKey()}`;
+      if (!this.islandCache || this.islandCache.key !== key) {
+        this.islandCache = {
+          key,
+          rects: this.islandDetector.detectIslands(this.getWorkingImage()!, this.currentSettings)
+        };
+      }
+      return this.islandCache.rects;
+    }
+
+    const gridInfo = this.gridCalculator.calculateGrid(this.currentSettings, this.currentImageMetadata);
+    return this.gridCalculator.getTileRects(this.currentSettings, gridInfo);
+  }
+
+  // The source image with the color key applied, or the image itself when keying is off
+  private getWorkingImage(): SheetSource | null {
+    if (!this.currentImage) return null;
+    if (!this.currentSettings.colorKeyEnabled) return this.currentImage;
+
+    const key = this.getColorKeyCacheKey();
+    if (!this.keyedImageCache || this.keyedImageCache.key !== key) {
+      this.keyedImageCache = {
+        key,
+        canvas: this.colorKeyer.applyColorKey(
+          this.currentImage,
+          this.currentSettings.colorKey,
+          this.currentSettings.colorKeyTolerance
+        )
+      };
+    }
+    return this.keyedImageCache.canvas;
+  }
+
+  private getColorKeyCacheKey(): string {
+    const { colorKeyEnabled, colorKey, colorKeyTolerance } = this.currentSettings;
+    return colorKeyEnabled ? `${colorKey}:${colorKeyTolerance}` : 'none';
+  }
+
+  private pickColorKeyAt(canvasX: number, canvasY: number) {
+    if (!this.currentImage) return;
+
+    const { x, y } = this.getImageOffset();
+    const imageX = Math.floor((canvasX - x) / this.scale);
+    const imageY = Math.floor((canvasY - y) / this.scale);
+    if (imageX < 0 || imageY < 0 || imageX >= this.currentImage.width || imageY >= this.currentImage.height) {
+      return;
+    }
+
+    // Always sample the original pixels, not the already keyed image
+    const color = this.colorKeyer.pickColor(this.currentImage, imageX, imageY);
+    (document.getElementById('color-key') as HTMLInputElement).value = color;
+    (document.getElementById('color-key-enabled') as HTMLInputElement).checked = true;
+
+    this.isPickingColor = false;
+    (document.getElementById('pick-color-btn') as HTMLButtonElement).classList.remove('active');
+    this.previewCanvas.style.cursor = 'grab';
+
+    this.updateSettingsFromInputs();
+    this.updatePreview();
+    this.saveSettings();
+    this.showStatus(`Background color set to ${color}`, 'success');
+  }
+
+  private updateSliceModeVisibility() {
+    const isIslands = this.currentSettings.sliceMode === 'islands';
+    (document.getElementById('grid-settings') as HTMLElement).style.display = isIslands ? 'none' : 'block';
+    (document.getElementById('island-settings') as HTMLElement).style.display = isIslands ? 'block' : 'none';
+  }
+
+  // One checkbox per registered target, so targets added with registerExportTarget show up too
+  private renderExportTargets(): HTMLInputElement[] {
+    const container = document.getElementById('export-targets') as HTMLElement;
+    return getExportTargets().map(target => {
+      const input = document.createElement('input');
+      input.type = 'checkbox';
+      input.value = target.id;
+
+      const label = document.createElement('label');
+      label.append(input, ` ${target.label}`);
+      container.appendChild(label);
+      return input;
+    });
+  }
+
+  private updateExportVisibility() {
+    const { atlasFormat, atlasSource } = this.currentExportSettings;
+    (document.getElementById('template-options') as HTMLElement).style.display =
+      this.currentExportSettings.namingPattern === 'template' ? 'block' : 'none';
+    (document.getElementById('atlas-options') as HTMLElement).style.display = atlasFormat === 'none' ? 'none' : 'block';
+    (document.getElementById('pack-settings') as HTMLElement).style.display = atlasSource === 'packed' ? 'block' : 'none';
+  }
+
+  private updateFilenamePreview() {
+    const preview = document.getElementById('filename-preview') as HTMLElement;
+    preview.replaceChildren();
+
+    if (!this.currentImage || !this.currentImageMetadata) {
+      preview.textContent = 'Load an image to preview filenames';
+      return;
+    }
+
+    const tiles = this.getTileRects()
+      .filter(rect => !this.tileAnnotations[rect.index]?.excluded)
+      .map(rect => ({
+        row: rect.row,
+        col: rect.col,
+        index: rect.index,
+        name: this.tileAnnotations[rect.index]?.name ?? '',
+        tags: this.tileAnnotations[rect.index]?.tags ?? [],
+        sourceRect: rect
+      }));
+    const filenames = this.filenameGenerator.generate(tiles, this.currentExportSettings, {
+      baseName: this.currentImageMetadata.name,
+      animations: this.animations
+    });
+
+    const list = document.createElement('ul');
+    for (const filename of filenames.slice(0, 5)) {
+      const item = document.createElement('li');
+      item.textContent = filename;
+      list.appendChild(item);
+    }
+    if (filenames.length > 5) {
+      const more = document.createElement('li');
+      more.textContent = `... ${filenames.length - 5} more`;
+      list.appendChild(more);
+    }
+    preview.appendChild(list);
+
+    const problems = this.currentExportSettings.namingPattern === 'template'
+      ? this.filenameGenerator.validateTemplate(this.currentExportSettings.filenameTemplate)
+      : [];
+    const collisions = this.filenameGenerator.findCollisions(filenames);
+    if (collisions.length > 0) {
+      problems.push(`${collisions.length} duplicate names: ${collisions.slice(0, 3).join(', ')}${collisions.length > 3 ? ', ...' : ''}`);
+    }
+
+    for (const problem of problems) {
+      const error = document.createElement('div');
+      error.className = 'error';
+      error.textContent = problem;
+      preview.appendChild(error);
+    }
   }
 
   private validateAndShowErrors() {
@@ -313,6 +1514,7 @@ export class UI {
 
   private updateSettingsFromInputs() {
     this.currentSettings = {
+      sliceMode: (document.getElementById('slice-mode') as HTMLSelectElement).value as TileSettings['sliceMode'],
       tileWidth: parseInt((document.getElementById('tile-width') as HTMLInputElement).value) || 32,
       tileHeight: parseInt((document.getElementById('tile-height') as HTMLInputElement).value) || 32,
       margin: parseInt((document.getElementById('margin') as HTMLInputElement).value) || 0,
@@ -320,16 +1522,48 @@ export class UI {
       offsetX: parseInt((document.getElementById('offset-x') as HTMLInputElement).value) || 0,
       offsetY: parseInt((document.getElementById('offset-y') as HTMLInputElement).value) || 0,
       trimTransparent: (document.getElementById('trim-transparent') as HTMLInputElement).checked,
-      preservePadding: parseInt((document.getElementById('preserve-padding') as HTMLInputElement).value) || 0
+      preservePadding: parseInt((document.getElementById('preserve-padding') as HTMLInputElement).value) || 0,
+      edgeMode: (document.getElementById('edge-mode') as HTMLSelectElement).value as TileSettings['edgeMode'],
+      edgeSize: parseInt((document.getElementById('edge-size') as HTMLInputElement).value) || 0,
+      alphaThreshold: parseInt((document.getElementById('alpha-threshold') as HTMLInputElement).value) || 0,
+      mergeDistance: parseInt((document.getElementById('merge-distance') as HTMLInputElement).value) || 0,
+      colorKeyEnabled: (document.getElementById('color-key-enabled') as HTMLInputElement).checked,
+      colorKey: (document.getElementById('color-key') as HTMLInputElement).value,
+      colorKeyTolerance: parseInt((document.getElementById('color-key-tolerance') as HTMLInputElement).value) || 0,
+      dedupe: (document.getElementById('dedupe') as HTMLInputElement).checked,
+      dedupeTransforms: (document.getElementById('dedupe-transforms') as HTMLInputElement).checked,
+      dedupeTolerance: parseInt((document.getElementById('dedupe-tolerance') as HTMLInputElement).value) || 0,
+      pivotX: parseFloat((document.getElementById('pivot-x') as HTMLInputElement).value) || 0,
+      pivotY: parseFloat((document.getElementById('pivot-y') as HTMLInputElement).value) || 0
     };
+    this.refreshBatchValidation();
   }
 
   private updateExportSettingsFromInputs() {
     this.currentExportSettings = {
       namingPattern: (document.getElementById('naming-pattern') as HTMLSelectElement).value as any,
       customPrefix: (document.getElementById('custom-prefix') as HTMLInputElement).value,
+      filenameTemplate: (document.getElementById('filename-template') as HTMLInputElement).value,
       skipTransparent: (document.getElementById('skip-transparent') as HTMLInputElement).checked,
-      includeContactSheet: (document.getElementById('include-contact-sheet') as HTMLInputElement).checked
+      includeContactSheet: (document.getElementById('include-contact-sheet') as HTMLInputElement).checked,
+      includeTiles: (document.getElementById('include-tiles') as HTMLInputElement).checked,
+      scales: [...document.querySelectorAll<HTMLInputElement>('#export-scales input:checked')].map(input => Number(input.value)),
+      scaleFilter: (document.getElementById('scale-filter') as HTMLSelectElement).value as ExportSettings['scaleFilter'],
+      atlasFormat: (document.getElementById('atlas-format') as HTMLSelectElement).value as ExportSettings['atlasFormat'],
+      atlasSource: (document.getElementById('atlas-source') as HTMLSelectElement).value as ExportSettings['atlasSource'],
+      pack: {
+        algorithm: (document.getElementById('pack-algorithm') as HTMLSelectElement).value as ExportSettings['pack']['algorithm'],
+        maxSize: parseInt((document.getElementById('pack-max-size') as HTMLSelectElement).value) || 2048,
+        powerOfTwo: (document.getElementById('pack-power-of-two') as HTMLInputElement).checked,
+        padding: parseInt((document.getElementById('pack-padding') as HTMLInputElement).value) || 0,
+        extrude: parseInt((document.getElementById('pack-extrude') as HTMLInputElement).value) || 0,
+        allowRotation: (document.getElementById('pack-rotation') as HTMLInputElement).checked
+      },
+      includeTiledTileset: (document.getElementById('include-tiled-tileset') as HTMLInputElement).checked,
+      includeTiledJson: (document.getElementById('include-tiled-json') as HTMLInputElement).checked,
+      includeLdtkTileset: (document.getElementById('include-ldtk-tileset') as HTMLInputElement).checked,
+      includeTilemap: (document.getElementById('include-tilemap') as HTMLInputElement).checked,
+      targets: [...document.querySelectorAll<HTMLInputElement>('#export-targets input:checked')].map(input => input.value)
     };
   }
 
@@ -341,27 +1575,59 @@ export class UI {
     
     this.showStatus('Detecting tile size...', 'info');
     
-    const detected = this.gridCalculator.autoDetectTileSize(this.currentImage);
+    this.gridCandidates = this.gridCalculator.detectGridCandidates(this.getWorkingImage()!);
     
-    if (detected) {
-      // Update inputs with detected values
-      if (detected.tileWidth) (document.getElementById('tile-width') as HTMLInputElement).value = detected.tileWidth.toString();
-      if (detected.tileHeight) (document.getElementById('tile-height') as HTMLInputElement).value = detected.tileHeight.toString();
-      if (detected.margin !== undefined) (document.getElementById('margin') as HTMLInputElement).value = detected.margin.toString();
-      if (detected.spacing !== undefined) (document.getElementById('spacing') as HTMLInputElement).value = detected.spacing.toString();
-      if (detected.offsetX !== undefined) (document.getElementById('offset-x') as HTMLInputElement).value = detected.offsetX.toString();
-      if (detected.offsetY !== undefined) (document.getElementById('offset-y') as HTMLInputElement).value = detected.offsetY.toString();
-      
-      this.updateSettingsFromInputs();
-      this.updatePreview();
-      this.saveSettings();
-      
-      this.showStatus(`Auto-detected: ${detected.tileWidth}×${detected.tileHeight} tiles`, 'success');
+    if (this.gridCandidates.length > 0) {
+      this.applyGridCandidate(0);
+      const best = this.gridCandidates[0].settings;
+      this.showStatus(`Auto-detected: ${best.tileWidth}×${best.tileHeight} tiles`, 'success');
     } else {
+      this.updateCandidateInfo();
       this.showStatus('Could not auto-detect tile size. Please set manually.', 'warning');
     }
   }
 
+  private applyGridCandidate(index: number) {
+    const count = this.gridCandidates.length;
+    if (count === 0) return;
+
+    this.activeCandidate = (index + count) % count;
+    const detected = this.gridCandidates[this.activeCandidate].settings;
+
+    // Update inputs with detected values
+    (document.getElementById('tile-width') as HTMLInputElement).value = detected.tileWidth.toString();
+    (document.getElementById('tile-height') as HTMLInputElement).value = detected.tileHeight.toString();
+    (document.getElementById('margin') as HTMLInputElement).value = detected.margin.toString();
+    (document.getElementById('spacing') as HTMLInputElement).value = detected.spacing.toString();
+    (document.getElementById('offset-x') as HTMLInputElement).value = detected.offsetX.toString();
+    (document.getElementById('offset-y') as HTMLInputElement).value = detected.offsetY.toString();
+    
+    this.updateSettingsFromInputs();
+    this.updatePreview();
+    this.saveSettings();
+    this.updateCandidateInfo();
+  }
+
+  private updateCandidateInfo() {
+    const picker = document.getElementById('grid-candidates') as HTMLElement;
+    const info = document.getElementById('grid-candidate-info') as HTMLElement;
+
+    if (this.gridCandidates.length === 0) {
+      picker.style.display = 'none';
+      return;
+    }
+
+    const { settings, confidence } = this.gridCandidates[this.activeCandidate];
+    const parts = [`${settings.tileWidth}×${settings.tileHeight}`];
+    if (settings.margin > 0) parts.push(`margin ${settings.margin}`);
+    if (settings.spacing > 0) parts.push(`spacing ${settings.spacing}`);
+    if (settings.offsetX > 0 || settings.offsetY > 0) parts.push(`offset ${settings.offsetX},${settings.offsetY}`);
+
+    info.textContent = `Candidate ${this.activeCandidate + 1}/${this.gridCandidates.length}: ` +
+      `${parts.join(', ')} (${Math.round(confidence * 100)}%)`;
+    picker.style.display = 'flex';
+  }
+
   private async exportTiles() {
     if (!this.currentImage || !this.currentImageMetadata) {
       this.showStatus('Please load an image first', 'error');
@@ -373,13 +1639,26 @@ export class UI {
       this.showStatus('Please fix validation errors before exporting', 'error');
       return;
     }
+
+    if (this.currentExportSettings.namingPattern === 'template') {
+      const templateErrors = this.filenameGenerator.validateTemplate(this.currentExportSettings.filenameTemplate);
+      if (templateErrors.length > 0) {
+        this.showStatus(`Invalid filename template: ${templateErrors[0]}`, 'error');
+        return;
+      }
+    }
     
+    this.exportController = new AbortController();
+    const { signal } = this.exportController;
+    this.showExportReport([]);
+    let tiles: TileData[] = [];
+
     try {
       const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
       exportBtn.disabled = true;
       exportBtn.textContent = 'Exporting...';
       
-      const gridInfo = this.gridCalculator.calculateGrid(this.currentSettings, this.currentImageMetadata);
+      const rects = this.getTileRects();
       
       // Show progress
       const progressContainer = document.getElementById('export-progress') as HTMLElement;
@@ -395,36 +1674,54 @@ export class UI {
       
       // Slice tiles
       this.showStatus('Slicing tiles...', 'info');
-      const tiles = await this.slicer.sliceSprite(
-        this.currentImage,
+      const workingImage = this.getWorkingImage()!;
+      tiles = await this.slicer.sliceSprite(
+        workingImage,
         this.currentSettings,
-        gridInfo,
-        updateProgress
+        rects,
+        this.tileAnnotations,
+        updateProgress,
+        signal
       );
       
       // Create contact sheet if needed
       let contactSheet: HTMLCanvasElement | undefined;
       if (this.currentExportSettings.includeContactSheet) {
         this.showStatus('Creating contact sheet...', 'info');
-        contactSheet = this.slicer.createContactSheet(tiles);
+        contactSheet = this.slicer.createContactSheet(tiles.filter(tile => !tile.excluded));
       }
       
       // Export to ZIP
       this.showStatus('Creating ZIP file...', 'info');
-      await this.zipExporter.exportTiles(
+      const result = await this.zipExporter.exportTiles(
         tiles,
         this.currentSettings,
         this.currentExportSettings,
         this.currentImageMetadata,
+        workingImage,
+        this.animations,
         contactSheet,
-        updateProgress
+        updateProgress,
+        signal
       );
+      this.saveZip(result.zip, 'sprites_out.zip');
       
-      this.showStatus('Export completed successfully!', 'success');
+      this.showExportReport(result.errors.map(error => this.formatTileError(error)));
+      if (result.errors.length > 0) {
+        this.showStatus(`Exported ${result.exportedTiles} tiles, ${result.errors.length} failed`, 'warning');
+      } else {
+        this.showStatus('Export completed successfully!', 'success');
+      }
       
     } catch (error) {
-      this.showStatus(`Export failed: ${(error as Error).message}`, 'error');
+      if (signal.aborted) {
+        this.showStatus('Export canceled', 'warning');
+      } else {
+        this.showStatus(`Export failed: ${(error as Error).message}`, 'error');
+      }
     } finally {
+      this.slicer.releaseTiles(tiles);
+      this.exportController = null;
       const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
       exportBtn.disabled = false;
       exportBtn.textContent = 'Export ZIP';
@@ -434,6 +1731,239 @@ export class UI {
     }
   }
 
+  private async exportBatch() {
+    const items = this.batchItems.filter(item => item.status === 'valid' || item.status === 'done');
+    if (items.length === 0) {
+      this.showStatus('No valid files in the batch queue', 'error');
+      return;
+    }
+
+    if (this.currentExportSettings.namingPattern === 'template') {
+      const templateErrors = this.filenameGenerator.validateTemplate(this.currentExportSettings.filenameTemplate);
+      if (templateErrors.length > 0) {
+        this.showStatus(`Invalid filename template: ${templateErrors[0]}`, 'error');
+        return;
+      }
+    }
+
+    this.exportController = new AbortController();
+    const { signal } = this.exportController;
+    this.showExportReport([]);
+
+    const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
+    const batchExportBtn = document.getElementById('batch-export-btn') as HTMLButtonElement;
+    const progressContainer = document.getElementById('export-progress') as HTMLElement;
+    const progressBar = document.getElementById('progress-bar') as HTMLElement;
+    const progressText = document.getElementById('progress-text') as HTMLElement;
+
+    try {
+      exportBtn.disabled = true;
+      batchExportBtn.disabled = true;
+      batchExportBtn.textContent = 'Exporting...';
+      progressContainer.style.display = 'block';
+
+      const updateProgress = (progress: ExportProgress) => {
+        progressBar.style.width = `${progress.percentage}%`;
+        const eta = progress.eta ? ` (ETA: ${Math.round(progress.eta / 1000)}s)` : '';
+        progressText.textContent = `Sheet ${progress.current}/${progress.total}${eta}`;
+        this.renderBatchStatuses();
+      };
+
+      this.showStatus(`Exporting ${items.length} sheets...`, 'info');
+      const { reports, zip } = await this.batchProcessor.exportBatch(
+        items,
+        this.currentSettings,
+        this.currentExportSettings,
+        updateProgress,
+        signal
+      );
+      this.saveZip(zip, 'sprites_batch.zip');
+
+      const problems = reports.flatMap(report => this.formatSheetReport(report));
+      const failedSheets = reports.filter(report => report.error).length;
+      this.showExportReport(problems);
+      if (problems.length > 0) {
+        this.showStatus(`Exported ${reports.length - failedSheets}/${reports.length} sheets with ${problems.length} problems`, 'warning');
+      } else {
+        this.showStatus(`Exported ${reports.length} sheets successfully!`, 'success');
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        this.showStatus('Export canceled', 'warning');
+      } else {
+        this.showStatus(`Export failed: ${(error as Error).message}`, 'error');
+      }
+    } finally {
+      this.exportController = null;
+      exportBtn.disabled = false;
+      batchExportBtn.textContent = 'Export All';
+      progressContainer.style.display = 'none';
+      this.renderBatchStatuses();
+    }
+  }
+
+  private renderBatchStatuses() {
+    this.batchItems.forEach(item => this.updateBatchStatus(item));
+    this.updateBatchSummary();
+  }
+
+  private formatTileError(error: TileError): string {
+    return `Tile ${error.index} (row ${error.row}, col ${error.col}) failed to ${error.stage}: ${error.message}`;
+  }
+
+  private formatSheetReport(report: SheetReport): string[] {
+    if (report.error) return [`${report.name}: ${report.error}`];
+    return report.errors.map(error => `${report.folder}/ ${this.formatTileError(error)}`);
+  }
+
+  private showExportReport(problems: string[]) {
+    const report = document.getElementById('export-report') as HTMLElement;
+    report.replaceChildren();
+    report.style.display = problems.length > 0 ? 'block' : 'none';
+    if (problems.length === 0) return;
+
+    const title = document.createElement('div');
+    title.className = 'export-report-title';
+    title.textContent = `${problems.length} problems:`;
+    report.appendChild(title);
+
+    const list = document.createElement('ul');
+    for (const problem of problems) {
+      const item = document.createElement('li');
+      item.textContent = problem;
+      list.appendChild(item);
+    }
+    report.appendChild(list);
+  }
+
+  private async loadPresets() {
+    try {
+      this.savedPresets = await this.presetStore.list();
+    } catch (error) {
+      console.warn('Failed to load presets:', error);
+    }
+    this.renderPresetList();
+  }
+
+  private renderPresetList(selected: string = '') {
+    const presetSelect = document.getElementById('preset-select') as HTMLSelectElement;
+    const placeholder = document.createElement('option');
+    placeholder.value = '';
+    placeholder.textContent = 'Choose a preset...';
+    presetSelect.replaceChildren(placeholder);
+
+    const groups: Array<[string, SettingsPreset[]]> = [['Built-in', BUILT_IN_PRESETS], ['Saved', this.savedPresets]];
+    for (const [label, presets] of groups) {
+      if (presets.length === 0) continue;
+      const group = document.createElement('optgroup');
+      group.label = label;
+      for (const preset of presets) {
+        const option = document.createElement('option');
+        option.value = preset.name;
+        option.textContent = preset.name;
+        group.appendChild(option);
+      }
+      presetSelect.appendChild(group);
+    }
+
+    presetSelect.value = selected;
+    (document.getElementById('preset-delete') as HTMLButtonElement).disabled = !this.savedPresets.some(preset => preset.name === selected);
+    (document.getElementById('preset-export') as HTMLButtonElement).disabled = this.savedPresets.length === 0;
+  }
+
+  private findPreset(name: string): SettingsPreset | undefined {
+    return BUILT_IN_PRESETS.find(preset => preset.name === name) ?? this.savedPresets.find(preset => preset.name === name);
+  }
+
+  private applyPreset(preset: SettingsPreset) {
+    this.currentSettings = { ...this.currentSettings, ...preset.tile };
+    if (preset.export) {
+      this.currentExportSettings = {
+        ...this.currentExportSettings,
+        ...preset.export,
+        pack: { ...this.currentExportSettings.pack, ...preset.export.pack }
+      };
+    }
+
+    this.updateInputsFromSettings();
+    this.updateExportInputsFromSettings();
+    this.refreshBatchValidation();
+    this.updatePreview();
+    this.saveSettings();
+    this.renderPresetList(preset.name);
+    (document.getElementById('preset-name') as HTMLInputElement).value = this.presetStore.isBuiltIn(preset.name) ? '' : preset.name;
+    this.showStatus(`Applied preset "${preset.name}"`, 'success');
+  }
+
+  private async savePreset() {
+    const nameInput = document.getElementById('preset-name') as HTMLInputElement;
+    const name = nameInput.value.trim();
+    if (!name) {
+      this.showStatus('Enter a name for the preset', 'error');
+      return;
+    }
+
+    const preset: SettingsPreset = {
+      name,
+      tile: { ...this.currentSettings },
+      export: { ...this.currentExportSettings, pack: { ...this.currentExportSettings.pack } }
+    };
+
+    try {
+      await this.presetStore.save(preset);
+      this.savedPresets = await this.presetStore.list();
+      this.renderPresetList(name);
+      this.showStatus(`Saved preset "${name}"`, 'success');
+    } catch (error) {
+      this.showStatus(`Failed to save preset: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async deletePreset(name: string) {
+    if (!name || this.presetStore.isBuiltIn(name)) return;
+
+    try {
+      await this.presetStore.delete(name);
+      this.savedPresets = await this.presetStore.list();
+      this.renderPresetList();
+      this.showStatus(`Deleted preset "${name}"`, 'success');
+    } catch (error) {
+      this.showStatus(`Failed to delete preset: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private exportPresets() {
+    if (this.savedPresets.length === 0) {
+      this.showStatus('No saved presets to export', 'warning');
+      return;
+    }
+
+    const json = this.presetStore.toJson(this.savedPresets);
+    saveAs(new Blob([json], { type: 'application/json' }), 'sprite-slicer-presets.json');
+  }
+
+  // Imported presets replace saved ones with the same name
+  private async importPresets(file: File) {
+    try {
+      const presets = this.presetStore.parseJson(await file.text(), {
+        tile: this.currentSettings,
+        export: this.currentExportSettings
+      });
+      for (const preset of presets) {
+        await this.presetStore.save(preset);
+      }
+      this.savedPresets = await this.presetStore.list();
+      this.renderPresetList();
+      this.showStatus(`Imported ${presets.length} presets`, 'success');
+    } catch (error) {
+      this.showStatus(`Failed to import presets: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private saveZip(data: Uint8Array, filename: string) {
+    saveAs(new Blob([data as Uint8Array<ArrayBuffer>], { type: 'application/zip' }), filename);
+  }
+
   private enableControls(enabled: boolean) {
     const controls = document.querySelectorAll('#controls input, #controls select, #controls button');
     controls.forEach(control => {
@@ -458,7 +1988,9 @@ export class UI {
   private saveSettings() {
     const settings = {
       tile: this.currentSettings,
-      export: this.currentExportSettings
+      export: this.currentExportSettings,
+      annotations: this.tileAnnotations,
+      annotationSource: this.annotationSource
     };
     localStorage.setItem('sprite-slicer-settings', JSON.stringify(settings));
   }
@@ -476,6 +2008,11 @@ export class UI {
           this.currentExportSettings = { ...this.currentExportSettings, ...settings.export };
           this.updateExportInputsFromSettings();
         }
+        if (settings.annotations) {
+          this.tileAnnotations = settings.annotations;
+          this.annotationSource = settings.annotationSource ?? null;
+          this.updateSelectionInfo();
+        }
       } catch (error) {
         console.warn('Failed to load saved settings:', error);
       }
@@ -483,6 +2020,7 @@ export class UI {
   }
 
   private updateInputsFromSettings() {
+    (document.getElementById('slice-mode') as HTMLSelectElement).value = this.currentSettings.sliceMode;
     (document.getElementById('tile-width') as HTMLInputElement).value = this.currentSettings.tileWidth.toString();
     (document.getElementById('tile-height') as HTMLInputElement).value = this.currentSettings.tileHeight.toString();
     (document.getElementById('margin') as HTMLInputElement).value = this.currentSettings.margin.toString();
@@ -491,13 +2029,52 @@ export class UI {
     (document.getElementById('offset-y') as HTMLInputElement).value = this.currentSettings.offsetY.toString();
     (document.getElementById('trim-transparent') as HTMLInputElement).checked = this.currentSettings.trimTransparent;
     (document.getElementById('preserve-padding') as HTMLInputElement).value = this.currentSettings.preservePadding.toString();
+    (document.getElementById('edge-mode') as HTMLSelectElement).value = this.currentSettings.edgeMode;
+    (document.getElementById('edge-size') as HTMLInputElement).value = this.currentSettings.edgeSize.toString();
+    (document.getElementById('alpha-threshold') as HTMLInputElement).value = this.currentSettings.alphaThreshold.toString();
+    (document.getElementById('merge-distance') as HTMLInputElement).value = this.currentSettings.mergeDistance.toString();
+    (document.getElementById('color-key-enabled') as HTMLInputElement).checked = this.currentSettings.colorKeyEnabled;
+    (document.getElementById('color-key') as HTMLInputElement).value = this.currentSettings.colorKey;
+    (document.getElementById('color-key-tolerance') as HTMLInputElement).value = this.currentSettings.colorKeyTolerance.toString();
+    (document.getElementById('dedupe') as HTMLInputElement).checked = this.currentSettings.dedupe;
+    (document.getElementById('dedupe-transforms') as HTMLInputElement).checked = this.currentSettings.dedupeTransforms;
+    (document.getElementById('dedupe-tolerance') as HTMLInputElement).value = this.currentSettings.dedupeTolerance.toString();
+    (document.getElementById('pivot-x') as HTMLInputElement).value = this.currentSettings.pivotX.toString();
+    (document.getElementById('pivot-y') as HTMLInputElement).value = this.currentSettings.pivotY.toString();
+    (document.getElementById('pivot-anchor') as HTMLSelectElement).value =
+      this.annotator.getAnchorName(this.annotator.getDefaultPivot(this.currentSettings)) ?? 'custom';
+    this.updateSliceModeVisibility();
   }
 
   private updateExportInputsFromSettings() {
     (document.getElementById('naming-pattern') as HTMLSelectElement).value = this.currentExportSettings.namingPattern;
     (document.getElementById('custom-prefix') as HTMLInputElement).value = this.currentExportSettings.customPrefix;
+    (document.getElementById('filename-template') as HTMLInputElement).value = this.currentExportSettings.filenameTemplate;
     (document.getElementById('skip-transparent') as HTMLInputElement).checked = this.currentExportSettings.skipTransparent;
     (document.getElementById('include-contact-sheet') as HTMLInputElement).checked = this.currentExportSettings.includeContactSheet;
+    (document.getElementById('include-tiles') as HTMLInputElement).checked = this.currentExportSettings.includeTiles;
+    document.querySelectorAll<HTMLInputElement>('#export-scales input').forEach(input => {
+      input.checked = this.currentExportSettings.scales.includes(Number(input.value));
+    });
+    (document.getElementById('scale-filter') as HTMLSelectElement).value = this.currentExportSettings.scaleFilter;
+    (document.getElementById('atlas-format') as HTMLSelectElement).value = this.currentExportSettings.atlasFormat;
+    (document.getElementById('atlas-source') as HTMLSelectElement).value = this.currentExportSettings.atlasSource;
+    (document.getElementById('pack-algorithm') as HTMLSelectElement).value = this.currentExportSettings.pack.algorithm;
+    (document.getElementById('pack-max-size') as HTMLSelectElement).value = this.currentExportSettings.pack.maxSize.toString();
+    (document.getElementById('pack-power-of-two') as HTMLInputElement).checked = this.currentExportSettings.pack.powerOfTwo;
+    (document.getElementById('pack-padding') as HTMLInputElement).value = this.currentExportSettings.pack.padding.toString();
+    (document.getElementById('pack-extrude') as HTMLInputElement).value = this.currentExportSettings.pack.extrude.toString();
+    (document.getElementById('pack-rotation') as HTMLInputElement).checked = this.currentExportSettings.pack.allowRotation;
+    (document.getElementById('include-tiled-tileset') as HTMLInputElement).checked = this.currentExportSettings.includeTiledTileset;
+    (document.getElementById('include-tiled-json') as HTMLInputElement).checked = this.currentExportSettings.includeTiledJson;
+    (document.getElementById('include-ldtk-tileset') as HTMLInputElement).checked = this.currentExportSettings.includeLdtkTileset;
+    (document.getElementById('include-tilemap') as HTMLInputElement).checked = this.currentExportSettings.includeTilemap;
+    // Saved settings and restored sessions may name targets this build doesn't have
+    this.currentExportSettings.targets = this.currentExportSettings.targets.filter(id => getExportTarget(id));
+    document.querySelectorAll<HTMLInputElement>('#export-targets input').forEach(input => {
+      input.checked = this.currentExportSettings.targets.includes(input.value);
+    });
+    this.updateExportVisibility();
   }
 }
 
@@ -0,0 +1,164 @@
+import type { WorkerJob, WorkerRequest, WorkerResponse, WorkerResult } from './types';
+
+interface PendingJob {
+  request: WorkerRequest;
+  transfer: Transferable[];
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (done: number) => void;
+}
+
+export class WorkerPool {
+  private static shared: WorkerPool | null = null;
+
+  private createWorker: () => Worker;
+  private maxWorkers: number;
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: PendingJob[] = [];
+  private running = new Map<number, { job: PendingJob; worker: Worker }>();
+  private nextId = 0;
+
+  constructor(createWorker: () => Worker, maxWorkers: number) {
+    this.createWorker = createWorker;
+    this.maxWorkers = Math.max(1, maxWorkers);
+  }
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined'
+      && typeof OffscreenCanvas !== 'undefined'
+      && typeof createImageBitmap !== 'undefined';
+  }
+
+  // One pool of export workers shared by the slicer and the ZIP exporter
+  static getShared(): WorkerPool | null {
+    if (!WorkerPool.isSupported()) return null;
+
+    WorkerPool.shared ??= new WorkerPool(
+      () => new Worker(new URL('./export.worker.ts', import.meta.url), { type: 'module' }),
+      Math.min(navigator.hardwareConcurrency || 2, 4)
+    );
+    return WorkerPool.shared;
+  }
+
+  get size(): number {
+    return this.maxWorkers;
+  }
+
+  run(
+    job: WorkerJob,
+    transfer: Transferable[] = [],
+    onProgress?: (done: number) => void,
+    signal?: AbortSignal
+  ): Promise<WorkerResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        this.closeTransfer(transfer);
+        reject(signal.reason);
+        return;
+      }
+
+      const id = this.nextId++;
+      const onAbort = () => this.cancel(id, signal!.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push({
+        request: { id, job },
+        transfer,
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress
+      });
+      this.dispatch();
+    });
+  }
+
+  // Queued jobs are dropped; a running job can only be stopped by terminating its worker
+  private cancel(id: number, reason: Error) {
+    const queued = this.queue.findIndex(job => job.request.id === id);
+    if (queued !== -1) {
+      const [job] = this.queue.splice(queued, 1);
+      this.closeTransfer(job.transfer);
+      job.reject(reason);
+      return;
+    }
+
+    const entry = this.running.get(id);
+    if (entry) {
+      this.running.delete(id);
+      this.discard(entry.worker);
+      entry.job.reject(reason);
+      this.dispatch();
+    }
+  }
+
+  // Bitmaps of a job that never reaches a worker are still ours to close
+  private closeTransfer(transfer: Transferable[]) {
+    transfer.forEach(item => {
+      if (item instanceof ImageBitmap) item.close();
+    });
+  }
+
+  private discard(worker: Worker) {
+    this.workers = this.workers.filter(existing => existing !== worker);
+    this.idle = this.idle.filter(existing => existing !== worker);
+    worker.terminate();
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.workers.length < this.maxWorkers ? this.spawn() : null);
+      if (!worker) return;
+
+      const job = this.queue.shift()!;
+      this.running.set(job.request.id, { job, worker });
+      worker.postMessage(job.request, job.transfer);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = this.createWorker();
+
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      const { id, result } = event.data;
+      const entry = this.running.get(id);
+      if (!entry) return;
+
+      if (result.type === 'progress') {
+        entry.job.onProgress?.(result.done);
+        return;
+      }
+
+      this.running.delete(id);
+      this.idle.push(worker);
+      if (result.type === 'error') {
+        entry.job.reject(new Error(result.message));
+      } else {
+        entry.job.resolve(result);
+      }
+      this.dispatch();
+    });
+
+    // A worker that fails to load or crashes takes its running job down with it
+    worker.addEventListener('error', (event) => {
+      event.preventDefault();
+      for (const [id, entry] of this.running) {
+        if (entry.worker === worker) {
+          this.running.delete(id);
+          entry.job.reject(new Error(event.message || 'Export worker failed'));
+        }
+      }
+      this.discard(worker);
+      this.dispatch();
+    });
+
+    this.workers.push(worker);
+    return worker;
+  }
+}
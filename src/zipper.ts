@@ -1,38 +1,217 @@
 import JSZip from 'jszip';
-import { saveAs } from 'file-saver';
-import type { TileData, ExportSettings, TileSettings, ImageMetadata, ExportProgress } from './types';
+import type { AtlasFrame, TileData, ExportSettings, TileSettings, ImageMetadata, ExportProgress, SpriteAnimation, SheetSource, ZipEntry, ExportReport, ExportResult, TileError } from './types';
+import { AtlasBuilder, type AtlasMeta } from './atlas';
+import { AtlasPacker } from './packer';
+import { TilesetBuilder } from './tileset';
+import { TilemapBuilder } from './tilemap';
+import { TileScaler } from './scaler';
+import { GridCalculator } from './grid';
+import { getExportTarget } from './targets';
+import { AnimationBuilder } from './animation';
+import { GifEncoder, ApngEncoder } from './encoders';
+import { FilenameGenerator } from './naming';
+import { WorkerPool } from './workerPool';
+import { canvasToPng, createCanvas } from './canvas';
 
 export class ZipExporter {
+  private atlasBuilder = new AtlasBuilder();
+  private atlasPacker = new AtlasPacker();
+  private animationBuilder = new AnimationBuilder();
+  private gifEncoder = new GifEncoder();
+  private apngEncoder = new ApngEncoder();
+  private filenameGenerator = new FilenameGenerator();
+  private tilesetBuilder = new TilesetBuilder();
+  private tilemapBuilder = new TilemapBuilder();
+  private tileScaler = new TileScaler();
+  private gridCalculator = new GridCalculator();
+
   async exportTiles(
     tiles: TileData[],
     settings: TileSettings,
     exportSettings: ExportSettings,
     imageMetadata: ImageMetadata,
+    sourceImage: SheetSource,
+    animations: SpriteAnimation[],
     contactSheet?: HTMLCanvasElement,
-    onProgress?: (progress: ExportProgress) => void
-  ): Promise<void> {
+    onProgress?: (progress: ExportProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ExportResult> {
     const zip = new JSZip();
-    const tilesFolder = zip.folder('tiles')!;
+    const report = await this.writeSheet(
+      zip, tiles, settings, exportSettings, imageMetadata, sourceImage, animations, contactSheet, onProgress, signal
+    );
+    return { ...report, zip: await this.generateZip(zip, signal) };
+  }
+
+  // Writes one sheet's tiles, atlas, animations and meta.json into `zip`, which may be a folder
+  async writeSheet(
+    zip: JSZip,
+    tiles: TileData[],
+    settings: TileSettings,
+    exportSettings: ExportSettings,
+    imageMetadata: ImageMetadata,
+    sourceImage: SheetSource,
+    animations: SpriteAnimation[],
+    contactSheet?: HTMLCanvasElement,
+    onProgress?: (progress: ExportProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ExportReport> {
+    // Tiles that failed to slice are reported, not exported
+    const errors: TileError[] = tiles
+      .filter(tile => tile.error)
+      .map(tile => ({ index: tile.index, row: tile.row, col: tile.col, stage: 'slice', message: tile.error! }));
     
-    const validTiles = exportSettings.skipTransparent 
-      ? tiles.filter(tile => !tile.isEmpty)
-      : tiles;
+    // Checked before anything is written, so no target sees a frame without a tile
+    const animationErrors = this.animationBuilder.validate(animations, tiles);
+    if (animationErrors.length > 0) throw new Error(animationErrors.join('; '));
+
+    const exportableTiles = tiles.filter(tile =>
+      !tile.error && !tile.excluded && !(exportSettings.skipTransparent && tile.isEmpty)
+    );
+    // Duplicates are written once, as their canonical tile
+    const validTiles = exportableTiles.filter(tile => !tile.duplicateOf);
+    const filenames = this.filenameGenerator.generate(validTiles, exportSettings, {
+      baseName: imageMetadata.name,
+      animations
+    });
+
+    const collisions = this.filenameGenerator.findCollisions(filenames);
+    if (collisions.length > 0) {
+      throw new Error(`Duplicate filenames: ${collisions.slice(0, 5).join(', ')}${collisions.length > 5 ? ', ...' : ''}`);
+    }
+    const filenameByIndex = new Map(validTiles.map((tile, i) => [tile.index, filenames[i]]));
+    const tilesByIndex = new Map(tiles.map(tile => [tile.index, tile]));
+    const includeAtlas = exportSettings.atlasFormat !== 'none';
+    const includeTileset = exportSettings.includeTiledTileset || exportSettings.includeTiledJson || exportSettings.includeLdtkTileset;
+
+    if (includeTileset) {
+      const tilesetErrors = this.tilesetBuilder.validate(settings, exportSettings.includeLdtkTileset);
+      if (tilesetErrors.length > 0) throw new Error(tilesetErrors.join('; '));
+    }
+    const scaleErrors = this.tileScaler.validate(exportSettings.scales, exportSettings.scaleFilter);
+    if (scaleErrors.length > 0) throw new Error(scaleErrors.join('; '));
+    if (exportSettings.includeTilemap) {
+      const tilemapErrors = this.tilemapBuilder.validate(settings);
+      if (tilemapErrors.length > 0) throw new Error(tilemapErrors.join('; '));
+    }
 
-    const total = validTiles.length + (contactSheet ? 1 : 0) + 1; // +1 for meta.json
+    const targets = exportSettings.targets.map(id => {
+      const target = getExportTarget(id);
+      if (!target) throw new Error(`Unknown export target "${id}"`);
+      return target;
+    });
+
+    const total = (exportSettings.includeTiles ? validTiles.length : 0)
+      + (includeAtlas ? 1 : 0)
+      + (includeTileset ? 1 : 0)
+      + (exportSettings.includeTilemap ? 1 : 0)
+      + targets.length
+      + animations.length
+      + (contactSheet ? 1 : 0)
+      + 1; // +1 for meta.json
     let current = 0;
     const startTime = Date.now();
 
-    // Add tiles
-    for (const tile of validTiles) {
-      const filename = this.generateFilename(tile, exportSettings);
-      const blob = await this.canvasToBlob(tile.canvas);
-      tilesFolder.file(filename, blob);
-      
+    // Add tiles, once per scale
+    if (exportSettings.includeTiles) {
+      const tilesFolder = zip.folder('tiles')!;
+      const { scales, scaleFilter } = exportSettings;
+      const scaleFolders = scales.length === 1 && scales[0] === 1
+        ? [{ scale: 1, folder: tilesFolder }]
+        : scales.map(scale => ({ scale, folder: tilesFolder.folder(`@${scale}x`)! }));
+
+      for (let i = 0; i < validTiles.length; i++) {
+        signal?.throwIfAborted();
+
+        try {
+          for (const { scale, folder } of scaleFolders) {
+            folder.file(filenames[i], scale === 1
+              ? await this.tileToPng(validTiles[i])
+              : await canvasToPng(this.tileScaler.scaleWithBorder(validTiles[i].canvas, validTiles[i].inset ?? 0, scale, scaleFilter)));
+          }
+        } catch (error) {
+          const tile = validTiles[i];
+          errors.push({ index: tile.index, row: tile.row, col: tile.col, stage: 'encode', message: (error as Error).message });
+        }
+        
+        current++;
+        if (onProgress) {
+          const elapsed = Date.now() - startTime;
+          const eta = elapsed > 0 ? (elapsed / current) * (total - current) : 0;
+          
+          onProgress({
+            current,
+            total,
+            percentage: (current / total) * 100,
+            eta
+          });
+        }
+
+        // Yield control periodically
+        if (current % 5 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+    }
+
+    // Add atlas referencing the original sheet or repacked pages
+    if (includeAtlas) {
+      signal?.throwIfAborted();
+      const atlasFolder = zip.folder('atlas')!;
+
+      if (exportSettings.atlasSource === 'packed') {
+        await this.addPackedAtlas(atlasFolder, validTiles, filenames, exportSettings);
+      } else {
+        atlasFolder.file('atlas.png', await this.sheetToPng(sourceImage));
+
+        const frames = this.atlasBuilder.createSheetFrames(validTiles, filenames);
+        const atlasMeta = { image: 'atlas.png', width: sourceImage.width, height: sourceImage.height };
+        this.addAtlasJson(atlasFolder, 'atlas', frames, atlasMeta, exportSettings);
+      }
+
       current++;
       if (onProgress) {
         const elapsed = Date.now() - startTime;
         const eta = elapsed > 0 ? (elapsed / current) * (total - current) : 0;
-        
+
+        onProgress({
+          current,
+          total,
+          percentage: (current / total) * 100,
+          eta
+        });
+      }
+    }
+
+    // Add Tiled and LDtk tilesets; they cover every grid cell, so excluded tiles keep their tags too
+    if (includeTileset) {
+      signal?.throwIfAborted();
+      await this.addTileset(zip.folder('tileset')!, tiles, settings, exportSettings, imageMetadata, sourceImage);
+
+      current++;
+      if (onProgress) {
+        const elapsed = Date.now() - startTime;
+        const eta = elapsed > 0 ? (elapsed / current) * (total - current) : 0;
+
+        onProgress({
+          current,
+          total,
+          percentage: (current / total) * 100,
+          eta
+        });
+      }
+    }
+
+    // Add the level map built from the unique tiles
+    if (exportSettings.includeTilemap) {
+      signal?.throwIfAborted();
+      await this.addTilemap(zip.folder('map')!, tiles, validTiles, filenameByIndex, settings, imageMetadata, sourceImage);
+
+      current++;
+      if (onProgress) {
+        const elapsed = Date.now() - startTime;
+        const eta = elapsed > 0 ? (elapsed / current) * (total - current) : 0;
+
         onProgress({
           current,
           total,
@@ -40,17 +219,79 @@ export class ZipExporter {
           eta
         });
       }
+    }
 
-      // Yield control periodically
-      if (current % 5 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
+    // Add engine and web targets, each in its own folder next to a copy of the sheet
+    if (targets.length > 0) {
+      const context = {
+        baseName: this.sanitizeName(imageMetadata.name),
+        sheet: { png: await this.sheetToPng(sourceImage), width: sourceImage.width, height: sourceImage.height },
+        tiles: validTiles,
+        filenames,
+        allTiles: tiles,
+        animations
+      };
+
+      for (const target of targets) {
+        signal?.throwIfAborted();
+        target.write(zip.folder(target.id)!, context);
+
+        current++;
+        if (onProgress) {
+          const elapsed = Date.now() - startTime;
+          const eta = elapsed > 0 ? (elapsed / current) * (total - current) : 0;
+
+          onProgress({
+            current,
+            total,
+            percentage: (current / total) * 100,
+            eta
+          });
+        }
+      }
+    }
+
+    // Add animations as GIF and APNG
+    const animationFiles: Array<{ gif: string; apng: string }> = [];
+    if (animations.length > 0) {
+      const animationsFolder = zip.folder('animations')!;
+      const usedNames = new Set<string>();
+
+      for (const animation of animations) {
+        signal?.throwIfAborted();
+        const name = this.sanitizeName(animation.name);
+        let baseName = name;
+        for (let n = 2; usedNames.has(baseName); n++) {
+          baseName = `${name}_${n}`;
+        }
+        usedNames.add(baseName);
+        const frames = this.animationBuilder.composeFrames(animation, tiles);
+        const durations = animation.frames.map(frame => frame.duration);
+
+        animationsFolder.file(`${baseName}.gif`, this.gifEncoder.encode(frames, durations));
+        animationsFolder.file(`${baseName}.apng`, await this.apngEncoder.encode(frames, durations));
+        animationFiles.push({ gif: `animations/${baseName}.gif`, apng: `animations/${baseName}.apng` });
+
+        current++;
+        if (onProgress) {
+          const elapsed = Date.now() - startTime;
+          const eta = elapsed > 0 ? (elapsed / current) * (total - current) : 0;
+
+          onProgress({
+            current,
+            total,
+            percentage: (current / total) * 100,
+            eta
+          });
+        }
       }
     }
 
     // Add contact sheet if enabled
     if (contactSheet && exportSettings.includeContactSheet) {
-      const contactBlob = await this.canvasToBlob(contactSheet);
-      zip.file('contact-sheet.png', contactBlob);
+      signal?.throwIfAborted();
+      const contactPng = await canvasToPng(contactSheet);
+      zip.file('contact-sheet.png', contactPng);
       current++;
       
       if (onProgress) {
@@ -67,8 +308,10 @@ export class ZipExporter {
     }
 
     // Add metadata
+    const exportedTiles = validTiles.length - errors.filter(error => error.stage === 'encode').length;
     const metadata = {
       settings: {
+        sliceMode: settings.sliceMode,
         tileWidth: settings.tileWidth,
         tileHeight: settings.tileHeight,
         margin: settings.margin,
@@ -76,24 +319,123 @@ export class ZipExporter {
         offsetX: settings.offsetX,
         offsetY: settings.offsetY,
         trimTransparent: settings.trimTransparent,
-        preservePadding: settings.preservePadding
+        preservePadding: settings.preservePadding,
+        edgeMode: settings.edgeMode,
+        edgeSize: settings.edgeSize,
+        alphaThreshold: settings.alphaThreshold,
+        mergeDistance: settings.mergeDistance,
+        colorKeyEnabled: settings.colorKeyEnabled,
+        colorKey: settings.colorKey,
+        colorKeyTolerance: settings.colorKeyTolerance,
+        dedupe: settings.dedupe,
+        dedupeTransforms: settings.dedupeTransforms,
+        dedupeTolerance: settings.dedupeTolerance,
+        pivotX: settings.pivotX,
+        pivotY: settings.pivotY
       },
       export: {
         namingPattern: exportSettings.namingPattern,
         customPrefix: exportSettings.customPrefix,
+        filenameTemplate: exportSettings.filenameTemplate,
         skipTransparent: exportSettings.skipTransparent,
-        includeContactSheet: exportSettings.includeContactSheet
+        includeContactSheet: exportSettings.includeContactSheet,
+        includeTiles: exportSettings.includeTiles,
+        scales: exportSettings.scales,
+        scaleFilter: exportSettings.scaleFilter,
+        atlasFormat: exportSettings.atlasFormat,
+        atlasSource: exportSettings.atlasSource,
+        pack: exportSettings.pack,
+        includeTiledTileset: exportSettings.includeTiledTileset,
+        includeTiledJson: exportSettings.includeTiledJson,
+        includeLdtkTileset: exportSettings.includeLdtkTileset,
+        includeTilemap: exportSettings.includeTilemap,
+        targets: targets.map(target => target.id)
       },
       source: {
+        name: imageMetadata.name,
         width: imageMetadata.width,
         height: imageMetadata.height,
-        hasAlpha: imageMetadata.hasAlpha
+        hasAlpha: imageMetadata.hasAlpha,
+        format: imageMetadata.format,
+        colorDepth: imageMetadata.colorDepth,
+        frameCount: imageMetadata.frameCount
       },
       result: {
         totalTiles: tiles.length,
-        exportedTiles: validTiles.length,
-        skippedTiles: tiles.length - validTiles.length
+        exportedTiles,
+        skippedTiles: tiles.length - exportableTiles.length,
+        excludedTiles: tiles.filter(tile => tile.excluded).length,
+        duplicateTiles: exportableTiles.length - validTiles.length,
+        failedTiles: errors.length
       },
+      tiles: validTiles.map((tile, i) => ({
+        filename: filenames[i],
+        row: tile.row,
+        col: tile.col,
+        index: tile.index,
+        name: tile.name || undefined,
+        tags: tile.tags.length > 0 ? tile.tags : undefined,
+        isEmpty: tile.isEmpty,
+        sourceRect: {
+          x: tile.sourceRect.x,
+          y: tile.sourceRect.y,
+          width: tile.sourceRect.width,
+          height: tile.sourceRect.height
+        },
+        trimRect: tile.trimRect,
+        // Border around trimRect's content in the tile image
+        inset: tile.inset || undefined,
+        sourceSize: {
+          width: tile.sourceRect.width,
+          height: tile.sourceRect.height
+        },
+        pivot: tile.pivot,
+        hitboxes: tile.hitboxes.length > 0 ? tile.hitboxes : undefined
+      })),
+      // Where every exportable tile ended up: its own file, or a transformed canonical tile
+      reuse: settings.dedupe
+        ? exportableTiles.map(tile => {
+          const reuse = tile.duplicateOf ?? { index: tile.index, transform: 'none' };
+          return {
+            index: tile.index,
+            row: tile.row,
+            col: tile.col,
+            tile: reuse.index,
+            filename: filenameByIndex.get(reuse.index) ?? null,
+            transform: reuse.transform,
+            // Duplicates have no entry in `tiles`, so their annotations are kept here
+            name: tile.name || undefined,
+            tags: tile.tags.length > 0 ? tile.tags : undefined,
+            pivot: tile.pivot,
+            hitboxes: tile.hitboxes.length > 0 ? tile.hitboxes : undefined
+          };
+        })
+        : undefined,
+      // Excluded tiles aren't exported, but are kept so a re-import restores the selection
+      excluded: tiles.filter(tile => tile.excluded).map(tile => ({
+        index: tile.index,
+        name: tile.name || undefined,
+        tags: tile.tags.length > 0 ? tile.tags : undefined,
+        pivot: tile.pivot,
+        hitboxes: tile.hitboxes.length > 0 ? tile.hitboxes : undefined
+      })),
+      animations: animations.map((animation, i) => ({
+        name: animation.name,
+        files: animationFiles[i],
+        frames: animation.frames.flatMap(frame => {
+          const tile = tilesByIndex.get(frame.index);
+          if (!tile) return [];
+          return {
+            index: frame.index,
+            row: tile.row,
+            col: tile.col,
+            filename: filenameByIndex.get(tile.duplicateOf?.index ?? frame.index) ?? null,
+            transform: tile.duplicateOf?.transform,
+            duration: frame.duration
+          };
+        })
+      })),
+      errors,
       timestamp: new Date().toISOString()
     };
 
@@ -109,36 +451,146 @@ export class ZipExporter {
       });
     }
 
-    // Generate and download ZIP
-    const zipBlob = await zip.generateAsync({ type: 'blob' });
-    saveAs(zipBlob, 'sprites_out.zip');
+    return { exportedTiles, errors };
   }
 
-  private generateFilename(tile: TileData, settings: ExportSettings): string {
-    const { namingPattern, customPrefix } = settings;
-    
-    switch (namingPattern) {
-      case 'row_col':
-        return `${tile.row}_${tile.col}.png`;
-      case 'index':
-        return `${tile.index}.png`;
-      case 'custom':
-        return `${customPrefix}${tile.row}_${tile.col}.png`;
-      default:
-        return `${tile.row}_${tile.col}.png`;
+  private async addPackedAtlas(
+    atlasFolder: JSZip,
+    tiles: TileData[],
+    filenames: string[],
+    exportSettings: ExportSettings
+  ): Promise<void> {
+    const pages = this.atlasPacker.pack(tiles, exportSettings.pack);
+    const filenameMap = new Map(tiles.map((tile, i) => [tile, filenames[i]]));
+
+    for (let i = 0; i < pages.length; i++) {
+      const page = pages[i];
+      const baseName = pages.length === 1 ? 'atlas' : `atlas-${i}`;
+      atlasFolder.file(`${baseName}.png`, await canvasToPng(page.canvas));
+
+      const frames = this.atlasBuilder.createPackedFrames(page, filenameMap);
+      const atlasMeta = { image: `${baseName}.png`, width: page.width, height: page.height };
+      this.addAtlasJson(atlasFolder, baseName, frames, atlasMeta, exportSettings);
     }
   }
 
-  private canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      canvas.toBlob((blob) => {
-        if (blob) {
-          resolve(blob);
-        } else {
-          reject(new Error('Failed to convert canvas to blob'));
-        }
-      }, 'image/png');
+  private addAtlasJson(
+    atlasFolder: JSZip,
+    baseName: string,
+    frames: AtlasFrame[],
+    atlasMeta: AtlasMeta,
+    exportSettings: ExportSettings
+  ) {
+    const { atlasFormat } = exportSettings;
+
+    if (atlasFormat === 'json-hash' || atlasFormat === 'both') {
+      atlasFolder.file(`${baseName}.json`, JSON.stringify(this.atlasBuilder.toJsonHash(frames, atlasMeta), null, 2));
+    }
+    if (atlasFormat === 'json-array' || atlasFormat === 'both') {
+      atlasFolder.file(`${baseName}-array.json`, JSON.stringify(this.atlasBuilder.toJsonArray(frames, atlasMeta), null, 2));
+    }
+  }
+
+  private async addTileset(
+    tilesetFolder: JSZip,
+    tiles: TileData[],
+    settings: TileSettings,
+    exportSettings: ExportSettings,
+    imageMetadata: ImageMetadata,
+    sourceImage: SheetSource
+  ): Promise<void> {
+    const gridInfo = this.gridCalculator.calculateGrid(settings, imageMetadata);
+    const bounds = this.tilesetBuilder.getGridBounds(settings, gridInfo);
+    const baseName = this.sanitizeName(imageMetadata.name);
+
+    const imageCanvas = createCanvas(bounds.width, bounds.height);
+    imageCanvas.getContext('2d')!.drawImage(
+      sourceImage,
+      bounds.x, bounds.y, bounds.width, bounds.height,
+      0, 0, bounds.width, bounds.height
+    );
+    tilesetFolder.file(`${baseName}.png`, await canvasToPng(imageCanvas));
+
+    const meta = { name: imageMetadata.name, image: `${baseName}.png`, width: bounds.width, height: bounds.height };
+    if (exportSettings.includeTiledTileset) {
+      tilesetFolder.file(`${baseName}.tsx`, this.tilesetBuilder.toTsx(settings, gridInfo, tiles, meta));
+    }
+    if (exportSettings.includeTiledJson) {
+      tilesetFolder.file(`${baseName}.tsj`, JSON.stringify(this.tilesetBuilder.toTsj(settings, gridInfo, tiles, meta), null, 2));
+    }
+    if (exportSettings.includeLdtkTileset) {
+      tilesetFolder.file(`${baseName}-ldtk.json`, JSON.stringify(this.tilesetBuilder.toLdtk(settings, gridInfo, tiles, meta), null, 2));
+    }
+  }
+
+  // Fully transparent cells stay empty in the map rather than taking a tileset slot
+  private async addTilemap(
+    mapFolder: JSZip,
+    tiles: TileData[],
+    validTiles: TileData[],
+    filenameByIndex: Map<number, string>,
+    settings: TileSettings,
+    imageMetadata: ImageMetadata,
+    sourceImage: SheetSource
+  ): Promise<void> {
+    const gridInfo = this.gridCalculator.calculateGrid(settings, imageMetadata);
+    const tilemap = this.tilemapBuilder.build(tiles, validTiles.filter(tile => !tile.isEmpty), settings, gridInfo);
+    const baseName = this.sanitizeName(imageMetadata.name);
+
+    const tilesetCanvas = this.tilemapBuilder.drawTileset(tilemap, sourceImage);
+    mapFolder.file(`${baseName}-tiles.png`, await canvasToPng(tilesetCanvas));
+
+    const meta = { name: imageMetadata.name, image: `${baseName}-tiles.png` };
+    mapFolder.file(`${baseName}.csv`, this.tilemapBuilder.toCsv(tilemap));
+    mapFolder.file(`${baseName}.json`, JSON.stringify(this.tilemapBuilder.toJson(tilemap, meta, filenameByIndex), null, 2));
+    mapFolder.file(`${baseName}.tmx`, this.tilemapBuilder.toTmx(tilemap, meta, tilesetCanvas));
+  }
+
+  private async sheetToPng(sourceImage: SheetSource): Promise<Uint8Array | Blob> {
+    const sheetCanvas = createCanvas(sourceImage.width, sourceImage.height);
+    sheetCanvas.getContext('2d')!.drawImage(sourceImage, 0, 0);
+    return canvasToPng(sheetCanvas);
+  }
+
+  private sanitizeName(name: string): string {
+    return name.trim().replace(/[^\w-]+/g, '_') || 'animation';
+  }
+
+  // Compression runs in a worker when possible; the entries are handed over as raw bytes
+  async generateZip(zip: JSZip, signal?: AbortSignal): Promise<Uint8Array> {
+    const pool = WorkerPool.getShared();
+    if (!pool) {
+      const data = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+      signal?.throwIfAborted();
+      return data;
+    }
+
+    const files: JSZip.JSZipObject[] = [];
+    zip.forEach((_, file) => {
+      if (!file.dir) files.push(file);
     });
+
+    const entries: ZipEntry[] = [];
+    for (const file of files) {
+      entries.push({ path: file.name, data: await file.async('uint8array') });
+    }
+
+    const buffers = new Set(entries.map(entry => entry.data.buffer as ArrayBuffer));
+    const result = await pool.run({ type: 'zip', entries }, [...buffers], undefined, signal);
+    if (result.type !== 'zipped') throw new Error('Unexpected response from export worker');
+    return result.data;
   }
-}
 
+  // Worker-sliced tiles arrive with their PNG already encoded
+  private async tileToPng(tile: TileData): Promise<Uint8Array | Blob> {
+    if (tile.png) return tile.png;
+
+    // ImageBitmaps can't be encoded directly, canvases can
+    if ('getContext' in tile.canvas) {
+      return canvasToPng(tile.canvas);
+    }
+    const canvas = createCanvas(tile.canvas.width, tile.canvas.height);
+    canvas.getContext('2d')!.drawImage(tile.canvas, 0, 0);
+    return canvasToPng(canvas);
+  }
+}
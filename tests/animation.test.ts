@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { AnimationBuilder } from '../src/animation';
+import type { TileRect } from '../src/types';
+
+const builder = new AnimationBuilder();
+const rects: TileRect[] = [0, 1, 2].map(index => ({ x: index * 16, y: 0, width: 16, height: 16, row: 0, col: index, index }));
+
+describe('AnimationBuilder', () => {
+  it('drops frames past the last tile and animations left empty', () => {
+    const walk = builder.fromIndices('walk', [0, 1, 2], 100);
+    const { animations, removed } = builder.pruneFrames([
+      walk,
+      builder.fromIndices('run', [1, 3, 4], 100),
+      builder.fromIndices('jump', [5, 6], 100)
+    ], rects);
+
+    expect(removed).toBe(4);
+    expect(animations).toEqual([walk, { name: 'run', frames: [{ index: 1, duration: 100 }] }]);
+    expect(animations[0]).toBe(walk);
+  });
+});
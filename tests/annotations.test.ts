@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import { ZipExporter } from '../src/zipper';
+import { SessionImporter } from '../src/session';
+import { TileAnnotator } from '../src/annotations';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TILE_SETTINGS } from '../src/defaults';
+import type { ExportSettings, TileAnnotations, TileSettings } from '../src/types';
+import { createSheet, metadataFor, settingsFor, type SheetLayout } from './fixtures';
+
+const grid = new GridCalculator();
+const annotator = new TileAnnotator();
+
+// 2x1 sheet of 16px tiles with an 8px sprite in the middle of each
+const layout: SheetLayout = { cols: 2, rows: 1, tileWidth: 16, tileHeight: 16, sprite: () => ({ x: 4, y: 4, width: 8, height: 8 }) };
+const annotations: TileAnnotations = {
+  1: {
+    excluded: false,
+    name: 'hero',
+    tags: [],
+    pivot: { x: 0.25, y: 0.75 },
+    hitboxes: [{ name: 'hurtbox', x: 4, y: 4, width: 8, height: 8 }]
+  }
+};
+
+async function exportAnnotated(overrides: Partial<TileSettings>, exportSettings: Partial<ExportSettings> = {}) {
+  const sheet = createSheet(layout);
+  const metadata = metadataFor(sheet, 'hero');
+  const settings = settingsFor(layout, overrides);
+  const gridInfo = grid.calculateGrid(settings, metadata);
+  const tiles = await new SpriteSlicer().sliceSprite(sheet, settings, grid.getTileRects(settings, gridInfo), annotations);
+  const result = await new ZipExporter().exportTiles(
+    tiles, settings, { ...DEFAULT_EXPORT_SETTINGS, includeTiles: false, ...exportSettings }, metadata, sheet, []
+  );
+  const zip = await JSZip.loadAsync(result.zip);
+  return { tiles, read: (path: string) => zip.file(path)!.async('string') };
+}
+
+describe('TileAnnotator', () => {
+  it('snaps clicked pivots to half pixels', () => {
+    expect(annotator.pivotAt(7.8, 15.9, 16, 16)).toEqual({ x: 0.5, y: 1 });
+    expect(annotator.pivotAt(-3, 1.2, 16, 16)).toEqual({ x: 0, y: 0.0625 });
+    expect(annotator.getAnchorName({ x: 0.5, y: 1 })).toBe('bottom-center');
+    expect(annotator.getAnchorName({ x: 0.3, y: 1 })).toBeNull();
+  });
+
+  it('turns a drag in any direction into a whole-pixel box clipped to the tile', () => {
+    expect(annotator.createHitbox('hitbox', { x: 10.5, y: 12 }, { x: 2.2, y: -4 }, 16, 16))
+      .toEqual({ name: 'hitbox', x: 2, y: 0, width: 9, height: 12 });
+    expect(annotator.createHitbox('hitbox', { x: 3, y: 3 }, { x: 3, y: 9 }, 16, 16)).toBeNull();
+  });
+
+  it('reads back only well-formed boxes', () => {
+    expect(annotator.readHitboxes([{ name: 'a', x: 1, y: 2, width: 3, height: 4, extra: true }, { name: 'b', x: 1 }, 'c']))
+      .toEqual([{ name: 'a', x: 1, y: 2, width: 3, height: 4 }]);
+  });
+
+  it('rejects default pivots outside the tile', () => {
+    expect(grid.validateSettings(settingsFor(layout, { pivotY: 1.5 }), metadataFor({ width: 32, height: 16 })))
+      .toContain('Pivot must be between 0 and 1 on both axes');
+  });
+});
+
+describe('Pivot and hitbox export', () => {
+  it('gives every tile the default pivot unless it has its own', async () => {
+    const { tiles } = await exportAnnotated({ pivotX: 0.5, pivotY: 1 });
+
+    expect(tiles[0]).toMatchObject({ pivot: { x: 0.5, y: 1 }, hitboxes: [] });
+    expect(tiles[1]).toMatchObject({ pivot: { x: 0.25, y: 0.75 }, hitboxes: annotations[1].hitboxes });
+  });
+
+  it('writes pivots and hitboxes to meta.json and the JSON atlas', async () => {
+    const { read } = await exportAnnotated({ pivotX: 0.5, pivotY: 1 }, { atlasFormat: 'json-hash' });
+    const meta = JSON.parse(await read('meta.json'));
+    const atlas = JSON.parse(await read('atlas/atlas.json'));
+
+    expect(meta.settings).toMatchObject({ pivotX: 0.5, pivotY: 1 });
+    expect(meta.tiles[0].pivot).toEqual({ x: 0.5, y: 1 });
+    expect(meta.tiles[0].hitboxes).toBeUndefined();
+    expect(meta.tiles[1]).toMatchObject({ pivot: { x: 0.25, y: 0.75 }, hitboxes: annotations[1].hitboxes });
+    expect(atlas.frames['0_0.png'].pivot).toEqual({ x: 0.5, y: 1 });
+    expect(atlas.frames['0_0.png'].hitboxes).toBeUndefined();
+    expect(atlas.frames['hero.png']).toMatchObject({ pivot: { x: 0.25, y: 0.75 }, hitboxes: annotations[1].hitboxes });
+  });
+
+  it('adds collision objects and pivot properties to Tiled and LDtk tilesets', async () => {
+    const { read } = await exportAnnotated({ pivotX: 0.5, pivotY: 1 }, { includeTiledTileset: true, includeTiledJson: true, includeLdtkTileset: true });
+    const tsx = await read('tileset/hero.tsx');
+    const tsj = JSON.parse(await read('tileset/hero.tsj'));
+    const ldtk = JSON.parse(await read('tileset/hero-ldtk.json'));
+
+    expect(tsx).toContain('  <property name="pivotY" type="float" value="1"/>');
+    expect(tsx).toContain([
+      ' <tile id="1">',
+      '  <properties>',
+      '   <property name="name" type="string" value="hero"/>',
+      '   <property name="pivotX" type="float" value="0.25"/>',
+      '   <property name="pivotY" type="float" value="0.75"/>',
+      '  </properties>',
+      '  <objectgroup draworder="index" id="2">',
+      '   <object id="1" name="hurtbox" x="4" y="4" width="8" height="8"/>',
+      '  </objectgroup>',
+      ' </tile>'
+    ].join('\n'));
+    expect(tsj.tiles).toHaveLength(1);
+    expect(tsj.tiles[0].objectgroup.objects[0]).toMatchObject({ id: 1, name: 'hurtbox', x: 4, y: 4, width: 8, height: 8 });
+    expect(JSON.parse(ldtk.tilesets[0].customData[0].data)).toEqual({
+      name: 'hero',
+      pivot: { x: 0.25, y: 0.75 },
+      hitboxes: annotations[1].hitboxes
+    });
+  });
+
+  it('carries pivots and hitboxes into the engine targets', async () => {
+    const { read } = await exportAnnotated({ trimTransparent: true, pivotX: 0.5, pivotY: 1 }, { targets: ['godot', 'unity', 'css'] });
+    const godot = await read('godot/textures/0_0.tres');
+    const godotHero = await read('godot/textures/hero.tres');
+    const unity = await read('unity/hero.png.meta');
+    const css = await read('css/hero.css');
+
+    expect(godot).toContain('metadata/pivot = Vector2(8.0, 16.0)');
+    expect(godotHero).toContain('metadata/pivot = Vector2(4.0, 12.0)');
+    expect(godotHero).toContain('metadata/hitboxes = [{"name": "hurtbox", "rect": Rect2(4, 4, 8, 8)}]');
+    // Bottom-centre of the untrimmed tile, 4px below the trimmed sprite
+    expect(unity).toContain('      alignment: 9\n      pivot: {x: 0.5, y: -0.5}');
+    expect(unity).toContain([
+      '      physicsShape:',
+      '      - - {x: -4, y: 4}',
+      '        - {x: -4, y: -4}',
+      '        - {x: 4, y: -4}',
+      '        - {x: 4, y: 4}'
+    ].join('\n'));
+    expect(css).toContain('  transform-origin: 4px 12px;');
+  });
+
+  it('restores overridden pivots and hitboxes from meta.json, but not default pivots', async () => {
+    const { read } = await exportAnnotated({ pivotX: 0.5, pivotY: 1 });
+    const session = new SessionImporter().parseMeta(await read('meta.json'), { tile: DEFAULT_TILE_SETTINGS, export: DEFAULT_EXPORT_SETTINGS });
+
+    expect(session.tile).toMatchObject({ pivotX: 0.5, pivotY: 1 });
+    expect(session.annotations).toEqual(annotations);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { createCanvas } from '../src/canvas';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import { ZipExporter } from '../src/zipper';
+import { TileDeduplicator } from '../src/dedupe';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TILE_SETTINGS } from '../src/defaults';
+import type { TileAnnotations, TileSettings } from '../src/types';
+import { metadataFor } from './fixtures';
+
+const TILE = 8;
+const grid = new GridCalculator();
+const deduplicator = new TileDeduplicator();
+
+// An asymmetric "L" so every flip and rotation looks different: a vertical bar and a shorter foot
+const L_SHAPE: Array<[number, number, number, number]> = [[1, 1, 2, 6], [3, 5, 3, 2]];
+
+type Draw = (ctx: CanvasRenderingContext2D) => void;
+
+const lShape = (color: string = '#3366cc'): Draw => ctx => {
+  ctx.fillStyle = color;
+  L_SHAPE.forEach(([x, y, w, h]) => ctx.fillRect(x, y, w, h));
+};
+
+// Draws `draw` into the tile after mirroring or rotating it about the tile centre
+const transformed = (draw: Draw, apply: (ctx: CanvasRenderingContext2D) => void): Draw => ctx => {
+  ctx.save();
+  ctx.translate(TILE / 2, TILE / 2);
+  apply(ctx);
+  ctx.translate(-TILE / 2, -TILE / 2);
+  draw(ctx);
+  ctx.restore();
+};
+
+const flipX = (draw: Draw) => transformed(draw, ctx => ctx.scale(-1, 1));
+const rotate90 = (draw: Draw) => transformed(draw, ctx => ctx.rotate(Math.PI / 2));
+const transpose = (draw: Draw) => transformed(draw, ctx => {
+  ctx.rotate(Math.PI / 2);
+  ctx.scale(1, -1);
+});
+
+function createRow(tiles: Draw[]): HTMLCanvasElement {
+  const canvas = createCanvas(tiles.length * TILE, TILE);
+  const ctx = canvas.getContext('2d')!;
+  tiles.forEach((draw, i) => {
+    ctx.save();
+    ctx.translate(i * TILE, 0);
+    draw(ctx);
+    ctx.restore();
+  });
+  return canvas;
+}
+
+function settingsWith(overrides: Partial<TileSettings>): TileSettings {
+  return { ...DEFAULT_TILE_SETTINGS, tileWidth: TILE, tileHeight: TILE, dedupe: true, ...overrides };
+}
+
+function findDuplicates(sheet: HTMLCanvasElement, overrides: Partial<TileSettings> = {}) {
+  const settings = settingsWith(overrides);
+  const rects = grid.getTileRects(settings, grid.calculateGrid(settings, metadataFor(sheet)));
+  return Object.fromEntries(deduplicator.findDuplicates(sheet, rects, settings));
+}
+
+describe('TileDeduplicator.findDuplicates', () => {
+  it('maps exact copies to the first occurrence', () => {
+    const sheet = createRow([lShape(), lShape('#cc3333'), lShape(), lShape('#cc3333'), lShape()]);
+    expect(findDuplicates(sheet)).toEqual({
+      2: { index: 0, transform: 'none' },
+      3: { index: 1, transform: 'none' },
+      4: { index: 0, transform: 'none' }
+    });
+  });
+
+  it('ignores flipped and rotated copies unless transforms are enabled', () => {
+    const sheet = createRow([lShape(), flipX(lShape()), rotate90(lShape()), transpose(lShape())]);
+    expect(findDuplicates(sheet)).toEqual({});
+    expect(findDuplicates(sheet, { dedupeTransforms: true })).toEqual({
+      1: { index: 0, transform: 'flip-x' },
+      2: { index: 0, transform: 'rotate-90' },
+      3: { index: 0, transform: 'transpose' }
+    });
+  });
+
+  it('matches near-identical tiles within the tolerance', () => {
+    const sheet = createRow([lShape('#3366cc'), lShape('#3668cc'), lShape('#3380cc')]);
+    expect(findDuplicates(sheet)).toEqual({});
+    expect(findDuplicates(sheet, { dedupeTolerance: 4 })).toEqual({ 1: { index: 0, transform: 'none' } });
+  });
+
+  it('treats fully transparent pixels as equal whatever their color', () => {
+    const sheet = createRow([lShape(), lShape()]);
+    const ctx = sheet.getContext('2d')!;
+    const pixels = ctx.getImageData(TILE, 0, TILE, TILE);
+    pixels.data[0] = 255;
+    ctx.putImageData(pixels, TILE, 0);
+
+    expect(findDuplicates(sheet)).toEqual({ 1: { index: 0, transform: 'none' } });
+  });
+});
+
+describe('SpriteSlicer with dedupe', () => {
+  const sheet = createRow([lShape(), lShape(), flipX(lShape()), lShape()]);
+  const slice = (overrides: Partial<TileSettings>, annotations: TileAnnotations = {}) => {
+    const settings = settingsWith(overrides);
+    const rects = grid.getTileRects(settings, grid.calculateGrid(settings, metadataFor(sheet)));
+    return new SpriteSlicer().sliceSprite(sheet, settings, rects, annotations);
+  };
+
+  it('marks duplicates on the sliced tiles', async () => {
+    const tiles = await slice({ dedupeTransforms: true });
+    expect(tiles.map(tile => tile.duplicateOf)).toEqual([
+      undefined,
+      { index: 0, transform: 'none' },
+      { index: 0, transform: 'flip-x' },
+      { index: 0, transform: 'none' }
+    ]);
+  });
+
+  it('never picks an excluded tile as the canonical copy', async () => {
+    const tiles = await slice({}, { 0: { name: '', tags: [], excluded: true } });
+    expect(tiles.map(tile => tile.duplicateOf)).toEqual([undefined, undefined, undefined, { index: 1, transform: 'none' }]);
+  });
+
+  it('shows unique tiles and a count caption on the contact sheet', async () => {
+    const slicer = new SpriteSlicer();
+    const plain = slicer.createContactSheet(await slice({ dedupe: false }), 4);
+    const deduped = slicer.createContactSheet(await slice({}), 4);
+
+    expect([plain.width, plain.height]).toEqual([4 * TILE, TILE]);
+    expect([deduped.width, deduped.height]).toEqual([4 * TILE, 20 + TILE]);
+  });
+
+  it('rejects a tolerance outside 0-255', () => {
+    expect(grid.validateSettings(settingsWith({ dedupeTolerance: 300 }), metadataFor(sheet)))
+      .toContain('Dedupe tolerance must be between 0 and 255');
+  });
+});
+
+describe('ZipExporter with dedupe', () => {
+  it('writes unique tiles only and maps every tile in meta.json', async () => {
+    const sheet = createRow([lShape(), rotate90(lShape()), lShape('#cc3333'), lShape()]);
+    const metadata = metadataFor(sheet, 'tiles');
+    const settings = settingsWith({ dedupeTransforms: true });
+    const rects = grid.getTileRects(settings, grid.calculateGrid(settings, metadata));
+    const tiles = await new SpriteSlicer().sliceSprite(sheet, settings, rects);
+
+    const result = await new ZipExporter().exportTiles(tiles, settings, DEFAULT_EXPORT_SETTINGS, metadata, sheet, [
+      { name: 'spin', frames: [{ index: 0, duration: 100 }, { index: 1, duration: 100 }] }
+    ]);
+    const zip = await JSZip.loadAsync(result.zip);
+    const files = Object.values(zip.files).filter(file => !file.dir && file.name.startsWith('tiles/')).map(file => file.name).sort();
+    const meta = JSON.parse(await zip.file('meta.json')!.async('string'));
+
+    expect(files).toEqual(['tiles/0_0.png', 'tiles/0_2.png']);
+    expect(meta.result).toMatchObject({ totalTiles: 4, exportedTiles: 2, skippedTiles: 0, duplicateTiles: 2 });
+    expect(meta.reuse).toEqual([
+      { index: 0, row: 0, col: 0, tile: 0, filename: '0_0.png', transform: 'none', pivot: { x: 0.5, y: 0.5 } },
+      { index: 1, row: 0, col: 1, tile: 0, filename: '0_0.png', transform: 'rotate-90', pivot: { x: 0.5, y: 0.5 } },
+      { index: 2, row: 0, col: 2, tile: 2, filename: '0_2.png', transform: 'none', pivot: { x: 0.5, y: 0.5 } },
+      { index: 3, row: 0, col: 3, tile: 0, filename: '0_0.png', transform: 'none', pivot: { x: 0.5, y: 0.5 } }
+    ]);
+    expect(meta.animations[0].frames[1]).toMatchObject({ index: 1, filename: '0_0.png', transform: 'rotate-90' });
+  });
+});
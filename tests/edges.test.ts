@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import { ZipExporter } from '../src/zipper';
+import { AnimationBuilder } from '../src/animation';
+import { EdgePadder } from '../src/edges';
+import { loadSheet } from '../src/nodeCanvas';
+import { DEFAULT_EXPORT_SETTINGS } from '../src/defaults';
+import type { TileSettings } from '../src/types';
+import { createSheet, metadataFor, pixelAt, settingsFor, type SheetLayout } from './fixtures';
+
+const grid = new GridCalculator();
+const slicer = new SpriteSlicer();
+
+// Two 8px tiles side by side, each filled with its own color
+const layout: SheetLayout = { cols: 2, rows: 1, tileWidth: 8, tileHeight: 8 };
+
+async function sliceWith(overrides: Partial<TileSettings>, sheetLayout: SheetLayout = layout) {
+  const sheet = createSheet(sheetLayout);
+  const settings = settingsFor(sheetLayout, overrides);
+  const rects = grid.getTileRects(settings, grid.calculateGrid(settings, metadataFor(sheet)));
+  return { sheet, settings, tiles: await slicer.sliceSprite(sheet, settings, rects) };
+}
+
+describe('EdgePadder', () => {
+  const red = [255, 0, 0, 255];
+  const blue = [0, 0, 255, 255];
+  const content = { width: 2, height: 1, data: new Uint8ClampedArray([...red, ...blue]) };
+  const pixel = (pixels: { width: number; data: Uint8ClampedArray }, x: number, y: number) =>
+    Array.from(pixels.data.subarray((y * pixels.width + x) * 4, (y * pixels.width + x) * 4 + 4));
+
+  it('repeats the outermost pixels when extruding', () => {
+    const padded = new EdgePadder().pad(content, 1);
+
+    expect([padded.width, padded.height]).toEqual([4, 3]);
+    expect(pixel(padded, 0, 0)).toEqual(red);
+    expect(pixel(padded, 3, 2)).toEqual(blue);
+  });
+
+  it('copies the sheet around the content when bleeding, repeating the sheet edge', () => {
+    // A 3x1 sheet of red, blue, red with the content being its middle pixel
+    const sheet = { width: 3, height: 1, data: new Uint8ClampedArray([...red, ...blue, ...red]) };
+    const padded = new EdgePadder().pad({ width: 1, height: 1, data: new Uint8ClampedArray(blue) }, 2, { sheet, x: 1, y: 0 });
+
+    expect([padded.width, padded.height]).toEqual([5, 5]);
+    expect([0, 1, 2, 3, 4].map(x => pixel(padded, x, 2))).toEqual([red, red, blue, red, red]);
+    expect(pixel(padded, 2, 0)).toEqual(blue);
+  });
+
+  it('has no inset when the mode is none', () => {
+    expect(new EdgePadder().getInset(settingsFor(layout, { edgeMode: 'none', edgeSize: 4 }))).toBe(0);
+    expect(new EdgePadder().getInset(settingsFor(layout, { edgeMode: 'bleed', edgeSize: 4 }))).toBe(4);
+  });
+});
+
+describe('SpriteSlicer edge borders', () => {
+  it('extrudes each tile with its own pixels', async () => {
+    const { sheet, tiles } = await sliceWith({ edgeMode: 'extrude', edgeSize: 2 });
+    const tile = tiles[1];
+
+    expect(tile.inset).toBe(2);
+    expect([tile.canvas.width, tile.canvas.height]).toEqual([12, 12]);
+    expect(tile.trimRect).toEqual({ x: 0, y: 0, width: 8, height: 8 });
+    expect(pixelAt(tile.canvas as HTMLCanvasElement, 0, 5)).toEqual(pixelAt(sheet, 8, 0));
+  });
+
+  it('bleeds in the neighbouring tile and extrudes at the sheet edge', async () => {
+    const { sheet, tiles } = await sliceWith({ edgeMode: 'bleed', edgeSize: 2 });
+
+    expect(pixelAt(tiles[1].canvas as HTMLCanvasElement, 0, 5)).toEqual(pixelAt(sheet, 0, 0));
+    expect(pixelAt(tiles[1].canvas as HTMLCanvasElement, 11, 5)).toEqual(pixelAt(sheet, 8, 0));
+    expect(pixelAt(tiles[0].canvas as HTMLCanvasElement, 11, 5)).toEqual(pixelAt(sheet, 8, 0));
+  });
+
+  it('grows the trimmed content, not the whole cell', async () => {
+    const trimmedLayout = { ...layout, sprite: () => ({ x: 2, y: 2, width: 4, height: 4 }) };
+    const { tiles } = await sliceWith({ trimTransparent: true, edgeMode: 'extrude', edgeSize: 1 }, trimmedLayout);
+
+    expect(tiles[0].trimRect).toEqual({ x: 2, y: 2, width: 4, height: 4 });
+    expect([tiles[0].canvas.width, tiles[0].canvas.height]).toEqual([6, 6]);
+    expect(pixelAt(tiles[0].canvas as HTMLCanvasElement, 0, 0)[3]).toBe(255);
+  });
+
+  it('keeps borders out of animation frames', async () => {
+    const { tiles } = await sliceWith({ edgeMode: 'bleed', edgeSize: 2 });
+    const [frame] = new AnimationBuilder().composeFrames({ name: 'idle', frames: [{ index: 1, duration: 100 }] }, tiles);
+    const { tiles: plain } = await sliceWith({});
+    const [plainFrame] = new AnimationBuilder().composeFrames({ name: 'idle', frames: [{ index: 1, duration: 100 }] }, plain);
+
+    expect(Array.from(frame.data)).toEqual(Array.from(plainFrame.data));
+  });
+
+  it('rejects borders over 64px', () => {
+    const settings = settingsFor(layout, { edgeMode: 'extrude', edgeSize: 65 });
+    expect(grid.validateSettings(settings, metadataFor({ width: 16, height: 8 }))).toContain('Edge size must be between 0 and 64');
+  });
+});
+
+describe('ZipExporter edge borders', () => {
+  it('places atlas frames inside the border and records the inset', async () => {
+    const { sheet, settings, tiles } = await sliceWith({ edgeMode: 'bleed', edgeSize: 2 });
+    const exportSettings = {
+      ...DEFAULT_EXPORT_SETTINGS,
+      atlasFormat: 'json-hash' as const,
+      atlasSource: 'packed' as const,
+      pack: { ...DEFAULT_EXPORT_SETTINGS.pack, padding: 0, powerOfTwo: false }
+    };
+    const result = await new ZipExporter().exportTiles(tiles, settings, exportSettings, metadataFor(sheet), sheet, []);
+    const zip = await JSZip.loadAsync(result.zip);
+
+    const meta = JSON.parse(await zip.file('meta.json')!.async('string'));
+    expect(meta.settings).toMatchObject({ edgeMode: 'bleed', edgeSize: 2 });
+    expect(meta.tiles.map((tile: { inset: number }) => tile.inset)).toEqual([2, 2]);
+
+    const tilePng = await loadSheet(await zip.file('tiles/0_1.png')!.async('uint8array'));
+    expect([tilePng.width, tilePng.height]).toEqual([12, 12]);
+
+    const atlas = JSON.parse(await zip.file('atlas/atlas.json')!.async('string'));
+    const page = await loadSheet(await zip.file('atlas/atlas.png')!.async('uint8array'));
+    const { frame } = atlas.frames['0_1.png'];
+    expect([frame.w, frame.h]).toEqual([8, 8]);
+    expect(pixelAt(page, frame.x, frame.y)).toEqual(pixelAt(sheet, 8, 0));
+    // The bled border holds the neighbouring tile's pixels
+    expect(pixelAt(page, frame.x - 1, frame.y)).toEqual(pixelAt(sheet, 7, 0));
+  });
+
+  it('keeps the border at the recorded inset in scaled tiles', async () => {
+    const { sheet, settings, tiles } = await sliceWith({ edgeMode: 'bleed', edgeSize: 2 });
+    const exportSettings = { ...DEFAULT_EXPORT_SETTINGS, scales: [0.5, 3] };
+    const result = await new ZipExporter().exportTiles(tiles, settings, exportSettings, metadataFor(sheet), sheet, []);
+    const zip = await JSZip.loadAsync(result.zip);
+
+    const meta = JSON.parse(await zip.file('meta.json')!.async('string'));
+    expect(meta.tiles[1].inset).toBe(2);
+
+    const tripled = await loadSheet(await zip.file('tiles/@3x/0_1.png')!.async('uint8array'));
+    expect([tripled.width, tripled.height]).toEqual([28, 28]);
+    expect(pixelAt(tripled, 2, 2)).toEqual(pixelAt(sheet, 8, 0));
+    expect(pixelAt(tripled, 1, 2)).toEqual(pixelAt(sheet, 7, 0));
+
+    const halved = await loadSheet(await zip.file('tiles/@0.5x/0_1.png')!.async('uint8array'));
+    expect([halved.width, halved.height]).toEqual([8, 8]);
+    expect(pixelAt(halved, 0, 2)).toEqual(pixelAt(sheet, 7, 0));
+    expect(pixelAt(halved, 2, 2)).toEqual(pixelAt(sheet, 8, 0));
+  });
+});
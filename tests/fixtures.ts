@@ -0,0 +1,80 @@
+import type { ImageMetadata, TileSettings } from '../src/types';
+import { createCanvas } from '../src/canvas';
+import { DEFAULT_TILE_SETTINGS } from '../src/defaults';
+
+export interface SheetLayout {
+  cols: number;
+  rows: number;
+  tileWidth: number;
+  tileHeight: number;
+  margin?: number;
+  spacing?: number;
+  offsetX?: number;
+  offsetY?: number;
+  // Opaque area drawn inside a tile, relative to its top-left corner; null leaves the tile empty
+  sprite?: (col: number, row: number) => { x: number; y: number; width: number; height: number } | null;
+}
+
+// Builds a sprite sheet with a known layout; each tile gets its own color so tiles can be told apart
+export function createSheet(layout: SheetLayout): HTMLCanvasElement {
+  const { cols, rows, tileWidth, tileHeight, margin = 0, spacing = 0, offsetX = 0, offsetY = 0 } = layout;
+  const sprite = layout.sprite ?? (() => ({ x: 0, y: 0, width: tileWidth, height: tileHeight }));
+
+  const canvas = createCanvas(
+    margin * 2 + offsetX + cols * tileWidth + (cols - 1) * spacing,
+    margin * 2 + offsetY + rows * tileHeight + (rows - 1) * spacing
+  );
+  const ctx = canvas.getContext('2d')!;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const rect = sprite(col, row);
+      if (!rect) continue;
+
+      ctx.fillStyle = tileColor(col, row);
+      ctx.fillRect(
+        margin + offsetX + col * (tileWidth + spacing) + rect.x,
+        margin + offsetY + row * (tileHeight + spacing) + rect.y,
+        rect.width,
+        rect.height
+      );
+    }
+  }
+
+  return canvas;
+}
+
+export function tileColor(col: number, row: number): string {
+  return `rgb(${(col * 40) % 256}, ${(row * 70) % 256}, 200)`;
+}
+
+export function settingsFor(layout: SheetLayout, overrides: Partial<TileSettings> = {}): TileSettings {
+  return {
+    ...DEFAULT_TILE_SETTINGS,
+    tileWidth: layout.tileWidth,
+    tileHeight: layout.tileHeight,
+    margin: layout.margin ?? 0,
+    spacing: layout.spacing ?? 0,
+    offsetX: layout.offsetX ?? 0,
+    offsetY: layout.offsetY ?? 0,
+    ...overrides
+  };
+}
+
+export function metadataFor(image: { width: number; height: number }, name: string = 'fixture'): ImageMetadata {
+  return {
+    name,
+    width: image.width,
+    height: image.height,
+    hasAlpha: true,
+    format: 'png',
+    colorDepth: 32,
+    frameCount: 1,
+    frameWidth: image.width,
+    frameHeight: image.height
+  };
+}
+
+export function pixelAt(canvas: { getContext(type: '2d'): CanvasRenderingContext2D | null }, x: number, y: number): number[] {
+  return Array.from(canvas.getContext('2d')!.getImageData(x, y, 1, 1).data);
+}
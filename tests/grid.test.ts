@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { GridCalculator } from '../src/grid';
+import { DEFAULT_TILE_SETTINGS } from '../src/defaults';
+import { createSheet, metadataFor, settingsFor, type SheetLayout } from './fixtures';
+
+const grid = new GridCalculator();
+
+describe('GridCalculator.calculateGrid', () => {
+  it('counts whole tiles on a plain grid', () => {
+    const settings = { ...DEFAULT_TILE_SETTINGS, tileWidth: 32, tileHeight: 16 };
+    expect(grid.calculateGrid(settings, metadataFor({ width: 128, height: 64 }))).toEqual({ rows: 4, cols: 4, totalTiles: 16 });
+  });
+
+  it('ignores partial tiles at the right and bottom edges', () => {
+    const settings = { ...DEFAULT_TILE_SETTINGS, tileWidth: 32, tileHeight: 32 };
+    expect(grid.calculateGrid(settings, metadataFor({ width: 100, height: 63 }))).toEqual({ rows: 1, cols: 3, totalTiles: 3 });
+  });
+
+  it('accounts for margin, spacing and offsets', () => {
+    const layout: SheetLayout = { cols: 5, rows: 3, tileWidth: 16, tileHeight: 16, margin: 2, spacing: 1, offsetX: 3, offsetY: 4 };
+    const sheet = createSheet(layout);
+    expect(grid.calculateGrid(settingsFor(layout), metadataFor(sheet))).toEqual({ rows: 3, cols: 5, totalTiles: 15 });
+  });
+
+  it('never reports negative counts', () => {
+    const settings = { ...DEFAULT_TILE_SETTINGS, tileWidth: 64, tileHeight: 64, margin: 40 };
+    expect(grid.calculateGrid(settings, metadataFor({ width: 32, height: 32 }))).toEqual({ rows: 0, cols: 0, totalTiles: 0 });
+  });
+});
+
+describe('GridCalculator.getTileRects', () => {
+  it('agrees with calculateGrid on indices when margin and offsets are set', () => {
+    const layout: SheetLayout = { cols: 4, rows: 3, tileWidth: 10, tileHeight: 12, margin: 3, spacing: 2, offsetX: 1, offsetY: 5 };
+    const settings = settingsFor(layout);
+    const gridInfo = grid.calculateGrid(settings, metadataFor(createSheet(layout)));
+    const rects = grid.getTileRects(settings, gridInfo);
+
+    expect(rects).toHaveLength(gridInfo.totalTiles);
+    rects.forEach((rect, i) => {
+      expect(rect.index).toBe(i);
+      expect(rect.index).toBe(rect.row * gridInfo.cols + rect.col);
+      expect(rect.x).toBe(3 + 1 + rect.col * 12);
+      expect(rect.y).toBe(3 + 5 + rect.row * 14);
+    });
+  });
+});
+
+describe('GridCalculator.validateSettings', () => {
+  const metadata = metadataFor({ width: 64, height: 64 });
+
+  it('accepts settings that fit', () => {
+    expect(grid.validateSettings({ ...DEFAULT_TILE_SETTINGS, tileWidth: 16, tileHeight: 16 }, metadata)).toEqual([]);
+  });
+
+  it('rejects non-positive sizes and negative gaps', () => {
+    const errors = grid.validateSettings(
+      { ...DEFAULT_TILE_SETTINGS, tileWidth: 0, tileHeight: -1, margin: -1, spacing: -2, offsetX: -3, offsetY: -4 },
+      metadata
+    );
+    expect(errors).toEqual(expect.arrayContaining([
+      'Tile width must be greater than 0',
+      'Tile height must be greater than 0',
+      'Margin cannot be negative',
+      'Spacing cannot be negative',
+      'Offset X cannot be negative',
+      'Offset Y cannot be negative'
+    ]));
+  });
+
+  it('rejects settings that need a larger image', () => {
+    const errors = grid.validateSettings({ ...DEFAULT_TILE_SETTINGS, tileWidth: 60, tileHeight: 16, margin: 4 }, metadata);
+    expect(errors).toEqual(['Image width (64px) is too small for current settings (requires at least 68px)']);
+  });
+
+  it('checks island settings instead of the grid in island mode', () => {
+    const errors = grid.validateSettings(
+      { ...DEFAULT_TILE_SETTINGS, sliceMode: 'islands', tileWidth: 0, alphaThreshold: 255, mergeDistance: -1 },
+      metadata
+    );
+    expect(errors).toEqual(['Alpha threshold must be between 0 and 254', 'Merge distance cannot be negative']);
+  });
+
+  it('checks the color key tolerance when keying is enabled', () => {
+    const errors = grid.validateSettings({ ...DEFAULT_TILE_SETTINGS, colorKeyEnabled: true, colorKeyTolerance: 300 }, metadata);
+    expect(errors).toContain('Color key tolerance must be between 0 and 255');
+  });
+});
+
+describe('GridCalculator.autoDetectTileSize', () => {
+  it.each<SheetLayout>([
+    { cols: 4, rows: 3, tileWidth: 16, tileHeight: 16 },
+    { cols: 4, rows: 3, tileWidth: 16, tileHeight: 16, spacing: 2 },
+    { cols: 3, rows: 2, tileWidth: 32, tileHeight: 32, margin: 1, spacing: 1 },
+    { cols: 5, rows: 3, tileWidth: 24, tileHeight: 24, margin: 4, spacing: 4 }
+  ])('finds $tileWidth px tiles in a $cols x $rows grid', layout => {
+    // Sprites are inset so the gutters between tiles are transparent
+    const sheet = createSheet({ ...layout, sprite: () => ({ x: 1, y: 1, width: layout.tileWidth - 2, height: layout.tileHeight - 2 }) });
+    const detected = grid.autoDetectTileSize(sheet);
+
+    expect(detected).not.toBeNull();
+    expect(detected!.tileWidth).toBe(layout.tileWidth);
+    expect(detected!.tileHeight).toBe(layout.tileHeight);
+    expect(grid.calculateGrid({ ...DEFAULT_TILE_SETTINGS, ...detected }, metadataFor(sheet)).totalTiles).toBe(layout.cols * layout.rows);
+  });
+
+  it('falls back to a low-confidence common size on a fully opaque sheet', () => {
+    const sheet = createSheet({ cols: 4, rows: 4, tileWidth: 16, tileHeight: 16 });
+    const [best] = grid.detectGridCandidates(sheet);
+
+    expect(best.confidence).toBeLessThan(0.5);
+    expect(best.settings.tileWidth).toBe(16);
+  });
+
+  it('returns nothing for an empty sheet that no common size divides', () => {
+    const sheet = createSheet({ cols: 1, rows: 1, tileWidth: 13, tileHeight: 7, sprite: () => null });
+    expect(grid.autoDetectTileSize(sheet)).toBeNull();
+  });
+});
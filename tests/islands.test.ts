@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { IslandDetector } from '../src/islands';
+
+const detector = new IslandDetector();
+
+// Opaque pixels at the given points on a transparent width x height image
+function maskImage(width: number, height: number, points: Array<[number, number]>): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (const [x, y] of points) data[(y * width + x) * 4 + 3] = 255;
+  return { width, height, data } as ImageData;
+}
+
+describe('IslandDetector.detectFromImageData', () => {
+  it('merges islands a grown island reaches, even when neither part did', () => {
+    // A bar at x=0 and a dot at x=2 merge first; only their union is within 1px of the dot at (4, 4)
+    const image = maskImage(6, 6, [[0, 0], [0, 1], [0, 2], [0, 3], [0, 4], [2, 0], [4, 4]]);
+
+    expect(detector.detectFromImageData(image, 0, 1)).toEqual([{ x: 0, y: 0, width: 5, height: 5, row: 0, col: 0, index: 0 }]);
+    expect(detector.detectFromImageData(image, 0, 0)).toHaveLength(3);
+  });
+
+  it('keeps thousands of separate islands apart', () => {
+    const points: Array<[number, number]> = [];
+    for (let y = 0; y < 200; y += 4) {
+      for (let x = 0; x < 200; x += 4) points.push([x, y]);
+    }
+
+    const rects = detector.detectFromImageData(maskImage(200, 200, points), 0, 2);
+    expect(rects).toHaveLength(2500);
+    expect(rects[51]).toMatchObject({ x: 4, y: 4, width: 1, height: 1, row: 1, col: 1 });
+  });
+});
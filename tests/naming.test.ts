@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { FilenameGenerator, type NamedTile } from '../src/naming';
+import { DEFAULT_EXPORT_SETTINGS } from '../src/defaults';
+import type { ExportSettings } from '../src/types';
+
+const generator = new FilenameGenerator();
+const context = { baseName: 'hero', animations: [] };
+
+function tile(index: number, row: number, col: number, extra: Partial<NamedTile> = {}): NamedTile {
+  return { index, row, col, name: '', tags: [], sourceRect: { x: col * 16, y: row * 16, width: 16, height: 24 }, ...extra };
+}
+
+function settings(overrides: Partial<ExportSettings>): ExportSettings {
+  return { ...DEFAULT_EXPORT_SETTINGS, ...overrides };
+}
+
+const tiles = [tile(0, 0, 0), tile(1, 0, 1), tile(5, 1, 2)];
+
+describe('FilenameGenerator.generate', () => {
+  it.each<[ExportSettings['namingPattern'], string[]]>([
+    ['row_col', ['0_0.png', '0_1.png', '1_2.png']],
+    ['index', ['0.png', '1.png', '5.png']],
+    ['custom', ['tile_0_0.png', 'tile_0_1.png', 'tile_1_2.png']]
+  ])('names tiles with the %s pattern', (namingPattern, expected) => {
+    expect(generator.generate(tiles, settings({ namingPattern, customPrefix: 'tile_' }), context)).toEqual(expected);
+  });
+
+  it('fills template tokens and zero-pads numbers', () => {
+    const names = generator.generate(
+      tiles,
+      settings({ namingPattern: 'template', customPrefix: 'p-', filenameTemplate: '{prefix}{basename}_{index:03}_{n}_{w}x{h}' }),
+      context
+    );
+    expect(names).toEqual(['p-hero_000_0_16x24.png', 'p-hero_001_1_16x24.png', 'p-hero_005_2_16x24.png']);
+  });
+
+  it('uses animation frames and tags in templates', () => {
+    const tagged = [tile(0, 0, 0, { tags: ['walk', 'left'] }), tile(1, 0, 1), tile(2, 0, 2)];
+    const names = generator.generate(
+      tagged,
+      settings({ namingPattern: 'template', filenameTemplate: '{anim}{frame:02}-{tags}' }),
+      {
+        baseName: 'hero',
+        animations: [
+          { name: 'run', frames: [{ index: 2, duration: 100 }, { index: 1, duration: 100 }] },
+          { name: 'jump', frames: [{ index: 1, duration: 100 }] }
+        ]
+      }
+    );
+    expect(names).toEqual(['00-walk-left.png', 'run01-.png', 'run00-.png']);
+  });
+
+  it('prefers tile names and sanitizes them', () => {
+    const names = generator.generate([tile(0, 0, 0, { name: ' hero idle/1 ' })], settings({ namingPattern: 'index' }), context);
+    expect(names).toEqual(['hero_idle_1.png']);
+  });
+
+  it('replaces an image extension typed into names and templates', () => {
+    const names = generator.generate(
+      [tile(0, 0, 0, { name: 'hero.png' }), tile(1, 0, 1, { name: 'sword.JPG' }), tile(2, 0, 2)],
+      settings({ namingPattern: 'template', filenameTemplate: '{index}.png' }),
+      context
+    );
+    expect(names).toEqual(['hero.png', 'sword.png', '2.png']);
+    expect(generator.generate([tile(3, 0, 3)], settings({ namingPattern: 'template', filenameTemplate: 'tile_{n}.webp' }), context))
+      .toEqual(['tile_0.png']);
+  });
+
+  it('falls back to the index when a template produces nothing', () => {
+    const names = generator.generate([tile(7, 0, 0)], settings({ namingPattern: 'template', filenameTemplate: '{tag}.png' }), context);
+    expect(names).toEqual(['7.png']);
+  });
+
+  it('keeps unknown tokens as written', () => {
+    const names = generator.generate([tile(0, 0, 0)], settings({ namingPattern: 'template', filenameTemplate: '{nope}_{row}' }), context);
+    expect(names).toEqual(['{nope}_0.png']);
+  });
+});
+
+describe('FilenameGenerator.findCollisions', () => {
+  it('reports names that differ only in case', () => {
+    expect(generator.findCollisions(['a.png', 'B.png', 'A.png', 'c.png', 'b.png'])).toEqual(['a.png', 'B.png', 'A.png', 'b.png']);
+  });
+
+  it('reports nothing for unique names', () => {
+    expect(generator.findCollisions(['0_0.png', '0_1.png'])).toEqual([]);
+  });
+});
+
+describe('FilenameGenerator.validateTemplate', () => {
+  it('accepts known tokens', () => {
+    expect(generator.validateTemplate('{basename}_{row:02}_{col:02}')).toEqual([]);
+  });
+
+  it('rejects empty templates and unknown tokens', () => {
+    expect(generator.validateTemplate('  ')).toEqual(['Filename template cannot be empty']);
+    expect(generator.validateTemplate('{row}_{colour}_{size}')).toEqual(['Unknown token {colour}', 'Unknown token {size}']);
+  });
+});
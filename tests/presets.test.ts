@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { pickKnownSettings } from '../src/presets';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TILE_SETTINGS } from '../src/defaults';
+
+describe('pickKnownSettings', () => {
+  it('keeps known settings of the right type and drops the rest', () => {
+    expect(pickKnownSettings({ tileWidth: 16, tileHeight: '16', unknown: 1 }, DEFAULT_TILE_SETTINGS)).toEqual({ tileWidth: 16 });
+  });
+
+  it('does not take an object for a list', () => {
+    expect(pickKnownSettings({ scales: {}, targets: { 0: 'godot' } }, DEFAULT_EXPORT_SETTINGS)).toEqual({});
+  });
+
+  it('drops lists with items of the wrong type, even when the reference list is empty', () => {
+    expect(pickKnownSettings({ scales: ['2'], targets: [1] }, DEFAULT_EXPORT_SETTINGS)).toEqual({});
+    expect(pickKnownSettings({ scales: [1, 2], targets: ['godot'] }, DEFAULT_EXPORT_SETTINGS))
+      .toEqual({ scales: [1, 2], targets: ['godot'] });
+  });
+
+  it('drops values a union setting can not take', () => {
+    expect(pickKnownSettings({ sliceMode: 'hexagons', edgeMode: 'bleed' }, DEFAULT_TILE_SETTINGS)).toEqual({ edgeMode: 'bleed' });
+    expect(pickKnownSettings({
+      namingPattern: 'random',
+      atlasFormat: 'xml',
+      atlasSource: 'packed',
+      scaleFilter: 'bicubic',
+      pack: { algorithm: 'guillotine', padding: 4 }
+    }, DEFAULT_EXPORT_SETTINGS)).toEqual({ atlasSource: 'packed', pack: { padding: 4 } });
+  });
+});
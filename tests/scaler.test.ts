@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { createCanvas } from '../src/canvas';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import { ZipExporter } from '../src/zipper';
+import { TileScaler } from '../src/scaler';
+import { loadSheet } from '../src/nodeCanvas';
+import { DEFAULT_EXPORT_SETTINGS } from '../src/defaults';
+import type { ExportSettings } from '../src/types';
+import { createSheet, metadataFor, pixelAt, settingsFor, type SheetLayout } from './fixtures';
+
+const scaler = new TileScaler();
+const RED = [255, 0, 0, 255];
+const CLEAR = [0, 0, 0, 0];
+
+// Draws one pixel per character: R red, B blue, anything else transparent
+function createImage(rows: string[]): HTMLCanvasElement {
+  const canvas = createCanvas(rows[0].length, rows.length);
+  const ctx = canvas.getContext('2d')!;
+  rows.forEach((row, y) => [...row].forEach((pixel, x) => {
+    if (pixel === 'R' || pixel === 'B') {
+      ctx.fillStyle = pixel === 'R' ? '#ff0000' : '#0000ff';
+      ctx.fillRect(x, y, 1, 1);
+    }
+  }));
+  return canvas;
+}
+
+// A corner whose inside edge the pixel-art filters round off
+const CORNER = ['RR.', 'R..', '...'];
+
+describe('TileScaler', () => {
+  it('repeats pixels with nearest neighbor', () => {
+    const scaled = scaler.scale(createImage(CORNER), 2, 'nearest');
+
+    expect([scaled.width, scaled.height]).toEqual([6, 6]);
+    expect(pixelAt(scaled, 3, 1)).toEqual(RED);
+    expect(pixelAt(scaled, 2, 2)).toEqual(CLEAR);
+  });
+
+  it('fills diagonal steps with Scale2x and Scale3x', () => {
+    const scale2x = scaler.scale(createImage(CORNER), 2, 'scale2x');
+    expect(pixelAt(scale2x, 2, 2)).toEqual(RED);
+    expect(pixelAt(scale2x, 3, 3)).toEqual(CLEAR);
+
+    const scale3x = scaler.scale(createImage(CORNER), 3, 'scale2x');
+    expect([scale3x.width, scale3x.height]).toEqual([9, 9]);
+    expect(pixelAt(scale3x, 3, 3)).toEqual(RED);
+    expect(pixelAt(scale3x, 4, 4)).toEqual(CLEAR);
+  });
+
+  it('scales 4x in two 2x passes', () => {
+    const scaled = scaler.scale(createImage(CORNER), 4, 'scale2x');
+    expect([scaled.width, scaled.height]).toEqual([12, 12]);
+    expect(pixelAt(scaled, 4, 4)).toEqual(RED);
+  });
+
+  it('blends the filled corners with the hqx-style filter', () => {
+    const [r, g, b, a] = pixelAt(scaler.scale(createImage(CORNER), 2, 'hqx'), 2, 2);
+
+    expect(a).toBe(191);
+    expect(r).toBeGreaterThan(185);
+    expect([g, b]).toEqual([0, 0]);
+  });
+
+  it('averages covered pixels when scaling down, ignoring transparent ones for color', () => {
+    expect(pixelAt(scaler.scale(createImage(['RB']), 0.5, 'nearest'), 0, 0)).toEqual([128, 0, 128, 255]);
+    expect(pixelAt(scaler.scale(createImage(['R.']), 0.5, 'nearest'), 0, 0)).toEqual([255, 0, 0, 128]);
+  });
+
+  it('rejects scales the filter can not produce', () => {
+    expect(scaler.validate([1, 2, 1.5], 'nearest')).toEqual([]);
+    expect(scaler.validate([0.5, 1, 2, 3, 4], 'hqx')).toEqual([]);
+    expect(scaler.validate([1.5], 'scale2x')).toEqual(['Scale2x/EPX only scales up by 2x, 3x or 4x (got 1.5x)']);
+    expect(scaler.validate([0, 16], 'nearest')).toEqual([
+      'Scale 0x must be above 0 and at most 8x',
+      'Scale 16x must be above 0 and at most 8x'
+    ]);
+    expect(scaler.validate([], 'nearest')).toEqual(['Choose at least one export scale']);
+  });
+});
+
+describe('ZipExporter scaled tiles', () => {
+  const layout: SheetLayout = { cols: 2, rows: 1, tileWidth: 8, tileHeight: 8 };
+
+  async function exportScaled(exportSettings: Partial<ExportSettings>) {
+    const sheet = createSheet(layout);
+    const metadata = metadataFor(sheet);
+    const settings = settingsFor(layout);
+    const grid = new GridCalculator();
+    const tiles = await new SpriteSlicer().sliceSprite(sheet, settings, grid.getTileRects(settings, grid.calculateGrid(settings, metadata)));
+    const result = await new ZipExporter().exportTiles(tiles, settings, { ...DEFAULT_EXPORT_SETTINGS, ...exportSettings }, metadata, sheet, []);
+    return JSZip.loadAsync(result.zip);
+  }
+
+  it('writes one folder per scale and records the scales in meta.json', async () => {
+    const zip = await exportScaled({ scales: [1, 2], scaleFilter: 'scale2x' });
+    const files = Object.values(zip.files).filter(file => !file.dir && file.name.startsWith('tiles/')).map(file => file.name).sort();
+
+    expect(files).toEqual(['tiles/@1x/0_0.png', 'tiles/@1x/0_1.png', 'tiles/@2x/0_0.png', 'tiles/@2x/0_1.png']);
+    const doubled = await loadSheet(await zip.file('tiles/@2x/0_1.png')!.async('uint8array'));
+    expect([doubled.width, doubled.height]).toEqual([16, 16]);
+
+    const meta = JSON.parse(await zip.file('meta.json')!.async('string'));
+    expect(meta.export).toMatchObject({ scales: [1, 2], scaleFilter: 'scale2x' });
+  });
+
+  it('keeps tiles at the top of tiles/ when only 1x is exported', async () => {
+    const zip = await exportScaled({});
+    expect(zip.file('tiles/0_0.png')).not.toBeNull();
+  });
+
+  it('refuses scales the filter can not produce', async () => {
+    await expect(exportScaled({ scales: [1.5], scaleFilter: 'hqx' })).rejects.toThrow('hqx-style only scales up by 2x, 3x or 4x');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { createCanvas } from '../src/canvas';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import { ZipExporter } from '../src/zipper';
+import { SessionImporter } from '../src/session';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TILE_SETTINGS } from '../src/defaults';
+import type { TileAnnotations, TileSettings } from '../src/types';
+import { createSheet, metadataFor, settingsFor, type SheetLayout } from './fixtures';
+
+const grid = new GridCalculator();
+const importer = new SessionImporter();
+const reference = { tile: DEFAULT_TILE_SETTINGS, export: DEFAULT_EXPORT_SETTINGS };
+
+// 3x1 sheet of 16px tiles
+const layout: SheetLayout = { cols: 3, rows: 1, tileWidth: 16, tileHeight: 16 };
+
+// Three copies of the same tile, so with dedupe on tiles 1 and 2 reuse tile 0
+function createRepeatedSheet(): HTMLCanvasElement {
+  const canvas = createCanvas(48, 16);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#3366cc';
+  for (let col = 0; col < 3; col++) ctx.fillRect(col * 16 + 2, 4, 8, 10);
+  return canvas;
+}
+
+async function exportMeta(overrides: Partial<TileSettings>, annotations: TileAnnotations = {}, sheet: HTMLCanvasElement = createSheet(layout)) {
+  const metadata = metadataFor(sheet, 'hero');
+  const settings = settingsFor(layout, overrides);
+  const tiles = await new SpriteSlicer().sliceSprite(sheet, settings, grid.getTileRects(settings, grid.calculateGrid(settings, metadata)), annotations);
+  const result = await new ZipExporter().exportTiles(tiles, settings, DEFAULT_EXPORT_SETTINGS, metadata, sheet, []);
+  return (await JSZip.loadAsync(result.zip)).file('meta.json')!.async('string');
+}
+
+describe('SessionImporter', () => {
+  it('restores the tile settings a sheet was exported with', async () => {
+    const settings = { trimTransparent: true, preservePadding: 2, dedupe: true, dedupeTransforms: true, dedupeTolerance: 3 };
+    const session = importer.parseMeta(await exportMeta(settings), reference);
+
+    expect(session.tile).toMatchObject({ tileWidth: 16, tileHeight: 16, ...settings });
+    expect(session.source).toEqual({ name: 'hero', width: 48, height: 16 });
+  });
+
+  it('keeps the annotations of deduplicated tiles', async () => {
+    const annotations: TileAnnotations = {
+      1: { excluded: false, name: '', tags: ['solid'] },
+      2: { excluded: false, name: '', tags: ['solid'] }
+    };
+    const text = await exportMeta({ dedupe: true }, annotations, createRepeatedSheet());
+    const meta = JSON.parse(text);
+
+    // Tile 1 is tagged unlike tile 0, so it is kept; tile 2 matches tile 1 and its tags move to its reuse entry
+    expect(meta.reuse.map((entry: { tile: number }) => entry.tile)).toEqual([0, 1, 1]);
+    expect(meta.reuse[2]).toMatchObject({ index: 2, tile: 1, tags: ['solid'] });
+    expect(meta.tiles.map((tile: { index: number }) => tile.index)).toEqual([0, 1]);
+    expect(importer.parseMeta(text, reference).annotations).toEqual(annotations);
+  });
+
+  it('keeps the pivots and hitboxes of deduplicated tiles', async () => {
+    const annotations: TileAnnotations = {
+      1: { excluded: false, name: '', tags: [], pivot: { x: 0.25, y: 1 }, hitboxes: [{ name: 'hurtbox', x: 2, y: 4, width: 8, height: 10 }] },
+      2: { excluded: false, name: '', tags: [], pivot: { x: 0.25, y: 1 }, hitboxes: [{ name: 'hurtbox', x: 2, y: 4, width: 8, height: 10 }] }
+    };
+    const text = await exportMeta({ dedupe: true }, annotations, createRepeatedSheet());
+    const meta = JSON.parse(text);
+
+    expect(meta.reuse.map((entry: { tile: number }) => entry.tile)).toEqual([0, 1, 1]);
+    expect(meta.reuse[1].pivot).toEqual({ x: 0.25, y: 1 });
+    expect(meta.reuse[2]).toMatchObject({ tile: 1, pivot: { x: 0.25, y: 1 }, hitboxes: annotations[2].hitboxes });
+    expect(importer.parseMeta(text, reference).annotations).toEqual(annotations);
+  });
+
+  it('rejects files that are not an export', () => {
+    expect(() => importer.parseMeta('{', reference)).toThrow('meta.json is not valid JSON');
+    expect(() => importer.parseMeta('{}', reference)).toThrow('meta.json has no tile settings');
+  });
+});
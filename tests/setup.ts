@@ -0,0 +1,4 @@
+import { setCanvasBackend } from '../src/canvas';
+import { nodeCanvasBackend } from '../src/nodeCanvas';
+
+setCanvasBackend(nodeCanvasBackend);
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import type { TileSettings } from '../src/types';
+import { createSheet, metadataFor, pixelAt, settingsFor, type SheetLayout } from './fixtures';
+
+const grid = new GridCalculator();
+const slicer = new SpriteSlicer();
+
+async function sliceLayout(layout: SheetLayout, overrides: Partial<TileSettings> = {}) {
+  const sheet = createSheet(layout);
+  const settings = settingsFor(layout, overrides);
+  const rects = grid.getTileRects(settings, grid.calculateGrid(settings, metadataFor(sheet)));
+  return slicer.sliceSprite(sheet, settings, rects);
+}
+
+describe('SpriteSlicer.sliceSprite', () => {
+  it('cuts every tile from its own position when margin, spacing and offsets are set', async () => {
+    const layout: SheetLayout = { cols: 3, rows: 2, tileWidth: 8, tileHeight: 8, margin: 2, spacing: 3, offsetX: 1, offsetY: 4 };
+    const tiles = await sliceLayout(layout);
+
+    expect(tiles.map(tile => tile.index)).toEqual([0, 1, 2, 3, 4, 5]);
+    for (const tile of tiles) {
+      expect(tile.canvas.width).toBe(8);
+      expect(tile.canvas.height).toBe(8);
+      // Corners of the tile carry its color, so nothing from a neighbour or gutter leaked in
+      const expected = [(tile.col * 40) % 256, (tile.row * 70) % 256, 200, 255];
+      expect(pixelAt(tile.canvas as HTMLCanvasElement, 0, 0)).toEqual(expected);
+      expect(pixelAt(tile.canvas as HTMLCanvasElement, 7, 7)).toEqual(expected);
+    }
+  });
+
+  it('trims transparent edges and keeps the requested padding', async () => {
+    const layout: SheetLayout = { cols: 2, rows: 1, tileWidth: 16, tileHeight: 16, sprite: () => ({ x: 4, y: 5, width: 6, height: 3 }) };
+    const [tile] = await sliceLayout(layout, { trimTransparent: true, preservePadding: 2 });
+
+    expect(tile.trimRect).toEqual({ x: 2, y: 3, width: 10, height: 7 });
+    expect(tile.canvas.width).toBe(10);
+    expect(tile.canvas.height).toBe(7);
+    expect(pixelAt(tile.canvas as HTMLCanvasElement, 0, 0)[3]).toBe(0);
+    expect(pixelAt(tile.canvas as HTMLCanvasElement, 2, 2)[3]).toBe(255);
+  });
+
+  it('clamps trim padding to the tile bounds', async () => {
+    const layout: SheetLayout = { cols: 1, rows: 1, tileWidth: 16, tileHeight: 16, sprite: () => ({ x: 0, y: 12, width: 3, height: 4 }) };
+    const [tile] = await sliceLayout(layout, { trimTransparent: true, preservePadding: 3 });
+
+    expect(tile.trimRect).toEqual({ x: 0, y: 9, width: 6, height: 7 });
+  });
+
+  it('flags empty tiles with and without trimming', async () => {
+    const layout: SheetLayout = {
+      cols: 3,
+      rows: 1,
+      tileWidth: 8,
+      tileHeight: 8,
+      sprite: col => (col === 1 ? null : { x: 0, y: 0, width: 8, height: 8 })
+    };
+
+    const untrimmed = await sliceLayout(layout);
+    expect(untrimmed.map(tile => tile.isEmpty)).toEqual([false, true, false]);
+    expect(untrimmed[1].canvas.width).toBe(8);
+
+    const trimmed = await sliceLayout(layout, { trimTransparent: true });
+    expect(trimmed.map(tile => tile.isEmpty)).toEqual([false, true, false]);
+    expect(trimmed[1].trimRect).toEqual({ x: 0, y: 0, width: 1, height: 1 });
+  });
+
+  it('applies annotations by tile index', async () => {
+    const layout: SheetLayout = { cols: 2, rows: 1, tileWidth: 8, tileHeight: 8 };
+    const sheet = createSheet(layout);
+    const settings = settingsFor(layout);
+    const rects = grid.getTileRects(settings, grid.calculateGrid(settings, metadataFor(sheet)));
+    const tags = ['hero', 'idle'];
+    const tiles = await slicer.sliceSprite(sheet, settings, rects, { 1: { name: 'hero_idle', tags, excluded: true } });
+
+    expect(tiles[0]).toMatchObject({ name: '', tags: [], excluded: false });
+    expect(tiles[1]).toMatchObject({ name: 'hero_idle', tags: ['hero', 'idle'], excluded: true });
+    expect(tiles[1].tags).not.toBe(tags);
+  });
+});
+
+describe('SpriteSlicer.releaseTiles', () => {
+  it('closes worker bitmaps and leaves canvases alone', async () => {
+    const [tile] = await sliceLayout({ cols: 1, rows: 1, tileWidth: 8, tileHeight: 8 });
+    const close = vi.fn();
+    const bitmapTile = { ...tile, canvas: { width: 8, height: 8, close } as unknown as ImageBitmap };
+
+    expect(() => slicer.releaseTiles([tile, bitmapTile])).not.toThrow();
+    expect(close).toHaveBeenCalledOnce();
+  });
+});
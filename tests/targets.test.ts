@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import { ZipExporter } from '../src/zipper';
+import { getExportTargets, registerExportTarget } from '../src/targets';
+import { DEFAULT_EXPORT_SETTINGS } from '../src/defaults';
+import type { ExportSettings, SpriteAnimation, TileSettings } from '../src/types';
+import { createSheet, metadataFor, settingsFor, type SheetLayout } from './fixtures';
+
+const grid = new GridCalculator();
+const slicer = new SpriteSlicer();
+
+// 2x2 sheet of 16px tiles with a 4px transparent border inside each tile
+const layout: SheetLayout = {
+  cols: 2,
+  rows: 2,
+  tileWidth: 16,
+  tileHeight: 16,
+  spacing: 2,
+  sprite: () => ({ x: 4, y: 4, width: 8, height: 8 })
+};
+
+async function exportTargets(
+  targets: string[],
+  options: { settings?: Partial<TileSettings>; export?: Partial<ExportSettings>; animations?: SpriteAnimation[] } = {}
+) {
+  const sheet = createSheet(layout);
+  const metadata = metadataFor(sheet, 'hero');
+  const settings = settingsFor(layout, options.settings);
+  const tiles = await slicer.sliceSprite(sheet, settings, grid.getTileRects(settings, grid.calculateGrid(settings, metadata)));
+  const exportSettings = { ...DEFAULT_EXPORT_SETTINGS, includeTiles: false, ...options.export, targets };
+
+  const result = await new ZipExporter().exportTiles(tiles, settings, exportSettings, metadata, sheet, options.animations ?? []);
+  const zip = await JSZip.loadAsync(result.zip);
+  const files = Object.values(zip.files).filter(file => !file.dir).map(file => file.name).sort();
+  const read = (path: string) => zip.file(path)!.async('string');
+  return { files, read };
+}
+
+describe('Godot target', () => {
+  it('writes an AtlasTexture per tile and a SpriteFrames resource', async () => {
+    const { files, read } = await exportTargets(['godot']);
+
+    expect(files).toEqual([
+      'godot/hero.png',
+      'godot/hero_frames.tres',
+      'godot/textures/0_0.tres',
+      'godot/textures/0_1.tres',
+      'godot/textures/1_0.tres',
+      'godot/textures/1_1.tres',
+      'meta.json'
+    ]);
+    expect(await read('godot/textures/1_1.tres')).toBe([
+      '[gd_resource type="AtlasTexture" load_steps=2 format=3]',
+      '',
+      '[ext_resource type="Texture2D" path="../hero.png" id="1"]',
+      '',
+      '[resource]',
+      'atlas = ExtResource("1")',
+      'region = Rect2(18, 18, 16, 16)',
+      'filter_clip = true',
+      ''
+    ].join('\n'));
+
+    const frames = await read('godot/hero_frames.tres');
+    expect(frames).toContain('[gd_resource type="SpriteFrames" load_steps=6 format=3]');
+    expect(frames).toContain('"name": &"default"');
+    expect(frames.match(/SubResource\("AtlasTexture_\d"\)/g)).toHaveLength(4);
+  });
+
+  it('keeps trimmed tiles at their original size with a margin', async () => {
+    const { read } = await exportTargets(['godot'], { settings: { trimTransparent: true } });
+    const texture = await read('godot/textures/0_1.tres');
+
+    expect(texture).toContain('region = Rect2(22, 4, 8, 8)');
+    expect(texture).toContain('margin = Rect2(4, 4, 8, 8)');
+  });
+
+  it('turns animations into SpriteFrames animations with relative durations', async () => {
+    const { read } = await exportTargets(['godot'], {
+      animations: [{ name: 'walk', frames: [{ index: 3, duration: 100 }, { index: 2, duration: 150 }] }]
+    });
+    const frames = await read('godot/hero_frames.tres');
+
+    expect(frames).toContain('load_steps=4');
+    expect(frames).toContain('"duration": 1.0,\n"texture": SubResource("AtlasTexture_3")');
+    expect(frames).toContain('"duration": 1.5,\n"texture": SubResource("AtlasTexture_2")');
+    expect(frames).toContain('"name": &"walk"');
+    expect(frames).not.toContain('&"default"');
+  });
+
+  it('rejects animations with frames past the last tile before writing any target', async () => {
+    await expect(exportTargets(['godot'], {
+      animations: [{ name: 'walk', frames: [{ index: 3, duration: 100 }, { index: 7, duration: 100 }] }]
+    })).rejects.toThrow('Animation "walk" references missing tile 7');
+  });
+});
+
+describe('Unity target', () => {
+  it('writes sprite-mode Multiple slices measured from the bottom of the sheet', async () => {
+    const { files, read } = await exportTargets(['unity'], { export: { namingPattern: 'custom', customPrefix: "hero's_" } });
+    const meta = await read('unity/hero.png.meta');
+
+    expect(files).toEqual(['meta.json', 'unity/hero.png', 'unity/hero.png.meta']);
+    expect(meta).toMatch(/^fileFormatVersion: 2\nguid: [0-9a-f]{32}\n/);
+    expect(meta).toContain('  spriteMode: 2\n');
+    expect(meta).toContain([
+      "      name: 'hero''s_0_1'",
+      '      rect:',
+      '        serializedVersion: 2',
+      '        x: 18',
+      '        y: 18',
+      '        width: 16',
+      '        height: 16',
+      '      alignment: 0'
+    ].join('\n'));
+    expect(meta).toContain("      'hero''s_1_1': 21300006");
+  });
+
+  it('keeps ids stable between exports', async () => {
+    const first = await (await exportTargets(['unity'])).read('unity/hero.png.meta');
+    const second = await (await exportTargets(['unity'])).read('unity/hero.png.meta');
+    expect(second).toBe(first);
+  });
+
+  it('pivots trimmed sprites on the centre of the untrimmed tile', async () => {
+    const meta = await (await exportTargets(['unity'], { settings: { trimTransparent: true, preservePadding: 0 } }))
+      .read('unity/hero.png.meta');
+    expect(meta).toContain('      alignment: 9\n      pivot: {x: 0.5, y: 0.5}');
+  });
+});
+
+describe('CSS target', () => {
+  it('writes a class per tile with its background position', async () => {
+    const { files, read } = await exportTargets(['css'], { settings: { trimTransparent: true } });
+    const css = await read('css/hero.css');
+
+    expect(files).toEqual(['css/hero.css', 'css/hero.png', 'meta.json']);
+    expect(css).toContain('.sprite-hero {\n  background-image: url("hero.png");');
+    expect(css).toContain([
+      '.sprite-hero.sprite-hero-1_0 {',
+      '  width: 8px;',
+      '  height: 8px;',
+      '  background-position: -4px -22px;',
+      '}'
+    ].join('\n'));
+  });
+});
+
+describe('Export target registry', () => {
+  it('lists the built-in targets', () => {
+    expect(getExportTargets().map(target => target.id)).toEqual(expect.arrayContaining(['godot', 'unity', 'css']));
+  });
+
+  it('runs registered targets and records them in meta.json', async () => {
+    registerExportTarget({
+      id: 'names',
+      label: 'Plain list of names',
+      write(folder, context) {
+        folder.file('names.txt', context.filenames.join('\n'));
+      }
+    });
+    const { files, read } = await exportTargets(['names', 'css']);
+
+    expect(files).toContain('names/names.txt');
+    expect(await read('names/names.txt')).toBe('0_0.png\n0_1.png\n1_0.png\n1_1.png');
+    expect(JSON.parse(await read('meta.json')).export.targets).toEqual(['names', 'css']);
+  });
+
+  it('rejects unknown targets before writing anything', async () => {
+    await expect(exportTargets(['spine'])).rejects.toThrow('Unknown export target "spine"');
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { createCanvas } from '../src/canvas';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import { ZipExporter } from '../src/zipper';
+import { TilemapBuilder } from '../src/tilemap';
+import { loadSheet } from '../src/nodeCanvas';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TILE_SETTINGS } from '../src/defaults';
+import type { TileAnnotations, TileSettings } from '../src/types';
+import { metadataFor, pixelAt } from './fixtures';
+
+const TILE = 8;
+const grid = new GridCalculator();
+const builder = new TilemapBuilder();
+
+type Draw = (ctx: CanvasRenderingContext2D) => void;
+
+// An "L" that looks different under every flip and rotation, and a plain block
+const wall: Draw = ctx => {
+  ctx.fillStyle = '#3366cc';
+  ctx.fillRect(1, 1, 2, 6);
+  ctx.fillRect(3, 5, 3, 2);
+};
+const floor: Draw = ctx => {
+  ctx.fillStyle = '#cc9933';
+  ctx.fillRect(0, 0, TILE, TILE);
+};
+const rotated: Draw = ctx => {
+  ctx.translate(TILE / 2, TILE / 2);
+  ctx.rotate(Math.PI / 2);
+  ctx.translate(-TILE / 2, -TILE / 2);
+  wall(ctx);
+};
+const empty: Draw = () => {};
+
+// wall  floor  wall
+// rot   empty  floor
+const LEVEL: Draw[][] = [[wall, floor, wall], [rotated, empty, floor]];
+
+function createLevel(): HTMLCanvasElement {
+  const canvas = createCanvas(LEVEL[0].length * TILE, LEVEL.length * TILE);
+  const ctx = canvas.getContext('2d')!;
+  LEVEL.forEach((row, y) => row.forEach((draw, x) => {
+    ctx.save();
+    ctx.translate(x * TILE, y * TILE);
+    draw(ctx);
+    ctx.restore();
+  }));
+  return canvas;
+}
+
+async function sliceLevel(overrides: Partial<TileSettings> = {}, annotations: TileAnnotations = {}) {
+  const sheet = createLevel();
+  const metadata = metadataFor(sheet, 'level 1');
+  const settings = { ...DEFAULT_TILE_SETTINGS, tileWidth: TILE, tileHeight: TILE, dedupe: true, dedupeTransforms: true, ...overrides };
+  const gridInfo = grid.calculateGrid(settings, metadata);
+  const tiles = await new SpriteSlicer().sliceSprite(sheet, settings, grid.getTileRects(settings, gridInfo), annotations);
+  return { sheet, metadata, settings, gridInfo, tiles };
+}
+
+describe('TilemapBuilder', () => {
+  it('places unique tiles on the grid with the transform of each copy', async () => {
+    const { settings, gridInfo, tiles } = await sliceLevel();
+    const unique = tiles.filter(tile => !tile.duplicateOf && !tile.isEmpty);
+    const tilemap = builder.build(tiles, unique, settings, gridInfo);
+
+    expect(tilemap.tiles.map(tile => tile.index)).toEqual([0, 1]);
+    expect(tilemap.cells).toEqual([
+      [{ tile: 0, transform: 'none' }, { tile: 1, transform: 'none' }, { tile: 0, transform: 'none' }],
+      [{ tile: 0, transform: 'rotate-90' }, null, { tile: 1, transform: 'none' }]
+    ]);
+    expect(builder.toCsv(tilemap)).toBe('0,1,0\n0,-1,1\n');
+  });
+
+  it('leaves excluded cells empty', async () => {
+    const { settings, gridInfo, tiles } = await sliceLevel({}, { 2: { name: '', tags: [], excluded: true } });
+    const tilemap = builder.build(tiles, tiles.filter(tile => !tile.duplicateOf && !tile.isEmpty && !tile.excluded), settings, gridInfo);
+    expect(builder.toCsv(tilemap)).toBe('0,1,-1\n0,-1,1\n');
+  });
+
+  it('writes Tiled flip flags into the TMX gids', async () => {
+    const { settings, gridInfo, tiles } = await sliceLevel();
+    const tilemap = builder.build(tiles, tiles.filter(tile => !tile.duplicateOf && !tile.isEmpty), settings, gridInfo);
+    const tmx = builder.toTmx(tilemap, { name: 'level <1>', image: 'level-tiles.png' }, { width: 16, height: 16 });
+
+    expect(tmx).toContain('<map version="1.10" orientation="orthogonal" renderorder="right-down" width="3" height="2" tilewidth="8" tileheight="8"');
+    expect(tmx).toContain(' <tileset firstgid="1" name="level &lt;1&gt;" tilewidth="8" tileheight="8" tilecount="2" columns="2">');
+    // Rotating 90° clockwise is a diagonal plus a horizontal flip
+    expect(tmx).toContain(`<data encoding="csv">\n1,2,1,\n${0xA0000000 + 1},0,2\n</data>`);
+  });
+
+  it('rejects island slicing and maps without dedupe', () => {
+    const settings = { ...DEFAULT_TILE_SETTINGS, dedupe: true };
+    expect(builder.validate(settings)).toEqual([]);
+    expect(builder.validate({ ...settings, sliceMode: 'islands', dedupe: false }))
+      .toEqual(['Tilemaps need grid slicing', 'Tilemaps need tile deduplication']);
+  });
+});
+
+describe('ZipExporter tilemap export', () => {
+  it('writes the unique tileset image and the CSV, JSON and TMX maps', async () => {
+    const { sheet, metadata, settings, tiles } = await sliceLevel();
+    const exportSettings = { ...DEFAULT_EXPORT_SETTINGS, includeTilemap: true };
+    const result = await new ZipExporter().exportTiles(tiles, settings, exportSettings, metadata, sheet, []);
+    const zip = await JSZip.loadAsync(result.zip);
+    const files = Object.values(zip.files).filter(file => !file.dir && file.name.startsWith('map/')).map(file => file.name).sort();
+
+    expect(files).toEqual(['map/level_1-tiles.png', 'map/level_1.csv', 'map/level_1.json', 'map/level_1.tmx']);
+
+    const map = JSON.parse(await zip.file('map/level_1.json')!.async('string'));
+    expect(map).toMatchObject({ width: 3, height: 2, tileWidth: 8, tileHeight: 8, cells: [[0, 1, 0], [0, -1, 1]] });
+    expect(map.tileset).toEqual({
+      image: 'level_1-tiles.png',
+      columns: 2,
+      tileCount: 2,
+      tiles: [
+        { id: 0, index: 0, row: 0, col: 0, filename: '0_0.png' },
+        { id: 1, index: 1, row: 0, col: 1, filename: '0_1.png' }
+      ]
+    });
+    expect(map.transforms).toEqual([['none', 'none', 'none'], ['rotate-90', null, 'none']]);
+
+    const image = await loadSheet(await zip.file('map/level_1-tiles.png')!.async('uint8array'));
+    expect([image.width, image.height]).toEqual([2 * TILE, TILE]);
+    expect(pixelAt(image, TILE + 4, 4)).toEqual(pixelAt(sheet, TILE + 4, 4));
+    expect(pixelAt(image, 1, 1)).toEqual(pixelAt(sheet, 1, 1));
+  });
+
+  it('refuses to build a map without dedupe', async () => {
+    const { sheet, metadata, settings, tiles } = await sliceLevel();
+    const exportSettings = { ...DEFAULT_EXPORT_SETTINGS, includeTilemap: true };
+
+    await expect(new ZipExporter().exportTiles(tiles, { ...settings, dedupe: false }, exportSettings, metadata, sheet, []))
+      .rejects.toThrow('Tilemaps need tile deduplication');
+  });
+});
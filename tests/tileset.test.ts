@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import { ZipExporter } from '../src/zipper';
+import { TilesetBuilder } from '../src/tileset';
+import { loadSheet } from '../src/nodeCanvas';
+import { DEFAULT_EXPORT_SETTINGS } from '../src/defaults';
+import type { TileAnnotations, TileSettings } from '../src/types';
+import { createSheet, metadataFor, pixelAt, settingsFor, type SheetLayout } from './fixtures';
+
+const grid = new GridCalculator();
+const slicer = new SpriteSlicer();
+const builder = new TilesetBuilder();
+
+const layout: SheetLayout = { cols: 3, rows: 2, tileWidth: 16, tileHeight: 16, margin: 1, spacing: 2, offsetX: 3, offsetY: 5 };
+const annotations: TileAnnotations = {
+  1: { name: 'door "open"', tags: ['solid', 'door'], excluded: false },
+  4: { name: '', tags: ['water'], excluded: true }
+};
+
+async function sliceTiles(overrides: Partial<TileSettings> = {}) {
+  const sheet = createSheet(layout);
+  const metadata = metadataFor(sheet, 'dungeon');
+  const settings = settingsFor(layout, overrides);
+  const gridInfo = grid.calculateGrid(settings, metadata);
+  const tiles = await slicer.sliceSprite(sheet, settings, grid.getTileRects(settings, gridInfo), annotations);
+  return { sheet, metadata, settings, gridInfo, tiles };
+}
+
+describe('TilesetBuilder', () => {
+  it('crops the image to the grid so offsets need no Tiled support', async () => {
+    const { settings, gridInfo } = await sliceTiles();
+    expect(builder.getGridBounds(settings, gridInfo)).toEqual({ x: 3, y: 5, width: 54, height: 36 });
+  });
+
+  it('writes a TSX tileset with tags as tile properties', async () => {
+    const { settings, gridInfo, tiles } = await sliceTiles();
+    const tsx = builder.toTsx(settings, gridInfo, tiles, { name: 'dungeon', image: 'dungeon.png', width: 54, height: 36 });
+
+    expect(tsx).toContain('<tileset version="1.10" name="dungeon" tilewidth="16" tileheight="16" spacing="2" margin="1" tilecount="6" columns="3">');
+    expect(tsx).toContain('<image source="dungeon.png" width="54" height="36"/>');
+    expect(tsx).toContain([
+      ' <tile id="1">',
+      '  <properties>',
+      '   <property name="name" type="string" value="door &quot;open&quot;"/>',
+      '   <property name="solid" type="bool" value="true"/>',
+      '   <property name="door" type="bool" value="true"/>',
+      '  </properties>',
+      ' </tile>'
+    ].join('\n'));
+    // Excluded tiles are still part of the tileset image
+    expect(tsx).toContain('<tile id="4">');
+    expect(tsx.match(/<tile /g)).toHaveLength(2);
+  });
+
+  it('writes the same tileset as TSJ', async () => {
+    const { settings, gridInfo, tiles } = await sliceTiles();
+    const tsj = builder.toTsj(settings, gridInfo, tiles, { name: 'dungeon', image: 'dungeon.png', width: 54, height: 36 });
+
+    expect(tsj).toMatchObject({ type: 'tileset', tilewidth: 16, tileheight: 16, spacing: 2, margin: 1, tilecount: 6, columns: 3, imagewidth: 54 });
+    expect(tsj.tiles).toEqual([
+      { id: 1, properties: [
+        { name: 'name', type: 'string', value: 'door "open"' },
+        { name: 'solid', type: 'bool', value: true },
+        { name: 'door', type: 'bool', value: true }
+      ] },
+      { id: 4, properties: [{ name: 'water', type: 'bool', value: true }] }
+    ]);
+  });
+
+  it('writes an LDtk tileset with tags as enum values', async () => {
+    const { settings, gridInfo, tiles } = await sliceTiles();
+    const ldtk = builder.toLdtk(settings, gridInfo, tiles, { name: '1st dungeon', image: 'dungeon.png', width: 54, height: 36 });
+
+    expect(ldtk.tilesets[0]).toMatchObject({
+      identifier: '_1st_dungeon',
+      relPath: 'dungeon.png',
+      tileGridSize: 16,
+      spacing: 2,
+      padding: 1,
+      __cWid: 3,
+      __cHei: 2,
+      tagsSourceEnumUid: ldtk.enums[0].uid,
+      enumTags: [
+        { enumValueId: 'Solid', tileIds: [1] },
+        { enumValueId: 'Door', tileIds: [1] },
+        { enumValueId: 'Water', tileIds: [4] }
+      ],
+      customData: [{ tileId: 1, data: 'door "open"' }]
+    });
+    expect(ldtk.enums[0].values.map(value => value.id)).toEqual(['Solid', 'Door', 'Water']);
+  });
+
+  it('rejects island slicing and non-square LDtk tiles', () => {
+    expect(builder.validate(settingsFor(layout, { sliceMode: 'islands' }), false)).toEqual(['Tiled and LDtk tilesets need grid slicing']);
+    expect(builder.validate(settingsFor(layout, { tileHeight: 24 }), false)).toEqual([]);
+    expect(builder.validate(settingsFor(layout, { tileHeight: 24 }), true)).toEqual(['LDtk tilesets need square tiles (current tiles are 16x24)']);
+  });
+});
+
+describe('ZipExporter tileset export', () => {
+  it('adds the cropped image and every requested tileset file', async () => {
+    const { sheet, metadata, settings, tiles } = await sliceTiles();
+    const exportSettings = {
+      ...DEFAULT_EXPORT_SETTINGS,
+      includeTiles: false,
+      includeTiledTileset: true,
+      includeTiledJson: true,
+      includeLdtkTileset: true
+    };
+    const result = await new ZipExporter().exportTiles(tiles, settings, exportSettings, metadata, sheet, []);
+    const zip = await JSZip.loadAsync(result.zip);
+    const files = Object.values(zip.files).filter(file => !file.dir).map(file => file.name).sort();
+
+    expect(files).toEqual(['meta.json', 'tileset/dungeon-ldtk.json', 'tileset/dungeon.png', 'tileset/dungeon.tsj', 'tileset/dungeon.tsx']);
+
+    const png = await zip.file('tileset/dungeon.png')!.async('uint8array');
+    const image = createSheet({ ...layout, offsetX: 0, offsetY: 0 });
+    const cropped = await loadSheet(png);
+    expect([cropped.width, cropped.height]).toEqual([image.width, image.height]);
+    // The first tile starts right after the margin once the offset is cropped away
+    expect(pixelAt(cropped, 1, 1)).toEqual(pixelAt(image, 1, 1));
+  });
+
+  it('refuses to export a tileset in island mode', async () => {
+    const { sheet, metadata, settings, tiles } = await sliceTiles();
+    const exportSettings = { ...DEFAULT_EXPORT_SETTINGS, includeTiledTileset: true };
+
+    await expect(new ZipExporter().exportTiles(tiles, { ...settings, sliceMode: 'islands' }, exportSettings, metadata, sheet, []))
+      .rejects.toThrow('Tiled and LDtk tilesets need grid slicing');
+  });
+});
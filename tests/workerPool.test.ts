@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WorkerPool } from '../src/workerPool';
+
+class FakeBitmap {
+  close = vi.fn();
+}
+
+describe('WorkerPool.run', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('closes transferred bitmaps when the signal is already aborted', async () => {
+    vi.stubGlobal('ImageBitmap', FakeBitmap);
+    const createWorker = vi.fn();
+    const pool = new WorkerPool(createWorker, 1);
+    const bitmap = new FakeBitmap() as unknown as ImageBitmap;
+    const controller = new AbortController();
+    controller.abort(new Error('canceled'));
+
+    await expect(pool.run({ type: 'zip', entries: [] }, [bitmap], undefined, controller.signal)).rejects.toThrow('canceled');
+    expect(bitmap.close).toHaveBeenCalledOnce();
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { GridCalculator } from '../src/grid';
+import { SpriteSlicer } from '../src/slicer';
+import { ZipExporter } from '../src/zipper';
+import { DEFAULT_EXPORT_SETTINGS } from '../src/defaults';
+import type { ExportSettings, SpriteAnimation, TileAnnotations, TileSettings } from '../src/types';
+import { createSheet, metadataFor, settingsFor, type SheetLayout } from './fixtures';
+
+const grid = new GridCalculator();
+const slicer = new SpriteSlicer();
+const exporter = new ZipExporter();
+
+// 3x2 sheet of 16px tiles where the last tile is empty
+const layout: SheetLayout = {
+  cols: 3,
+  rows: 2,
+  tileWidth: 16,
+  tileHeight: 16,
+  margin: 1,
+  spacing: 2,
+  sprite: (col, row) => (col === 2 && row === 1 ? null : { x: 2, y: 2, width: 12, height: 12 })
+};
+
+async function exportLayout(options: {
+  settings?: Partial<TileSettings>;
+  export?: Partial<ExportSettings>;
+  annotations?: TileAnnotations;
+  animations?: SpriteAnimation[];
+} = {}) {
+  const sheet = createSheet(layout);
+  const metadata = metadataFor(sheet, 'hero');
+  const settings = settingsFor(layout, options.settings);
+  const exportSettings = { ...DEFAULT_EXPORT_SETTINGS, ...options.export };
+  const rects = grid.getTileRects(settings, grid.calculateGrid(settings, metadata));
+  const tiles = await slicer.sliceSprite(sheet, settings, rects, options.annotations);
+
+  const result = await exporter.exportTiles(tiles, settings, exportSettings, metadata, sheet, options.animations ?? []);
+  const zip = await JSZip.loadAsync(result.zip);
+  const files = Object.values(zip.files).filter(file => !file.dir).map(file => file.name).sort();
+  const meta = JSON.parse(await zip.file('meta.json')!.async('string'));
+  return { result, zip, files, meta };
+}
+
+describe('ZipExporter.exportTiles', () => {
+  it('writes one PNG per tile and meta.json', async () => {
+    const { result, files } = await exportLayout();
+
+    expect(result.exportedTiles).toBe(6);
+    expect(result.errors).toEqual([]);
+    expect(files).toEqual([
+      'meta.json',
+      'tiles/0_0.png',
+      'tiles/0_1.png',
+      'tiles/0_2.png',
+      'tiles/1_0.png',
+      'tiles/1_1.png',
+      'tiles/1_2.png'
+    ]);
+  });
+
+  it('writes valid PNG files', async () => {
+    const { zip } = await exportLayout();
+    const png = await zip.file('tiles/0_0.png')!.async('uint8array');
+
+    expect(Array.from(png.slice(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    // IHDR width and height are the untrimmed tile size
+    const view = new DataView(png.buffer, png.byteOffset);
+    expect(view.getUint32(16)).toBe(16);
+    expect(view.getUint32(20)).toBe(16);
+  });
+
+  it('records settings, source and per-tile rects in meta.json', async () => {
+    const { meta } = await exportLayout({ settings: { trimTransparent: true, preservePadding: 1 } });
+
+    expect(Object.keys(meta)).toEqual(['settings', 'export', 'source', 'result', 'tiles', 'excluded', 'animations', 'errors', 'timestamp']);
+    expect(meta.settings).toMatchObject({ sliceMode: 'grid', tileWidth: 16, tileHeight: 16, margin: 1, spacing: 2, trimTransparent: true, preservePadding: 1 });
+    expect(meta.settings).toMatchObject({ dedupe: false, dedupeTransforms: false, dedupeTolerance: 0 });
+    expect(meta.export).toMatchObject({ namingPattern: 'row_col', atlasFormat: 'none', includeTiles: true });
+    expect(meta.source).toEqual({ name: 'hero', width: 54, height: 36, hasAlpha: true, format: 'png', colorDepth: 32, frameCount: 1 });
+    expect(meta.result).toEqual({ totalTiles: 6, exportedTiles: 6, skippedTiles: 0, excludedTiles: 0, failedTiles: 0, duplicateTiles: 0 });
+    expect(new Date(meta.timestamp).toISOString()).toBe(meta.timestamp);
+
+    expect(meta.tiles[4]).toEqual({
+      filename: '1_1.png',
+      row: 1,
+      col: 1,
+      index: 4,
+      isEmpty: false,
+      sourceRect: { x: 19, y: 19, width: 16, height: 16 },
+      trimRect: { x: 1, y: 1, width: 14, height: 14 },
+      sourceSize: { width: 16, height: 16 },
+      pivot: { x: 0.5, y: 0.5 }
+    });
+    expect(meta.tiles[5]).toMatchObject({ filename: '1_2.png', isEmpty: true });
+  });
+
+  it('leaves out skipped and excluded tiles but keeps exclusions in meta.json', async () => {
+    const { files, meta } = await exportLayout({
+      export: { skipTransparent: true, namingPattern: 'index' },
+      annotations: {
+        0: { name: 'hero_idle', tags: ['idle'], excluded: false },
+        1: { name: 'broken', tags: ['wip'], excluded: true }
+      }
+    });
+
+    expect(files).toEqual(['meta.json', 'tiles/2.png', 'tiles/3.png', 'tiles/4.png', 'tiles/hero_idle.png']);
+    expect(meta.result).toEqual({ totalTiles: 6, exportedTiles: 4, skippedTiles: 2, excludedTiles: 1, failedTiles: 0, duplicateTiles: 0 });
+    expect(meta.tiles[0]).toMatchObject({ filename: 'hero_idle.png', name: 'hero_idle', tags: ['idle'] });
+    expect(meta.excluded).toEqual([{ index: 1, name: 'broken', tags: ['wip'], pivot: { x: 0.5, y: 0.5 } }]);
+  });
+
+  it('adds atlas image and both JSON layouts', async () => {
+    const { files, zip } = await exportLayout({ export: { atlasFormat: 'both', includeTiles: false } });
+
+    expect(files).toEqual(['atlas/atlas-array.json', 'atlas/atlas.json', 'atlas/atlas.png', 'meta.json']);
+    const atlas = JSON.parse(await zip.file('atlas/atlas.json')!.async('string'));
+    expect(Object.keys(atlas.frames)).toHaveLength(6);
+    expect(atlas.frames['0_1.png'].frame).toEqual({ x: 19, y: 1, w: 16, h: 16 });
+    expect(atlas.meta).toMatchObject({ image: 'atlas.png', size: { w: 54, h: 36 } });
+  });
+
+  it('encodes animations and links their frames to tile files', async () => {
+    const { files, meta } = await exportLayout({
+      animations: [{ name: 'walk cycle', frames: [{ index: 0, duration: 80 }, { index: 1, duration: 120 }] }]
+    });
+
+    expect(files).toContain('animations/walk_cycle.gif');
+    expect(files).toContain('animations/walk_cycle.apng');
+    expect(meta.animations).toEqual([{
+      name: 'walk cycle',
+      files: { gif: 'animations/walk_cycle.gif', apng: 'animations/walk_cycle.apng' },
+      frames: [
+        { index: 0, row: 0, col: 0, filename: '0_0.png', duration: 80 },
+        { index: 1, row: 0, col: 1, filename: '0_1.png', duration: 120 }
+      ]
+    }]);
+  });
+
+  it('gives every animation its own files when names repeat', async () => {
+    const frames = [{ index: 0, duration: 100 }];
+    const { files, meta } = await exportLayout({
+      animations: ['a', 'a_2', 'a'].map(name => ({ name, frames }))
+    });
+
+    expect(meta.animations.map((animation: { files: { gif: string } }) => animation.files.gif))
+      .toEqual(['animations/a.gif', 'animations/a_2.gif', 'animations/a_3.gif']);
+    expect(files.filter((file: string) => file.endsWith('.apng'))).toHaveLength(3);
+  });
+
+  it('rejects templates that give several tiles the same name', async () => {
+    await expect(exportLayout({ export: { namingPattern: 'template', filenameTemplate: '{basename}' } }))
+      .rejects.toThrow('Duplicate filenames: hero.png');
+  });
+});
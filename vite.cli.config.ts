@@ -0,0 +1,10 @@
+import { defineConfig } from 'vite';
+
+// Node build of the command-line slicer: `npm run build:cli`
+export default defineConfig({
+  build: {
+    ssr: 'src/cli.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true
+  }
+});
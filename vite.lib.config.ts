@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// ES module build of the library entry point: `npm run build:lib`
+export default defineConfig({
+  build: {
+    lib: {
+      entry: 'src/lib.ts',
+      formats: ['es'],
+      fileName: 'sprite-slicer'
+    },
+    outDir: 'dist-lib',
+    emptyOutDir: true,
+    rollupOptions: {
+      external: ['jszip']
+    }
+  }
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run headless in Node on the @napi-rs/canvas backend
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts']
+  }
+});